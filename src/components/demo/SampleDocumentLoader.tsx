@@ -3,6 +3,7 @@ import { FileText, Download, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useRegulationStore } from '@/store/regulationStore';
+import { validateDocumentData } from '@/services/validation/documentSchema';
 
 interface SampleDocument {
   id: string;
@@ -28,7 +29,7 @@ const sampleDocuments: SampleDocument[] = [
 
 export function SampleDocumentLoader() {
   const [loading, setLoading] = useState<string | null>(null);
-  const { setRawDocumentContent, setDocumentData } = useRegulationStore();
+  const { setRawDocumentContent, setDocumentData, setValidationReport } = useRegulationStore();
 
   const loadSampleDocument = async (sample: SampleDocument) => {
     setLoading(sample.id);
@@ -42,13 +43,14 @@ export function SampleDocumentLoader() {
       // Load the JSON analysis data
       const jsonResponse = await fetch(sample.jsonPath);
       if (!jsonResponse.ok) throw new Error('Failed to load analysis data');
-      const analysisData = await jsonResponse.json();
+      const { data: analysisData, report } = validateDocumentData(await jsonResponse.json());
       
       // Set the raw document content first (immediate display)
       setRawDocumentContent(pdfBuffer, 'pdf', sample.title);
       
       // Set the document analysis data (for navigation)
       setDocumentData(analysisData);
+      setValidationReport(report);
       
       console.log('Sample document loaded successfully:', sample.title);
       
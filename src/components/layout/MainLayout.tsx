@@ -1,9 +1,15 @@
 import { useRegulationStore } from '@/store/regulationStore';
 import { UploadInterface } from '@/components/upload/UploadInterface';
 import { WorkspaceView } from '@/components/workspace/WorkspaceView';
+import { ProcessingView } from '@/components/processing/ProcessingView';
 
 export function MainLayout() {
-  const { rawDocumentContent } = useRegulationStore();
+  const { rawDocumentContent, processingState } = useRegulationStore();
+
+  // Scanned PDFs have nothing to show in the workspace until OCR has read them
+  if (processingState.ocr) {
+    return <ProcessingView />;
+  }
 
   // Show workspace if we have document content (either raw or processed)
   if (rawDocumentContent.content) {
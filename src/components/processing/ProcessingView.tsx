@@ -1,7 +1,11 @@
 import { useRegulationStore } from '@/store/regulationStore';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { FileText, Sparkles, Network, CheckCircle, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FileText, Sparkles, Network, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { OCR_LOW_CONFIDENCE, OcrProgress } from '@/services/extractors/ocrTypes';
+import { cancelDocumentProcessing } from '@/services/documentService';
 
 const stageIcons = {
   uploading: FileText,
@@ -21,9 +25,74 @@ const stageMessages = {
   error: 'An error occurred during processing.',
 };
 
+/**
+ * Per-page status of the pages being read with OCR
+ */
+function OcrPageGrid({ ocr }: { ocr: OcrProgress }) {
+  const finished = ocr.pages.filter(page => page.state === 'done' || page.state === 'failed').length;
+  const lowConfidence = ocr.pages.filter(page => page.state === 'done' && page.confidence < OCR_LOW_CONFIDENCE).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">Scanned pages (OCR)</span>
+        <span className="text-muted-foreground">
+          {finished} of {ocr.pages.length} recognised
+          {ocr.pages.length < ocr.totalPages && ` · ${ocr.totalPages - ocr.pages.length} pages have a text layer`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-8 sm:grid-cols-10 gap-2 max-h-48 overflow-y-auto">
+        {ocr.pages.map(page => {
+          const isLow = page.state === 'done' && page.confidence < OCR_LOW_CONFIDENCE;
+          return (
+            <div
+              key={page.pageNumber}
+              className={cn(
+                'rounded border p-1 text-center text-xs space-y-1',
+                page.state === 'failed' && 'border-destructive/40 bg-destructive/10 text-destructive',
+                isLow && 'border-amber-400/60 bg-amber-50 text-amber-700 dark:bg-amber-950/30 dark:text-amber-400',
+                page.state === 'done' && !isLow && 'border-primary/30 bg-primary/5',
+                page.state === 'pending' && 'text-muted-foreground'
+              )}
+              title={
+                page.state === 'done'
+                  ? `Page ${page.pageNumber}: ${Math.round(page.confidence)}% confidence`
+                  : `Page ${page.pageNumber}: ${page.state}`
+              }
+            >
+              <div className="font-medium">{page.pageNumber}</div>
+              {page.state === 'recognizing' ? (
+                <Progress value={page.progress * 100} className="h-1" />
+              ) : (
+                <div className="h-1 leading-none text-[10px]">
+                  {page.state === 'done' ? `${Math.round(page.confidence)}%` : page.state === 'failed' ? '!' : ''}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {lowConfidence > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          {lowConfidence} page{lowConfidence === 1 ? '' : 's'} below {OCR_LOW_CONFIDENCE}% confidence; they will be flagged in the result
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={cancelDocumentProcessing}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function ProcessingView() {
   const { processingState } = useRegulationStore();
-  const { stage, progress, message, currentSection } = processingState;
+  const { stage, progress, message, currentSection, ocr } = processingState;
 
   const Icon = stageIcons[stage];
   const stageMessage = stageMessages[stage];
@@ -55,6 +124,8 @@ export function ProcessingView() {
             </div>
           )}
 
+          {ocr && <OcrPageGrid ocr={ocr} />}
+
           {currentSection && (
             <div className="bg-primary/5 rounded-lg p-4">
               <p className="text-sm font-medium mb-1">Currently Processing</p>
@@ -0,0 +1,99 @@
+import { Scissors } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChunkingPlan, ChunkingStyle } from '@/services/streaming/DocumentChunker';
+
+interface ChunkingPlanDialogProps {
+  plan: ChunkingPlan | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+const strategyLabels: Record<ChunkingPlan['strategy'], string> = {
+  single: 'Single request',
+  structure: 'Split on headings',
+  character: 'Split on sentences (no headings found)',
+};
+
+const styleLabels: Record<ChunkingStyle, string> = {
+  statute: 'Parts and sections',
+  article: 'Chapters and Articles',
+  cfr: 'Parts and § sections',
+  clause: 'clauses and Schedules',
+};
+
+const summarizeHeadings = (headings: string[]) => {
+  if (headings.length === 0) return 'Continues previous section';
+  if (headings.length <= 3) return headings.join(', ');
+  return `${headings[0]} … ${headings[headings.length - 1]} (${headings.length} headings)`;
+};
+
+export function ChunkingPlanDialog({ plan, open, onOpenChange, onConfirm }: ChunkingPlanDialogProps) {
+  if (!plan) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scissors className="h-5 w-5" />
+            Chunking Plan
+          </DialogTitle>
+          <DialogDescription>
+            {strategyLabels[plan.strategy]}{plan.strategy === 'structure' && ` (${styleLabels[plan.style]})`} · {plan.chunks.length} request{plan.chunks.length === 1 ? '' : 's'} ·
+            ~{plan.totalTokens.toLocaleString()} input tokens · budget {plan.config.maxChunkTokens.toLocaleString()} tokens per chunk
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[360px] pr-3">
+          <div className="space-y-2">
+            {plan.chunks.map((chunk) => (
+              <div key={chunk.index} className="rounded-md border p-3 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">Chunk {chunk.index + 1}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    ~{chunk.metadata.estimatedTokens.toLocaleString()} tokens
+                  </Badge>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    chars {chunk.metadata.startChar.toLocaleString()}–{chunk.metadata.endChar.toLocaleString()}
+                  </span>
+                  {chunk.metadata.splitsSection && (
+                    <Badge variant="outline" className="text-xs">Splits section</Badge>
+                  )}
+                  {chunk.metadata.overlapChars > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      {chunk.metadata.overlapChars} chars overlap
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{summarizeHeadings(chunk.metadata.headings)}</p>
+                <p className="text-xs text-muted-foreground truncate italic">
+                  “{chunk.content.slice(0, 120)}”
+                </p>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm}>
+            Start analysis
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
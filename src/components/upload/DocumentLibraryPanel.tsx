@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, History, Loader2, Pencil, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRegulationStore } from '@/store/regulationStore';
+import { LibraryEntry } from '@/services/storage/DocumentLibrary';
+import { useToast } from '@/hooks/use-toast';
+
+type SortOrder = 'updated' | 'created' | 'title' | 'size';
+
+const sortOrders: Array<{ value: SortOrder; label: string }> = [
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'created', label: 'Recently added' },
+  { value: 'title', label: 'Title (A–Z)' },
+  { value: 'size', label: 'Largest first' },
+];
+
+const compareEntries: Record<SortOrder, (a: LibraryEntry, b: LibraryEntry) => number> = {
+  updated: (a, b) => b.updatedAt - a.updatedAt,
+  created: (a, b) => b.createdAt - a.createdAt,
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+  size: (a, b) => b.sizeBytes - a.sizeBytes,
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const matchesQuery = (entry: LibraryEntry, query: string) =>
+  [entry.title, entry.fileName, entry.jurisdiction, entry.documentType]
+    .some(value => value?.toLowerCase().includes(query));
+
+export function DocumentLibraryPanel() {
+  const {
+    libraryDocuments,
+    refreshLibrary,
+    openLibraryDocument,
+    renameLibraryDocument,
+    deleteLibraryDocuments,
+  } = useRegulationStore();
+  const { toast } = useToast();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('updated');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Load the library (and migrate old localStorage saves) on mount
+  useEffect(() => {
+    refreshLibrary().finally(() => setIsLoading(false));
+  }, [refreshLibrary]);
+
+  // Forget selections of documents that no longer exist
+  useEffect(() => {
+    setSelectedIds(prev => new Set([...prev].filter(id => libraryDocuments.some(doc => doc.id === id))));
+  }, [libraryDocuments]);
+
+  const visibleDocuments = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    return libraryDocuments
+      .filter(entry => !normalized || matchesQuery(entry, normalized))
+      .sort(compareEntries[sortOrder]);
+  }, [libraryDocuments, query, sortOrder]);
+
+  const allVisibleSelected = visibleDocuments.length > 0 && visibleDocuments.every(doc => selectedIds.has(doc.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleDocuments.map(doc => doc.id)));
+  };
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    try {
+      const opened = await openLibraryDocument(id);
+      if (!opened) {
+        toast({ title: "Document Not Found", description: "It may have been deleted in another tab", variant: "destructive" });
+        await refreshLibrary();
+      }
+    } catch (error) {
+      console.error('Error opening document:', error);
+      toast({ title: "Could Not Open Document", description: String(error), variant: "destructive" });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setEditingTitle(entry.title);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (id && title) {
+      await renameLibraryDocument(id, title);
+    }
+  };
+
+  const handleDeleteSelected = async () => {
+    const ids = [...selectedIds];
+    setConfirmDelete(false);
+    await deleteLibraryDocuments(ids);
+    setSelectedIds(new Set());
+    toast({
+      title: "Documents Deleted",
+      description: `Removed ${ids.length} document${ids.length === 1 ? '' : 's'} from the library`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Document Library
+        </CardTitle>
+        <CardDescription>
+          Saved documents with their original file, analysis and chat, stored in this browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by title, file, jurisdiction..."
+              className="pl-10"
+            />
+          </div>
+          <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+            <SelectTrigger className="w-[180px]" aria-label="Sort documents">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOrders.map((order) => (
+                <SelectItem key={order.value} value={order.value}>
+                  {order.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {visibleDocuments.length > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAllVisible} />
+              Select all
+            </label>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={selectedIds.size === 0}
+              onClick={() => setConfirmDelete(true)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading library...
+          </div>
+        ) : libraryDocuments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No saved documents yet. Process a document and save it to see it here.
+          </p>
+        ) : visibleDocuments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No documents match “{query}”.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {visibleDocuments.map((doc) => (
+              <div
+                key={doc.id}
+                className="flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selectedIds.has(doc.id)}
+                  onCheckedChange={() => toggleSelected(doc.id)}
+                  aria-label={`Select ${doc.title}`}
+                />
+
+                <div className="flex-1 min-w-0">
+                  {editingId === doc.id ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="sm" onClick={commitRename} aria-label="Save title">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <h4 className="font-medium truncate">{doc.title}</h4>
+                  )}
+                  <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground mt-1">
+                    <span>{new Date(doc.updatedAt).toLocaleDateString()}</span>
+                    {doc.fileType && (
+                      <Badge variant="secondary" className="text-xs uppercase">{doc.fileType}</Badge>
+                    )}
+                    {doc.jurisdiction && <span>{doc.jurisdiction}</span>}
+                    <span>{doc.nodeCount} nodes</span>
+                    {doc.hasOriginal ? (
+                      <span>{formatSize(doc.sizeBytes)}</span>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">No original file</Badge>
+                    )}
+                  </div>
+                </div>
+
+                {editingId !== doc.id && (
+                  <Button variant="ghost" size="sm" onClick={() => startRename(doc)} aria-label={`Rename ${doc.title}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleOpen(doc.id)}
+                  disabled={openingId !== null}
+                >
+                  {openingId === doc.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Open'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selectedIds.size} document{selectedIds.size === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The original files, analyses and chat histories are removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSelected}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { FileSearch } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DocumentClassification, DocumentKind, DOCUMENT_KIND_LABELS } from '@/services/parsing/DocumentClassifier';
+import { AUTO_PROMPT_TEMPLATE, getPromptTemplate, selectPromptTemplate } from '@/services/prompts/promptRegistry';
+
+interface DocumentTypeDialogProps {
+  classification: DocumentClassification | null;
+  promptTemplateId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (classification: DocumentClassification) => void;
+}
+
+const languageNames: Record<string, string> = {
+  en: 'English',
+  fr: 'French',
+  de: 'German',
+  es: 'Spanish',
+  it: 'Italian',
+  nl: 'Dutch',
+  pt: 'Portuguese',
+};
+
+export function DocumentTypeDialog({ classification, promptTemplateId, open, onOpenChange, onConfirm }: DocumentTypeDialogProps) {
+  const [documentType, setDocumentType] = useState<DocumentKind>('act');
+  const [jurisdiction, setJurisdiction] = useState('');
+
+  // Start from the detected values each time a new document is classified
+  useEffect(() => {
+    if (!classification) return;
+    setDocumentType(classification.documentType);
+    setJurisdiction(classification.jurisdiction ?? '');
+  }, [classification]);
+
+  if (!classification) return null;
+
+  const confirmed: DocumentClassification = {
+    ...classification,
+    documentType,
+    jurisdiction: jurisdiction.trim() || null,
+    confirmed: true,
+  };
+  const template = promptTemplateId === AUTO_PROMPT_TEMPLATE
+    ? selectPromptTemplate(confirmed)
+    : getPromptTemplate(promptTemplateId) ?? selectPromptTemplate(confirmed);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5" />
+            Document Type
+          </DialogTitle>
+          <DialogDescription>
+            Detected from the text, before any model call. Correct it if it is wrong: it decides the prompt
+            template and the headings a large document is split at.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="document-type" className="text-sm">Type</Label>
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentKind)}>
+                <SelectTrigger id="document-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DOCUMENT_KIND_LABELS) as DocumentKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{DOCUMENT_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="document-jurisdiction" className="text-sm">Jurisdiction</Label>
+              <Input
+                id="document-jurisdiction"
+                value={jurisdiction}
+                placeholder="Unknown"
+                onChange={(event) => setJurisdiction(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant={classification.confidence >= 0.6 ? 'secondary' : 'outline'} className="text-xs">
+              {Math.round(classification.confidence * 100)}% confidence
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              {languageNames[classification.language] ?? classification.language}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              Prompt template: {template.label} v{template.version}
+            </span>
+          </div>
+
+          <div className="rounded-md border p-3">
+            <p className="text-xs font-medium mb-1">Evidence</p>
+            <ul className="space-y-0.5 text-xs text-muted-foreground list-disc pl-4">
+              {classification.evidence.map(item => (
+                <li key={item}>{item}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(confirmed)}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
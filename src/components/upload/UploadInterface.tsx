@@ -1,31 +1,133 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, Globe, History } from 'lucide-react';
+import { Upload, FileText, Globe, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useRegulationStore } from '@/store/regulationStore';
-import { processDocument } from '@/services/documentService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useRegulationStore, AnalysisMode, OutputProtocol } from '@/store/regulationStore';
+import { processDocument, previewChunkingPlan, detectDocumentType } from '@/services/documentService';
+import type { DocumentPreview } from '@/services/documentProcessor';
+import { ChunkingPlan } from '@/services/streaming/DocumentChunker';
+import { DocumentClassification } from '@/services/parsing/DocumentClassifier';
+import { ChunkingPlanDialog } from './ChunkingPlanDialog';
+import { DocumentTypeDialog } from './DocumentTypeDialog';
+import { DocumentLibraryPanel } from './DocumentLibraryPanel';
+import { detectXmlFileDialect } from '@/services/parsing/XmlDocumentImporter';
+import { LLMProvider, resolveProvider } from '@/services/llm';
+import { AUTO_PROMPT_TEMPLATE, PROMPT_TEMPLATES } from '@/services/prompts/promptRegistry';
 import { SampleDocumentLoader } from '@/components/demo/SampleDocument';
 import { cn } from '@/lib/utils';
 
+const analysisModes: Array<{ value: AnalysisMode; label: string; description: string }> = [
+  { value: 'ai', label: 'AI analysis', description: 'The configured LLM extracts structure and references' },
+  { value: 'hybrid', label: 'Rules + AI refinement', description: 'Instant rule-based outline, then refined by the LLM' },
+  { value: 'rules', label: 'Rule-based only', description: 'Offline numbering parser, no model call or API key' },
+];
+
+const outputProtocols: Array<{ value: OutputProtocol; label: string; description: string }> = [
+  { value: 'nested', label: 'Nested JSON', description: 'One JSON document; sections appear as their subtrees complete' },
+  { value: 'ndjson', label: 'NDJSON (node per line)', description: 'One node per line, shown as soon as its line ends; a cut-off response keeps every finished line' },
+];
+
 export function UploadInterface() {
   const [url, setUrl] = useState('');
   const [isProcessingUrl, setIsProcessingUrl] = useState(false);
-  const { setProcessingState, savedDocuments, refreshSavedDocuments, loadDocument } = useRegulationStore();
+  const [previewPlan, setPreviewPlan] = useState(false);
+  const [pendingInput, setPendingInput] = useState<File | string | null>(null);
+  const [documentPreview, setDocumentPreview] = useState<DocumentPreview | null>(null);
+  const [confirmedClassification, setConfirmedClassification] = useState<DocumentClassification | null>(null);
+  const [chunkingPlan, setChunkingPlan] = useState<ChunkingPlan | null>(null);
+  const { 
+    setProcessingState, 
+    analysisMode,
+    setAnalysisMode,
+    outputProtocol,
+    setOutputProtocol,
+    useResponseSchema,
+    setUseResponseSchema,
+    promptTemplateId,
+    setPromptTemplateId,
+    autoDownloadJson,
+    setAutoDownloadJson
+  } = useRegulationStore();
 
-  // Load saved documents on mount
-  useState(() => {
-    refreshSavedDocuments();
-  });
+  // Extraction provider, to say whether it can enforce a response schema
+  const extractionProvider = useMemo((): LLMProvider | null => {
+    try {
+      return resolveProvider('extraction').provider;
+    } catch {
+      return null;
+    }
+  }, []);
+
+  /**
+   * Start analysis once the detected document type is confirmed (and the chunking plan, when preview is on)
+   */
+  const startProcessing = useCallback(async (input: File | string) => {
+    // Rule-based runs and Akoma Ntoso / USLM imports never call the model, so there is nothing to confirm;
+    // other XML is analysed like any text
+    const skipsModel = analysisMode === 'rules' || (input instanceof File && (await detectXmlFileDialect(input)) !== null);
+    if (skipsModel) {
+      await processDocument(input, setProcessingState);
+      return;
+    }
+
+    try {
+      const preview = await detectDocumentType(input);
+      // No text before OCR (scanned PDF): nothing to confirm yet, the type is detected from the OCR text
+      if (!preview.classification) {
+        await processDocument(input, setProcessingState);
+        return;
+      }
+      setDocumentPreview(preview);
+      setPendingInput(input);
+    } catch (error) {
+      console.error('Failed to classify document:', error);
+      await processDocument(input, setProcessingState);
+    }
+  }, [analysisMode, setProcessingState]);
+
+  const handleConfirmType = async (classification: DocumentClassification) => {
+    const input = pendingInput;
+    const preview = documentPreview;
+    setDocumentPreview(null);
+    if (!input) return;
+
+    if (previewPlan && preview) {
+      setConfirmedClassification(classification);
+      setChunkingPlan(previewChunkingPlan(preview, classification));
+      return;
+    }
+
+    setPendingInput(null);
+    await processDocument(input, setProcessingState, classification);
+  };
+
+  const handleConfirmPlan = async () => {
+    const input = pendingInput;
+    setPendingInput(null);
+    setChunkingPlan(null);
+    if (input) {
+      await processDocument(input, setProcessingState, confirmedClassification ?? undefined);
+    }
+  };
+
+  const cancelPending = () => {
+    setPendingInput(null);
+    setDocumentPreview(null);
+    setChunkingPlan(null);
+  };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (!file) return;
 
-    await processDocument(file, setProcessingState);
-  }, [setProcessingState]);
+    await startProcessing(file);
+  }, [startProcessing]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -33,6 +135,10 @@ export function UploadInterface() {
       'application/pdf': ['.pdf'],
       'text/html': ['.html', '.htm'],
       'text/plain': ['.txt'],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/epub+zip': ['.epub'],
+      'application/xml': ['.xml', '.akn'],
+      'text/xml': ['.xml'],
     },
     maxFiles: 1,
   });
@@ -42,16 +148,12 @@ export function UploadInterface() {
     
     setIsProcessingUrl(true);
     try {
-      await processDocument(url, setProcessingState);
+      await startProcessing(url);
     } finally {
       setIsProcessingUrl(false);
     }
   };
 
-  const handleLoadDocument = (id: string) => {
-    loadDocument(id);
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 p-8">
       <div className="max-w-4xl mx-auto">
@@ -69,10 +171,108 @@ export function UploadInterface() {
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="upload">Upload Document</TabsTrigger>
             <TabsTrigger value="sample">Try Sample</TabsTrigger>
-            <TabsTrigger value="history">Saved Documents</TabsTrigger>
+            <TabsTrigger value="library">Library</TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload" className="space-y-6">
+            {/* Analysis Mode */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Settings2 className="h-5 w-5" />
+                  Structure Analysis
+                </CardTitle>
+                <CardDescription>
+                  {analysisModes.find(m => m.value === analysisMode)?.description}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select value={analysisMode} onValueChange={(value) => setAnalysisMode(value as AnalysisMode)}>
+                  <SelectTrigger aria-label="Structure analysis mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {analysisModes.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {analysisMode !== 'rules' && (
+                  <div className="space-y-1 mt-4">
+                    <Label htmlFor="prompt-template" className="text-sm">Prompt template</Label>
+                    <Select value={promptTemplateId} onValueChange={setPromptTemplateId}>
+                      <SelectTrigger id="prompt-template">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO_PROMPT_TEMPLATE}>Automatic (from the document type)</SelectItem>
+                        {PROMPT_TEMPLATES.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.label} (v{template.version})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {PROMPT_TEMPLATES.find(t => t.id === promptTemplateId)?.description
+                        ?? 'Picks the numbering conventions and examples whose patterns occur most in the document'}
+                    </p>
+                  </div>
+                )}
+                {analysisMode !== 'rules' && (
+                  <div className="space-y-1 mt-4">
+                    <Label htmlFor="output-protocol" className="text-sm">Model output format</Label>
+                    <Select value={outputProtocol} onValueChange={(value) => setOutputProtocol(value as OutputProtocol)}>
+                      <SelectTrigger id="output-protocol">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {outputProtocols.map((protocol) => (
+                          <SelectItem key={protocol.value} value={protocol.value}>
+                            {protocol.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {outputProtocols.find(p => p.value === outputProtocol)?.description}
+                    </p>
+                  </div>
+                )}
+                {analysisMode !== 'rules' && outputProtocol === 'nested' && (
+                  <div className="mt-4 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Switch id="response-schema" checked={useResponseSchema} onCheckedChange={setUseResponseSchema} />
+                      <Label htmlFor="response-schema" className="text-sm font-normal">
+                        Enforce the document schema with the provider's structured output
+                      </Label>
+                    </div>
+                    {extractionProvider && !extractionProvider.responseSchemaOptions && (
+                      <p className="text-xs text-muted-foreground">
+                        {extractionProvider.label} has no structured output here; the prompt alone sets the format
+                      </p>
+                    )}
+                  </div>
+                )}
+                {analysisMode !== 'rules' && (
+                  <div className="flex items-center gap-2 mt-4">
+                    <Switch id="preview-plan" checked={previewPlan} onCheckedChange={setPreviewPlan} />
+                    <Label htmlFor="preview-plan" className="text-sm font-normal">
+                      Preview chunking plan before analysis
+                    </Label>
+                  </div>
+                )}
+                <div className="flex items-center gap-2 mt-4">
+                  <Switch id="auto-download" checked={autoDownloadJson} onCheckedChange={setAutoDownloadJson} />
+                  <Label htmlFor="auto-download" className="text-sm font-normal">
+                    Download JSON when analysis completes
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* File Upload */}
             <Card>
               <CardHeader>
@@ -81,7 +281,7 @@ export function UploadInterface() {
                   Upload File
                 </CardTitle>
                 <CardDescription>
-                  Drag and drop a PDF, HTML, or text file, or click to browse
+                  Drag and drop a PDF, Word, EPUB, HTML, text or Akoma Ntoso/USLM XML file, or click to browse
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -102,7 +302,7 @@ export function UploadInterface() {
                     <div>
                       <p className="text-lg mb-2">Drop your document here, or click to select</p>
                       <p className="text-sm text-muted-foreground">
-                        Supports PDF, HTML, and TXT files up to 10MB
+                        Supports PDF, DOCX, EPUB, HTML, TXT and XML files up to 10MB
                       </p>
                     </div>
                   )}
@@ -118,7 +318,7 @@ export function UploadInterface() {
                   From URL
                 </CardTitle>
                 <CardDescription>
-                  Enter a URL to a regulation document
+                  Enter the URL of a regulation web page or PDF
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -144,48 +344,26 @@ export function UploadInterface() {
             <SampleDocumentLoader />
           </TabsContent>
 
-          <TabsContent value="history">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <History className="h-5 w-5" />
-                  Saved Documents
-                </CardTitle>
-                <CardDescription>
-                  Previously processed documents stored locally
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {savedDocuments.length === 0 ? (
-                  <p className="text-center text-muted-foreground py-8">
-                    No saved documents yet. Process a document to see it here.
-                  </p>
-                ) : (
-                  <div className="space-y-2">
-                    {savedDocuments.map((doc) => (
-                      <div
-                        key={doc.id}
-                        className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 cursor-pointer"
-                        onClick={() => handleLoadDocument(doc.id)}
-                      >
-                        <div>
-                          <h4 className="font-medium">{doc.title}</h4>
-                          <p className="text-sm text-muted-foreground">
-                            {new Date(doc.timestamp).toLocaleDateString()}
-                          </p>
-                        </div>
-                        <Button variant="outline" size="sm">
-                          Load
-                        </Button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+          <TabsContent value="library">
+            <DocumentLibraryPanel />
           </TabsContent>
         </Tabs>
       </div>
+
+      <DocumentTypeDialog
+        classification={documentPreview?.classification ?? null}
+        promptTemplateId={promptTemplateId}
+        open={documentPreview !== null}
+        onOpenChange={(open) => !open && cancelPending()}
+        onConfirm={handleConfirmType}
+      />
+
+      <ChunkingPlanDialog
+        plan={chunkingPlan}
+        open={chunkingPlan !== null && pendingInput !== null}
+        onOpenChange={(open) => !open && cancelPending()}
+        onConfirm={handleConfirmPlan}
+      />
     </div>
   );
 }
\ No newline at end of file
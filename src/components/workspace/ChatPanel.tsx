@@ -10,13 +10,18 @@ import { geminiChatService, ChatMessage, DocumentContext } from '@/services/gemi
 import { cn } from '@/lib/utils';
 
 export function ChatPanel() {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => useRegulationStore.getState().chatHistory);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [hasDocument, setHasDocument] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const { rawDocumentContent, documentData, selectedNodeId, getChatContext } = useRegulationStore();
+  const { rawDocumentContent, documentData, selectedNodeId, getChatContext, setChatHistory } = useRegulationStore();
+
+  // Keep the store's copy current so the library saves (and restores) the conversation
+  useEffect(() => {
+    setChatHistory(messages);
+  }, [messages, setChatHistory]);
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
@@ -39,7 +44,13 @@ export function ChatPanel() {
         setHasDocument(true);
         setError(null);
         
-        // Add a welcome message
+        // Restore the conversation of a library document, otherwise start with a welcome message
+        const history = useRegulationStore.getState().chatHistory;
+        if (history.length > 0) {
+          setMessages(history);
+          return;
+        }
+
         const welcomeMessage: ChatMessage = {
           id: `welcome-${Date.now()}`,
           role: 'assistant',
@@ -51,7 +62,7 @@ export function ChatPanel() {
           }
         };
         
-        setMessages(prev => [...prev, welcomeMessage]);
+        setMessages([welcomeMessage]);
       } catch (err) {
         console.error('Error setting document context:', err);
         setError('Failed to initialize document analysis. Please try uploading the document again.');
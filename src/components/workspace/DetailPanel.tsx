@@ -3,7 +3,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ExternalLink, ArrowRight } from 'lucide-react';
-import { useRegulationStore } from '@/store/regulationStore';
+import { Reference, SourceSpan, useRegulationStore } from '@/store/regulationStore';
 
 export function DetailPanel() {
   const { documentData, selectedNodeId, setSelectedNodeId, findNodeById } = useRegulationStore();
@@ -26,10 +26,21 @@ export function DetailPanel() {
     }
   };
 
-  const renderTextWithReferences = (text: string, references: any[]) => {
+  // Position of a reference in the node text: from the source spans when the node text is the source
+  // passage at that point, otherwise the first case-insensitive occurrence
+  const referenceIndex = (text: string, ref: Reference, nodeSource?: SourceSpan) => {
+    if (ref.source && nodeSource) {
+      const index = ref.source.start - nodeSource.start;
+      if (text.substring(index, index + ref.text.length).toLowerCase() === ref.text.toLowerCase()) {
+        return index;
+      }
+    }
+    return text.toLowerCase().indexOf(ref.text.toLowerCase());
+  };
+
+  const renderTextWithReferences = (text: string, references: Reference[], nodeSource?: SourceSpan) => {
     if (references.length === 0) return text;
 
-    let result = text;
     const parts: Array<{ type: 'text' | 'reference'; content: string; target?: string }> = [];
     let lastIndex = 0;
 
@@ -37,12 +48,15 @@ export function DetailPanel() {
     const sortedRefs = references
       .map(ref => ({
         ...ref,
-        index: text.toLowerCase().indexOf(ref.text.toLowerCase())
+        index: referenceIndex(text, ref, nodeSource)
       }))
       .filter(ref => ref.index !== -1)
       .sort((a, b) => a.index - b.index);
 
     sortedRefs.forEach(ref => {
+      // Overlapping references (e.g. "section 5" inside "section 5(2)") keep the first one
+      if (ref.index < lastIndex) return;
+
       // Add text before reference
       if (ref.index > lastIndex) {
         parts.push({
@@ -126,7 +140,7 @@ export function DetailPanel() {
           <div>
             <h4 className="font-medium text-sm mb-2">Content</h4>
             <div className="text-sm leading-relaxed bg-muted/30 p-3 rounded-md">
-              {renderTextWithReferences(selectedNode.text, selectedNode.references)}
+              {renderTextWithReferences(selectedNode.text, selectedNode.references, selectedNode.source)}
             </div>
           </div>
 
@@ -147,9 +161,33 @@ export function DetailPanel() {
                       <p className="text-xs text-muted-foreground">
                         {ref.type === 'external' ? 'External reference' : `Points to ${ref.target}`}
                       </p>
+                      {ref.type === 'internal' && (ref.origin === 'resolver' || ref.status) && (
+                        <div className="flex items-center gap-1 mt-1">
+                          {ref.origin === 'resolver' && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              Resolver
+                            </Badge>
+                          )}
+                          {ref.status === 'repaired' && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              Repaired
+                            </Badge>
+                          )}
+                          {ref.status === 'dangling' && (
+                            <Badge variant="destructive" className="text-[10px] px-1 py-0">
+                              Target not found
+                            </Badge>
+                          )}
+                          {ref.confidence !== undefined && ref.status !== 'dangling' && (
+                            <span className="text-[10px] text-muted-foreground">
+                              {Math.round(ref.confidence * 100)}%
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
                     
-                    {ref.type === 'internal' && (
+                    {ref.type === 'internal' && ref.status !== 'dangling' && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -1,62 +1,86 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useRegulationStore } from '@/store/regulationStore';
-import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import { AlertTriangle } from 'lucide-react';
+import { useRegulationStore, DocumentFileType } from '@/store/regulationStore';
+import { XmlDocumentView } from './XmlDocumentView';
+import { PdfViewer } from './PdfViewer';
+import { PlacedReferenceLink, ReferenceLinkLayer } from './ReferenceLink';
+import { useSourceSpans } from '@/hooks/use-source-spans';
+import { getPromptTemplate } from '@/services/prompts/promptRegistry';
 
-// Use local worker shipped in `public/` to avoid CDN/CORS issues and ensure Vite serves it
-GlobalWorkerOptions.workerSrc = `${window.location.origin}/pdf.worker.min.mjs`;
+// Wait for scrolling to settle before looking up the section in view
+const SCROLL_SPY_DELAY = 150;
 
 interface DocumentViewerProps {
   documentData: any | null;
-  fileType: 'pdf' | 'html' | 'text' | 'url';
+  fileType: DocumentFileType;
   content: string | ArrayBuffer | null;
   highlightedSections: string[];
 }
 
 export function DocumentViewer({ documentData, fileType, content, highlightedSections }: DocumentViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [pdfPages, setPdfPages] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { rawDocumentContent, setSelectedNodeId, setViewerSectionId } = useRegulationStore();
+  const { highlightSpan, sectionAtPoint, referenceRanges } = useSourceSpans(containerRef, documentData, rawDocumentContent.sourceText, content);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const scrollSpyTimer = useRef<number>();
+  const [referenceLinks, setReferenceLinks] = useState<PlacedReferenceLink[]>([]);
 
-  // Render PDF content
+  // Lay links over reference wording once the content is rendered, and again whenever it reflows
   useEffect(() => {
-    if (fileType === 'pdf' && content instanceof ArrayBuffer) {
-      renderPDF(content);
-    }
-  }, [fileType, content]);
+    const layer = contentRef.current;
+    setReferenceLinks([]);
+    if (!layer || fileType === 'pdf') return;
 
-  const renderPDF = async (pdfBuffer: ArrayBuffer) => {
-    setIsLoading(true);
-    try {
-      const pdf = await getDocument({ data: pdfBuffer }).promise;
-      const pages: string[] = [];
-      
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 1.5 });
-        
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        if (context) {
-          await page.render({
-            canvasContext: context,
-            viewport: viewport,
-            canvas: canvas
-          }).promise;
-          
-          pages.push(canvas.toDataURL());
-        }
-      }
-      
-      setPdfPages(pages);
-    } catch (error) {
-      console.error('Error rendering PDF:', error);
-    } finally {
-      setIsLoading(false);
-    }
+    let frame = 0;
+    const place = () => {
+      const origin = layer.getBoundingClientRect();
+      const links = referenceRanges().map(({ key, reference, range }) => ({
+        key,
+        reference,
+        boxes: Array.from(range.getClientRects())
+          .filter(rect => rect.width > 0 && rect.height > 0)
+          .map(rect => ({
+            left: rect.left - origin.left,
+            top: rect.top - origin.top,
+            width: rect.width,
+            height: rect.height,
+          })),
+      }));
+      setReferenceLinks(links.filter(link => link.boxes.length > 0));
+    };
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(place);
+    };
+
+    schedule();
+    const observer = new ResizeObserver(schedule);
+    observer.observe(layer);
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+    };
+  }, [content, fileType, referenceRanges]);
+
+  useEffect(() => () => window.clearTimeout(scrollSpyTimer.current), []);
+
+  // Scroll spy: the section at the reading line, a quarter of the way down the view
+  const handleScroll = useCallback(() => {
+    window.clearTimeout(scrollSpyTimer.current);
+    scrollSpyTimer.current = window.setTimeout(() => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const sectionId = sectionAtPoint(rect.left + rect.width / 2, rect.top + rect.height / 4);
+      if (sectionId) setViewerSectionId(sectionId);
+    }, SCROLL_SPY_DELAY);
+  }, [sectionAtPoint, setViewerSectionId]);
+
+  // Clicking in the text selects the enclosing node; selecting text does not
+  const handleClick = (event: React.MouseEvent) => {
+    if (window.getSelection()?.isCollapsed === false) return;
+    const sectionId = sectionAtPoint(event.clientX, event.clientY);
+    if (sectionId) setSelectedNodeId(sectionId);
   };
 
   // Scroll to highlighted section
@@ -83,40 +107,23 @@ export function DocumentViewer({ documentData, fileType, content, highlightedSec
     }
   };
 
-  // Handle section highlighting
+  // Highlight the node's exact span; fall back to its element (XML provisions carry data-section ids).
+  // The PDF viewer highlights the node's passage itself.
   useEffect(() => {
-    if (highlightedSections.length > 0) {
+    if (highlightedSections.length > 0 && fileType !== 'pdf') {
       const latestSection = highlightedSections[highlightedSections.length - 1];
-      scrollToSection(latestSection);
+      if (!highlightSpan(latestSection)) {
+        scrollToSection(latestSection);
+      }
     }
-  }, [highlightedSections]);
+  }, [highlightedSections, fileType, highlightSpan]);
 
   const renderContent = () => {
-    if (isLoading) {
-      return (
-        <div className="flex items-center justify-center h-full">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-        </div>
-      );
-    }
-
     switch (fileType) {
       case 'pdf':
-        return (
-          <div className="space-y-4 p-4">
-            {pdfPages.map((pageDataUrl, index) => (
-              <div key={index} className="flex justify-center">
-                <img 
-                  src={pageDataUrl} 
-                  alt={`Page ${index + 1}`}
-                  className="max-w-full shadow-lg border border-border rounded-lg"
-                  data-section={`page-${index + 1}`}
-                  data-page={index + 1}
-                />
-              </div>
-            ))}
-          </div>
-        );
+        return content instanceof ArrayBuffer ? (
+          <PdfViewer data={content} documentData={documentData} highlightedSections={highlightedSections} />
+        ) : null;
 
       case 'html':
         return (
@@ -143,6 +150,9 @@ export function DocumentViewer({ documentData, fileType, content, highlightedSec
           </div>
         );
 
+      case 'xml':
+        return <XmlDocumentView xml={content as string} />;
+
       case 'url':
         return (
           <div className="p-6">
@@ -178,16 +188,42 @@ export function DocumentViewer({ documentData, fileType, content, highlightedSec
             </h2>
             <p className="text-sm text-muted-foreground">
               {documentData.metadata.document_type} • {documentData.metadata.jurisdiction}
+              {documentData.metadata.ocr && (
+                <> • {documentData.metadata.ocr.pages.length} scanned page{documentData.metadata.ocr.pages.length === 1 ? '' : 's'} read with OCR ({documentData.metadata.ocr.confidence}% confidence)</>
+              )}
+              {documentData.metadata.extraction && (
+                <>
+                  {' '}• {documentData.metadata.extraction.protocol === 'ndjson' ? 'NDJSON' : 'nested JSON'} output
+                  {documentData.metadata.extraction.outputMode === 'schema' ? ' (response schema)' : ' (prompt only)'}
+                  {documentData.metadata.extraction.promptTemplate && (
+                    <> • {getPromptTemplate(documentData.metadata.extraction.promptTemplate.id)?.label ?? documentData.metadata.extraction.promptTemplate.id} prompt v{documentData.metadata.extraction.promptTemplate.version}</>
+                  )}
+                </>
+              )}
             </p>
+            {documentData.metadata.ocr?.lowConfidencePages.length > 0 && (
+              <p className="mt-1 flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                Low OCR confidence on page{documentData.metadata.ocr.lowConfidencePages.length === 1 ? '' : 's'}{' '}
+                {documentData.metadata.ocr.lowConfidencePages.join(', ')}; check the extracted text against the scan
+              </p>
+            )}
           </div>
         )}
         
-        {/* Document content */}
-        <ScrollArea className="flex-1" ref={containerRef}>
-          <div className="document-content">
+        {/* Document content; the PDF viewer scrolls its own virtualised pages */}
+        {fileType === 'pdf' && content instanceof ArrayBuffer ? (
+          <div className="flex-1 min-h-0">
             {renderContent()}
           </div>
-        </ScrollArea>
+        ) : (
+          <ScrollArea className="flex-1" ref={containerRef} onScrollCapture={handleScroll}>
+            <div className="document-content relative" ref={contentRef} onClick={handleClick}>
+              {renderContent()}
+              <ReferenceLinkLayer links={referenceLinks} />
+            </div>
+          </ScrollArea>
+        )}
       </div>
     </div>
   );
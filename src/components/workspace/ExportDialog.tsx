@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { DocumentData } from '@/store/regulationStore';
+import { EXPORT_FORMATS, ExportFormatId, downloadExportedFile, exportDocument } from '@/services/export';
+import { useToast } from '@/hooks/use-toast';
+
+interface ExportDialogProps {
+  data: DocumentData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportDialog({ data, open, onOpenChange }: ExportDialogProps) {
+  const [formatId, setFormatId] = useState<ExportFormatId>('markdown');
+  const { toast } = useToast();
+
+  const handleExport = () => {
+    try {
+      const file = exportDocument(data, formatId);
+      downloadExportedFile(file);
+      onOpenChange(false);
+      toast({
+        title: "Export Ready",
+        description: `Downloaded ${file.fileName}`,
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Could not export the document',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export Document
+          </DialogTitle>
+          <DialogDescription>
+            Download the analysed structure of “{data.metadata.title || 'Untitled Document'}”
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={formatId} onValueChange={(value) => setFormatId(value as ExportFormatId)} className="space-y-1">
+          {Object.values(EXPORT_FORMATS).map((format) => (
+            <Label
+              key={format.id}
+              htmlFor={`export-${format.id}`}
+              className="flex items-start gap-3 rounded-md border p-3 font-normal cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem id={`export-${format.id}`} value={format.id} className="mt-0.5" />
+              <div className="space-y-0.5">
+                <div className="text-sm font-medium">
+                  {format.label} <span className="text-xs text-muted-foreground font-mono">.{format.extension}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{format.description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,10 @@
 import React from 'react';
 import { Progress } from '@/components/ui/progress';
 import { FileText, Globe, Upload } from 'lucide-react';
+import type { DocumentFileType } from '@/store/regulationStore';
 
 interface ExtractingViewProps {
-  fileType?: 'pdf' | 'html' | 'text' | 'url';
+  fileType?: DocumentFileType;
   fileName?: string;
 }
 
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+
+const THUMBNAIL_WIDTH = 96;
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PdfThumbnailStripProps {
+  pdf: PDFDocumentProxy;
+  pageSizes: PageSize[];
+  currentPage: number;
+  // Pages marked for review (low OCR confidence)
+  flaggedPages?: number[];
+  onSelectPage: (pageNumber: number) => void;
+}
+
+/**
+ * A page thumbnail, rendered the first time it scrolls into the strip
+ */
+function PdfThumbnail({
+  pdf,
+  pageNumber,
+  size,
+  isCurrent,
+  isFlagged,
+  root,
+  onSelect,
+}: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  isCurrent: boolean;
+  isFlagged: boolean;
+  root: HTMLElement | null;
+  onSelect: () => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const scale = THUMBNAIL_WIDTH / size.width;
+
+  useEffect(() => {
+    const element = buttonRef.current;
+    if (!element || isVisible) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) setIsVisible(true);
+      },
+      { root, rootMargin: '200px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [root, isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const viewport = page.getViewport({ scale });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      renderTask = page.render({ canvasContext: canvas.getContext('2d')!, viewport, canvas });
+      return renderTask.promise;
+    }).catch((error) => {
+      if (error?.name !== 'RenderingCancelledException') {
+        console.error(`Error rendering thumbnail ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [isVisible, pdf, pageNumber, scale]);
+
+  // Keep the current page's thumbnail in view while the document scrolls
+  useEffect(() => {
+    if (isCurrent) buttonRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isCurrent]);
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={onSelect}
+      className="flex flex-col items-center gap-1 w-full"
+      aria-label={`Go to page ${pageNumber}`}
+      title={isFlagged ? 'Low OCR confidence' : undefined}
+      aria-current={isCurrent ? 'page' : undefined}
+    >
+      <canvas
+        ref={canvasRef}
+        className={cn(
+          'bg-white border rounded-sm shadow-sm transition-shadow',
+          isCurrent ? 'ring-2 ring-primary' : 'hover:ring-2 hover:ring-primary/40'
+        )}
+        style={{ width: THUMBNAIL_WIDTH, height: size.height * scale }}
+      />
+      <span
+        className={cn(
+          'text-xs',
+          isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground',
+          isFlagged && 'text-amber-600 dark:text-amber-400'
+        )}
+      >
+        {pageNumber}
+        {isFlagged && ' ⚠'}
+      </span>
+    </button>
+  );
+}
+
+export function PdfThumbnailStrip({ pdf, pageSizes, currentPage, flaggedPages, onSelectPage }: PdfThumbnailStripProps) {
+  const [root, setRoot] = useState<HTMLDivElement | null>(null);
+
+  return (
+    <div ref={setRoot} className="h-full overflow-y-auto border-r border-border bg-muted/30 p-3 space-y-3">
+      {root && pageSizes.map((size, index) => (
+        <PdfThumbnail
+          key={index}
+          pdf={pdf}
+          pageNumber={index + 1}
+          size={size}
+          isCurrent={currentPage === index + 1}
+          isFlagged={flaggedPages?.includes(index + 1) ?? false}
+          root={root}
+          onSelect={() => onSelectPage(index + 1)}
+        />
+      ))}
+    </div>
+  );
+}
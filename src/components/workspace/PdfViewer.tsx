@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent } from 'react';
+import { GlobalWorkerOptions, TextLayer, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport, RenderTask } from 'pdfjs-dist';
+import { ChevronDown, ChevronUp, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DocumentData, useRegulationStore } from '@/store/regulationStore';
+import { PdfHighlightRect, PdfPageText, PdfTextMatcher, toPageText } from '@/services/pdf/PdfTextMatcher';
+import { SectionLocator } from '@/services/viewer/SectionLocator';
+import { PdfThumbnailStrip } from './PdfThumbnailStrip';
+import { PlacedReferenceLink, ReferenceLinkLayer } from './ReferenceLink';
+
+// Use local worker shipped in `public/` to avoid CDN/CORS issues and ensure Vite serves it
+GlobalWorkerOptions.workerSrc = `${window.location.origin}/pdf.worker.min.mjs`;
+
+// Layout of the page column, in CSS pixels (must match the gap-4 / p-4 classes below)
+const PAGE_GAP = 16;
+const PAGE_PADDING = 16;
+// Pages rendered above and below the visible ones
+const PAGE_BUFFER = 2;
+// Wait for scrolling to settle before looking up the section in view
+const SCROLL_SPY_DELAY = 150;
+
+type TextContent = Awaited<ReturnType<PDFPageProxy['getTextContent']>>;
+
+interface PdfViewerProps {
+  data: ArrayBuffer;
+  documentData: DocumentData | null;
+  highlightedSections: string[];
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  getTextContent: (pageNumber: number) => Promise<TextContent>;
+  highlights: PdfHighlightRect[];
+  referenceLinks: PlacedReferenceLink[];
+}
+
+const isCancelled = (error: unknown) =>
+  error instanceof Error && (error.name === 'RenderingCancelledException' || error.name === 'AbortException');
+
+const NO_LINKS: PlacedReferenceLink[] = [];
+
+// Page-relative box for a rect given as fractions of the page
+const toBox = (rect: PdfHighlightRect) => ({
+  left: `${rect.left * 100}%`,
+  top: `${rect.top * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+/**
+ * A page in or near the viewport: canvas, selectable pdf.js text layer and highlight boxes
+ */
+function PdfPage({ pdf, pageNumber, scale, getTextContent, highlights, referenceLinks }: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    const textContainer = textLayerRef.current;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas || !textContainer) return;
+
+      // Render at device resolution so text stays sharp on high-DPI screens
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        canvas,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+
+      const textContent = await getTextContent(pageNumber);
+      if (cancelled) return;
+      textContainer.replaceChildren();
+      textLayer = new TextLayer({ textContentSource: textContent, container: textContainer, viewport });
+      await Promise.all([renderTask.promise, textLayer.render()]);
+    };
+
+    render().catch((error) => {
+      if (!isCancelled(error)) console.error(`Error rendering PDF page ${pageNumber}:`, error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+      textContainer?.replaceChildren();
+    };
+  }, [pdf, pageNumber, scale, getTextContent]);
+
+  return (
+    <>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full select-none" />
+      <div ref={textLayerRef} className="textLayer" />
+      {highlights.map((rect, index) => (
+        <div
+          key={index}
+          className="absolute pointer-events-none rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500/60 mix-blend-multiply"
+          style={toBox(rect)}
+        />
+      ))}
+      <ReferenceLinkLayer links={referenceLinks} />
+    </>
+  );
+}
+
+/**
+ * Virtualised PDF viewer: every page gets a correctly sized slot, but only pages in or near the
+ * viewport are rendered, at the zoom chosen in the workspace header
+ */
+export function PdfViewer({ data, documentData, highlightedSections }: PdfViewerProps) {
+  const { viewerZoom, viewerFitWidth, setViewerZoom, rawDocumentContent, setSelectedNodeId, setViewerSectionId } = useRegulationStore();
+  const { ocrPages, sourceText } = rawDocumentContent;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textContentCache = useRef(new Map<number, Promise<TextContent>>());
+  // Page at the top of the viewport and the scroll position within its slot (page plus the gap above it)
+  const scrollAnchor = useRef({ page: 0, offset: 0 });
+  const scrollSpyTimer = useRef<number>();
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [baseViewports, setBaseViewports] = useState<PageViewport[]>([]);
+  const [textContents, setTextContents] = useState<TextContent[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([0, 0]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [highlight, setHighlight] = useState<{ nodeId: string; rects: PdfHighlightRect[] } | null>(null);
+
+  const scale = viewerZoom;
+
+  // Open the document and read page sizes; nothing is rendered yet
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        // pdf.js transfers the buffer to its worker; pass a copy so the store keeps the original bytes
+        loaded = await getDocument({ data: data.slice(0) }).promise;
+        const viewports: PageViewport[] = [];
+        for (let i = 1; i <= loaded.numPages && !cancelled; i++) {
+          viewports.push((await loaded.getPage(i)).getViewport({ scale: 1 }));
+        }
+        if (cancelled) return;
+        setPdf(loaded);
+        setBaseViewports(viewports);
+      } catch (error) {
+        console.error('Error loading PDF:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    textContentCache.current = new Map();
+    scrollAnchor.current = { page: 0, offset: 0 };
+    setPdf(null);
+    setBaseViewports([]);
+    setTextContents(null);
+    setHighlight(null);
+    load();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [data]);
+
+  const getTextContent = useCallback((pageNumber: number) => {
+    const cache = textContentCache.current;
+    if (!cache.has(pageNumber)) {
+      cache.set(pageNumber, pdf!.getPage(pageNumber).then(page => page.getTextContent()));
+    }
+    return cache.get(pageNumber)!;
+  }, [pdf]);
+
+  // Read every page's text in the background for the node matcher (text only, no rendering)
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+
+    const loadText = async () => {
+      const contents: TextContent[] = [];
+      for (let i = 1; i <= pdf.numPages && !cancelled; i++) {
+        contents.push(await getTextContent(i));
+      }
+      if (!cancelled) setTextContents(contents);
+    };
+
+    loadText().catch((error) => {
+      if (!isCancelled(error)) console.error('Error reading PDF text:', error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, getTextContent]);
+
+  // Page slot offsets at the current zoom
+  const layout = useMemo(() => {
+    const tops: number[] = [];
+    let y = PAGE_PADDING;
+    for (const viewport of baseViewports) {
+      tops.push(y);
+      y += viewport.height * scale + PAGE_GAP;
+    }
+    return { tops, heights: baseViewports.map(viewport => viewport.height * scale) };
+  }, [baseViewports, scale]);
+
+  const updateVisiblePages = useCallback(() => {
+    const container = scrollRef.current;
+    const { tops, heights } = layout;
+    if (!container || tops.length === 0) return;
+
+    const top = container.scrollTop;
+    const bottom = top + container.clientHeight;
+    let first = tops.findIndex((pageTop, index) => pageTop + heights[index] >= top);
+    if (first < 0) first = tops.length - 1;
+    let last = first;
+    while (last + 1 < tops.length && tops[last + 1] <= bottom) last++;
+
+    setVisibleRange(prev => (prev[0] === first && prev[1] === last ? prev : [first, last]));
+    scrollAnchor.current = { page: first, offset: (top - tops[first] + PAGE_GAP) / Math.max(heights[first], 1) };
+
+    // The current page is the one covering the upper third of the viewport
+    const focus = top + container.clientHeight / 3;
+    let current = first;
+    while (current + 1 <= last && tops[current + 1] <= focus) current++;
+    setCurrentPage(current + 1);
+  }, [layout]);
+
+  // Keep the same passage at the top of the viewport when the zoom changes
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const { tops, heights } = layout;
+    if (!container || tops.length === 0) return;
+    const { page, offset } = scrollAnchor.current;
+    container.scrollTop = tops[page] - PAGE_GAP + offset * heights[page];
+    updateVisiblePages();
+  }, [layout, updateVisiblePages]);
+
+  // Fit-to-width zoom follows the panel size
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !viewerFitWidth || baseViewports.length === 0) return;
+    const widest = Math.max(...baseViewports.map(viewport => viewport.width));
+
+    const fit = () => {
+      const available = container.clientWidth - PAGE_PADDING * 2;
+      if (available <= 0) return;
+      const fitted = available / widest;
+      if (Math.abs(fitted - useRegulationStore.getState().viewerZoom) > 0.005) {
+        setViewerZoom(fitted, true);
+      }
+    };
+
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [viewerFitWidth, baseViewports, setViewerZoom]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  const goToPage = useCallback((pageNumber: number, offset: number = 0, behavior: ScrollBehavior = 'auto') => {
+    const container = scrollRef.current;
+    const index = Math.min(Math.max(pageNumber, 1), layout.tops.length) - 1;
+    if (!container || index < 0) return;
+    container.scrollTo({ top: layout.tops[index] + offset - PAGE_GAP / 2, behavior });
+  }, [layout]);
+
+  const handlePageInput = () => {
+    const pageNumber = parseInt(pageInput, 10);
+    if (Number.isNaN(pageNumber)) {
+      setPageInput(String(currentPage));
+      return;
+    }
+    goToPage(pageNumber);
+  };
+
+  // Where each node's text and its references sit on the pages; scanned pages use the OCR word boxes
+  const located = useMemo(() => {
+    if (!textContents || !documentData?.hierarchy) return null;
+    const ocrByPage = new Map((ocrPages ?? []).map(page => [page.pageNumber, page]));
+    const pageTexts: PdfPageText[] = textContents.map((content, index) =>
+      ocrByPage.get(index + 1) ?? toPageText(index + 1, content.items, baseViewports[index])
+    );
+    const matcher = new PdfTextMatcher(pageTexts);
+    const positions = matcher.locateHierarchy(documentData.hierarchy, sourceText);
+    const references = matcher.locateReferences(documentData.hierarchy, positions);
+    console.log(`[DEBUG] PdfViewer - Located ${positions.size} nodes and ${references.length} references in the PDF text layer`);
+    return { positions, references };
+  }, [textContents, baseViewports, documentData, ocrPages, sourceText]);
+  const nodePositions = located?.positions ?? null;
+
+  // Reference links per page; wording that runs over a page break gets a link on both pages
+  const referenceLinksByPage = useMemo(() => {
+    const byPage = new Map<number, PlacedReferenceLink[]>();
+    located?.references.forEach((match, index) => {
+      const pages = new Set(match.rects.map(rect => rect.pageNumber));
+      pages.forEach(pageNumber => {
+        const links = byPage.get(pageNumber) ?? [];
+        links.push({
+          key: String(index),
+          reference: match.reference,
+          boxes: match.rects.filter(rect => rect.pageNumber === pageNumber).map(toBox),
+        });
+        byPage.set(pageNumber, links);
+      });
+    });
+    return byPage;
+  }, [located]);
+
+  // Nodes placed on one axis, page index plus fraction of the page, for the scroll spy and clicks
+  const sectionLocator = useMemo(() => {
+    if (!nodePositions || !documentData?.hierarchy) return null;
+    const extents = new Map<string, { start: number; end: number }>();
+    nodePositions.forEach((match, nodeId) => {
+      const starts = match.rects.map(rect => rect.pageNumber - 1 + rect.top);
+      const ends = match.rects.map(rect => rect.pageNumber - 1 + rect.top + rect.height);
+      extents.set(nodeId, { start: Math.min(...starts), end: Math.max(...ends) });
+    });
+    return new SectionLocator(documentData.hierarchy, extents);
+  }, [nodePositions, documentData]);
+
+  useEffect(() => () => window.clearTimeout(scrollSpyTimer.current), []);
+
+  // Scroll spy: the section at the reading line, a third of the way down the view
+  const handleScroll = () => {
+    updateVisiblePages();
+    window.clearTimeout(scrollSpyTimer.current);
+    scrollSpyTimer.current = window.setTimeout(() => {
+      const container = scrollRef.current;
+      const { tops, heights } = layout;
+      if (!container || !sectionLocator || tops.length === 0) return;
+      const focus = container.scrollTop + container.clientHeight / 3;
+      let index = 0;
+      while (index + 1 < tops.length && tops[index + 1] <= focus) index++;
+      const fraction = Math.min(Math.max((focus - tops[index]) / Math.max(heights[index], 1), 0), 1);
+      const sectionId = sectionLocator.sectionAt(index + fraction);
+      if (sectionId) setViewerSectionId(sectionId);
+    }, SCROLL_SPY_DELAY);
+  };
+
+  // Clicking on a page selects the enclosing node; selecting text does not
+  const handlePageClick = (event: MouseEvent<HTMLDivElement>, index: number) => {
+    if (!sectionLocator || window.getSelection()?.isCollapsed === false) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const sectionId = sectionLocator.sectionAt(index + (event.clientY - rect.top) / rect.height);
+    if (sectionId) setSelectedNodeId(sectionId);
+  };
+
+  // Highlight the latest selected node's passage and scroll it into view
+  useEffect(() => {
+    const nodeId = highlightedSections[highlightedSections.length - 1];
+    const match = nodeId ? nodePositions?.get(nodeId) : undefined;
+    setHighlight(match ? { nodeId, rects: match.rects } : null);
+
+    if (nodeId && !match && nodePositions) {
+      console.log(`[DEBUG] PdfViewer - No text layer position for ${nodeId}`);
+    }
+  }, [highlightedSections, nodePositions]);
+
+  // Scroll only when a new passage is highlighted, not on every zoom change
+  const scrolledHighlight = useRef<typeof highlight>(null);
+  useEffect(() => {
+    const first = highlight?.rects[0];
+    const container = scrollRef.current;
+    const pageHeight = first ? layout.heights[first.pageNumber - 1] : undefined;
+    if (!first || !container || !pageHeight || scrolledHighlight.current === highlight) return;
+    scrolledHighlight.current = highlight;
+    goToPage(first.pageNumber, first.top * pageHeight - container.clientHeight / 3, 'smooth');
+  }, [highlight, layout, goToPage]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const numPages = baseViewports.length;
+  const firstRendered = Math.max(0, visibleRange[0] - PAGE_BUFFER);
+  const lastRendered = Math.min(numPages - 1, visibleRange[1] + PAGE_BUFFER);
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Page navigation */}
+      <div className="flex items-center gap-2 border-b border-border px-3 py-1.5 text-sm">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowThumbnails(!showThumbnails)}
+          title={showThumbnails ? 'Hide thumbnails' : 'Show thumbnails'}
+        >
+          {showThumbnails ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1} title="Previous page">
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= numPages} title="Next page">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Input
+          value={pageInput}
+          onChange={(e) => setPageInput(e.target.value.replace(/\D/g, ''))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handlePageInput();
+          }}
+          onBlur={() => setPageInput(String(currentPage))}
+          className="h-7 w-14 text-center"
+          aria-label="Page number"
+        />
+        <span className="text-muted-foreground">/ {numPages}</span>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {showThumbnails && pdf && (
+          <div className="w-32 shrink-0">
+            <PdfThumbnailStrip
+              pdf={pdf}
+              pageSizes={baseViewports}
+              currentPage={currentPage}
+              flaggedPages={documentData?.metadata.ocr?.lowConfidencePages}
+              onSelectPage={(pageNumber) => goToPage(pageNumber)}
+            />
+          </div>
+        )}
+
+        <div ref={scrollRef} className="flex-1 overflow-auto bg-muted/20" onScroll={handleScroll}>
+          <div className="flex flex-col items-center gap-4 p-4 min-w-fit">
+            {pdf && baseViewports.map((viewport, index) => (
+              <div
+                key={index}
+                className="relative shrink-0 bg-white shadow-lg ring-1 ring-border rounded-sm overflow-hidden"
+                style={{
+                  width: viewport.width * scale,
+                  height: viewport.height * scale,
+                  ['--scale-factor' as string]: scale,
+                  ['--total-scale-factor' as string]: scale,
+                }}
+                data-section={`page-${index + 1}`}
+                data-page={index + 1}
+                onClick={(event) => handlePageClick(event, index)}
+              >
+                {index >= firstRendered && index <= lastRendered ? (
+                  <PdfPage
+                    pdf={pdf}
+                    pageNumber={index + 1}
+                    scale={scale}
+                    getTextContent={getTextContent}
+                    highlights={highlight?.rects.filter(rect => rect.pageNumber === index + 1) ?? []}
+                    referenceLinks={referenceLinksByPage.get(index + 1) ?? NO_LINKS}
+                  />
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
+                    {index + 1}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
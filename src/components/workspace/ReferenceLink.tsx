@@ -0,0 +1,128 @@
+import { CSSProperties, MouseEvent, memo } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { Portal as HoverCardPortal } from '@radix-ui/react-hover-card';
+import { Badge } from '@/components/ui/badge';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Reference, useRegulationStore } from '@/store/regulationStore';
+import { citedInstrument } from '@/services/viewer/ReferenceLinks';
+import { cn } from '@/lib/utils';
+
+// Longest target text shown in a preview
+const PREVIEW_LENGTH = 400;
+
+/** A reference's place in the viewer: one box per line it spans, positioned by the viewer */
+export interface PlacedReferenceLink {
+  key: string;
+  reference: Reference;
+  boxes: CSSProperties[];
+}
+
+const isUrl = (target: string) => /^https?:\/\//i.test(target);
+
+function ReferencePreview({ reference }: { reference: Reference }) {
+  const { findNodeById } = useRegulationStore();
+
+  if (reference.type === 'external') {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">External reference</p>
+        <p className="text-sm font-medium">{citedInstrument(reference)}</p>
+        {isUrl(reference.target) && <p className="text-xs text-muted-foreground break-all">{reference.target}</p>}
+      </div>
+    );
+  }
+
+  const target = findNodeById(reference.target);
+  if (!target) {
+    return <p className="text-sm text-muted-foreground">The target of this reference was not found in the document</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-xs">{target.type}</Badge>
+        <span className="text-sm font-semibold">{target.number}</span>
+      </div>
+      {target.title && <p className="text-sm font-medium">{target.title}</p>}
+      {target.text && (
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          {target.text.length > PREVIEW_LENGTH ? `${target.text.substring(0, PREVIEW_LENGTH)}...` : target.text}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ReferenceLink({ link }: { link: PlacedReferenceLink }) {
+  const { reference } = link;
+  const navigable = reference.type === 'internal' && reference.status !== 'dangling';
+  const url = reference.type === 'external' && isUrl(reference.target) ? reference.target : null;
+
+  const handleClick = (event: MouseEvent) => {
+    // Keep the click from selecting the node under the link
+    event.stopPropagation();
+    if (!navigable) return;
+    const { setSelectedNodeId, scrollToSection } = useRegulationStore.getState();
+    setSelectedNodeId(reference.target);
+    scrollToSection(reference.target);
+  };
+
+  const className = cn(
+    'absolute block rounded-[1px] border-b-2',
+    navigable
+      ? 'cursor-pointer border-primary/70 hover:bg-primary/15'
+      : reference.type === 'external'
+        ? 'border-dashed border-muted-foreground/60 hover:bg-muted/40'
+        : 'border-dotted border-destructive/70 hover:bg-destructive/10'
+  );
+
+  return (
+    <>
+      {link.boxes.map((box, index) => (
+        <HoverCard key={index} openDelay={250} closeDelay={100}>
+          <HoverCardTrigger asChild>
+            {url ? (
+              <a
+                href={url}
+                target="_blank"
+                rel="noreferrer"
+                className={className}
+                style={box}
+                aria-label={reference.text}
+                onClick={(event) => event.stopPropagation()}
+              />
+            ) : (
+              <button type="button" className={className} style={box} aria-label={reference.text} onClick={handleClick} />
+            )}
+          </HoverCardTrigger>
+          {/* Portalled: the links sit inside clipped PDF pages and the viewers' indexed text */}
+          <HoverCardPortal>
+            <HoverCardContent className="w-80">
+              <ReferencePreview reference={reference} />
+              {url && (
+                <p className="mt-2 flex items-center gap-1 text-xs text-primary">
+                  <ExternalLink className="h-3 w-3" /> Opens in a new tab
+                </p>
+              )}
+            </HoverCardContent>
+          </HoverCardPortal>
+        </HoverCard>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Transparent, hoverable links laid over reference wording in the rendered document; hovering
+ * previews the target and clicking an internal reference selects it. The layer renders no text, so
+ * the viewers' text indexes are unaffected.
+ */
+export const ReferenceLinkLayer = memo(function ReferenceLinkLayer({ links }: { links: PlacedReferenceLink[] }) {
+  return (
+    <>
+      {links.map(link => (
+        <ReferenceLink key={link.key} link={link} />
+      ))}
+    </>
+  );
+});
@@ -1,9 +1,39 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ChevronRight, ChevronDown, FileText, Hash, List, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useRegulationStore, HierarchyNode } from '@/store/regulationStore';
 import { cn } from '@/lib/utils';
+import type { ChunkStatus } from '@/services/streaming/EnhancedStreamingService';
+
+const chunkStateClasses: Record<ChunkStatus['state'], string> = {
+  queued: 'bg-muted-foreground/20',
+  running: 'bg-primary/60 animate-pulse',
+  retrying: 'bg-amber-500 animate-pulse',
+  done: 'bg-primary',
+  failed: 'bg-destructive',
+};
+
+function ChunkStatusStrip({ statuses }: { statuses: ChunkStatus[] }) {
+  const done = statuses.filter(status => status?.state === 'done').length;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex flex-wrap gap-0.5">
+        {statuses.map((status, index) => status && (
+          <div
+            key={index}
+            className={cn('h-2 w-2 rounded-sm', chunkStateClasses[status.state])}
+            title={`Chunk ${index + 1}: ${status.state}${status.attempt > 1 ? ` (attempt ${status.attempt})` : ''}${status.error ? ` - ${status.error}` : ''}`}
+          />
+        ))}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {done} of {statuses.length} chunks done
+      </p>
+    </div>
+  );
+}
 
 interface TreeNodeProps {
   node: HierarchyNode;
@@ -12,6 +42,7 @@ interface TreeNodeProps {
   onToggleExpand: (nodeId: string) => void;
   onSelectNode: (nodeId: string) => void;
   selectedNodeId: string | null;
+  inViewNodeId: string | null;
   searchQuery: string;
 }
 
@@ -22,11 +53,14 @@ function TreeNode({
   onToggleExpand, 
   onSelectNode, 
   selectedNodeId,
+  inViewNodeId,
   searchQuery 
 }: TreeNodeProps) {
   const isExpanded = expandedNodes.has(node.id);
   const isSelected = selectedNodeId === node.id;
+  const isInView = inViewNodeId === node.id;
   const hasChildren = (node.children || []).length > 0;
+  const danglingCount = (node.references || []).filter(ref => ref.status === 'dangling').length;
   
   // Highlight search matches
   const matchesSearch = searchQuery && (
@@ -65,11 +99,14 @@ function TreeNode({
         className={cn(
           "flex items-center gap-1 py-1 px-2 rounded-sm cursor-pointer hover:bg-muted/50 text-sm",
           isSelected && "bg-primary/10 text-primary",
+          isInView && !isSelected && "bg-muted shadow-[inset_2px_0_0_hsl(var(--primary))]",
           matchesSearch && "bg-yellow-50 border border-yellow-200",
           level > 0 && "ml-4"
         )}
         // keep padding left for nesting but avoid inline styles for linter
         style={{ paddingLeft: `${level * 12 + 8}px` }}
+        data-tree-node-id={node.id}
+        aria-current={isInView ? 'location' : undefined}
         onClick={() => onSelectNode(node.id)}
       >
         {hasChildren && (
@@ -118,6 +155,15 @@ function TreeNode({
               {(node.references || []).length}
             </span>
           )}
+
+          {danglingCount > 0 && (
+            <span
+              className="text-xs text-destructive bg-destructive/10 px-1 rounded"
+              title={`${danglingCount} reference target(s) not found in this document`}
+            >
+              !{danglingCount}
+            </span>
+          )}
         </div>
       </div>
 
@@ -132,6 +178,7 @@ function TreeNode({
               onToggleExpand={onToggleExpand}
               onSelectNode={onSelectNode}
               selectedNodeId={selectedNodeId}
+              inViewNodeId={inViewNodeId}
               searchQuery={searchQuery}
             />
           ))}
@@ -148,14 +195,44 @@ export function TreeNavigationPanel() {
     selectedNodeId, 
     setSelectedNodeId, 
     searchQuery,
-    scrollToSection 
+    scrollToSection,
+    viewerSectionId
   } = useRegulationStore();
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const treeRef = useRef<HTMLDivElement>(null);
 
   // Use streaming data if available, otherwise use final document data
   const hierarchyData = documentData?.hierarchy || streamingState.streamingNodes;
   const metadataTitle = documentData?.metadata?.title || streamingState.streamingMetadata?.title || 'Processing...';
 
+  const parentIds = useMemo(() => {
+    const parents = new Map<string, string>();
+    const visit = (node: HierarchyNode) => node.children?.forEach(child => {
+      parents.set(child.id, node.id);
+      visit(child);
+    });
+    hierarchyData?.forEach(visit);
+    return parents;
+  }, [hierarchyData]);
+
+  // Expand to a node and bring its row into sight
+  const revealNode = useCallback((nodeId: string) => {
+    const ancestors: string[] = [];
+    for (let id = parentIds.get(nodeId); id; id = parentIds.get(id)) ancestors.push(id);
+    setExpandedNodes(expanded => ancestors.every(id => expanded.has(id)) ? expanded : new Set([...expanded, ...ancestors]));
+
+    const frame = requestAnimationFrame(() => {
+      treeRef.current
+        ?.querySelector(`[data-tree-node-id="${CSS.escape(nodeId)}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [parentIds]);
+
+  // Follow the section in view in the document, and nodes selected from the document or graph
+  useEffect(() => (viewerSectionId ? revealNode(viewerSectionId) : undefined), [viewerSectionId, revealNode]);
+  useEffect(() => (selectedNodeId ? revealNode(selectedNodeId) : undefined), [selectedNodeId, revealNode]);
+
   if (!hierarchyData || hierarchyData.length === 0) {
     return (
       <div className="h-full flex items-center justify-center text-muted-foreground border-r bg-muted/20">
@@ -229,10 +306,13 @@ export function TreeNavigationPanel() {
             <span>Analyzing document structure...</span>
           </div>
         )}
+        {streamingState.isStreaming && streamingState.chunkStatuses.length > 1 && (
+          <ChunkStatusStrip statuses={streamingState.chunkStatuses} />
+        )}
       </div>
 
       <ScrollArea className="flex-1">
-        <div className="p-2">
+        <div className="p-2" ref={treeRef}>
           {hierarchyData.map((node) => (
             <TreeNode
               key={node.id}
@@ -242,6 +322,7 @@ export function TreeNavigationPanel() {
               onToggleExpand={handleToggleExpand}
               onSelectNode={handleSelectNode}
               selectedNodeId={selectedNodeId}
+              inViewNodeId={viewerSectionId}
               searchQuery={searchQuery}
             />
           ))}
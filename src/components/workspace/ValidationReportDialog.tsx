@@ -0,0 +1,87 @@
+import { AlertTriangle, Wrench } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ValidationIssue, ValidationReport } from '@/services/validation/documentSchema';
+
+interface ValidationReportDialogProps {
+  report: ValidationReport;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function IssueList({ issues, emptyLabel }: { issues: ValidationIssue[]; emptyLabel: string }) {
+  if (issues.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">{emptyLabel}</p>;
+  }
+
+  return (
+    <ScrollArea className="h-[420px] pr-3">
+      <div className="space-y-3">
+        {issues.map((issue, index) => (
+          <div key={`${issue.path}-${index}`} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              {issue.nodeId && (
+                <Badge variant="outline" className="text-xs font-mono">
+                  {issue.nodeId}
+                </Badge>
+              )}
+              {issue.chunkIndex !== undefined && (
+                <Badge variant="secondary" className="text-xs">
+                  Chunk {issue.chunkIndex + 1}
+                </Badge>
+              )}
+              <span className="text-xs text-muted-foreground font-mono truncate">{issue.path}</span>
+            </div>
+            <p className="text-sm">{issue.message}</p>
+            <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-48 whitespace-pre-wrap break-all">
+              {issue.rawJson}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
+
+export function ValidationReportDialog({ report, open, onOpenChange }: ValidationReportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Validation Report</DialogTitle>
+          <DialogDescription>
+            {report.checkedNodes} nodes checked against the document schema on{' '}
+            {new Date(report.createdAt).toLocaleString()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={report.rejected.length > 0 ? 'rejected' : 'coerced'}>
+          <TabsList>
+            <TabsTrigger value="rejected" className="gap-2">
+              <AlertTriangle className="h-3 w-3" />
+              Rejected ({report.rejected.length})
+            </TabsTrigger>
+            <TabsTrigger value="coerced" className="gap-2">
+              <Wrench className="h-3 w-3" />
+              Coerced ({report.coerced.length})
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="rejected">
+            <IssueList issues={report.rejected} emptyLabel="No fragments were rejected." />
+          </TabsContent>
+          <TabsContent value="coerced">
+            <IssueList issues={report.coerced} emptyLabel="No fixes were needed." />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
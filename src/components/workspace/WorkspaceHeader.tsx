@@ -13,14 +13,21 @@ import {
   PanelLeftOpen,
   PanelLeftClose,
   PanelRightOpen,
-  PanelRightClose
+  PanelRightClose,
+  ShieldAlert,
+  ShieldCheck,
+  Square,
+  Play
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { useRegulationStore } from '@/store/regulationStore';
+import { stepViewerZoom, useRegulationStore, VIEWER_ZOOM_LEVELS } from '@/store/regulationStore';
 import { useToast } from '@/hooks/use-toast';
+import { ValidationReportDialog } from './ValidationReportDialog';
+import { ExportDialog } from './ExportDialog';
+import { cancelDocumentProcessing, discardDocumentProcessing, resumeDocumentProcessing } from '@/services/documentService';
 
 export function WorkspaceHeader() {
   const { 
@@ -34,12 +41,27 @@ export function WorkspaceHeader() {
     rightPanelCollapsed,
     setRightPanelCollapsed,
     setDocumentData,
-    saveDocument,
-    getAllNodes
+    saveToLibrary,
+    activeLibraryId,
+    getAllNodes,
+    validationReport,
+    streamingState,
+    resumableAnalysis,
+    setResumableAnalysis,
+    setRawDocumentContent,
+    clearStreamingData,
+    rawDocumentContent,
+    viewerZoom,
+    viewerFitWidth,
+    setViewerZoom
   } = useRegulationStore();
   
   const [showFilters, setShowFilters] = useState(false);
+  const [showValidationReport, setShowValidationReport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const { toast } = useToast();
+  // Zoom applies to the rendered PDF pages
+  const canZoom = rawDocumentContent?.fileType === 'pdf';
 
   const availableFilters = [
     { id: 'sections', label: 'Sections', count: 0 },
@@ -47,18 +69,40 @@ export function WorkspaceHeader() {
     { id: 'definitions', label: 'Definitions', count: 0 },
   ];
 
-  const handleSave = () => {
-    if (documentData) {
-      saveDocument(documentData.metadata.title, documentData);
+  const handleSave = async () => {
+    if (!documentData) return;
+    const wasSaved = Boolean(activeLibraryId);
+    try {
+      const entry = await saveToLibrary();
       toast({
-        title: "Document Saved",
-        description: "Document has been saved to local storage",
+        title: wasSaved ? "Library Updated" : "Document Saved",
+        description: `"${entry.title}" is in your document library`,
+      });
+    } catch (error) {
+      console.error('Error saving document:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : 'Could not save to the document library',
+        variant: "destructive",
       });
     }
   };
 
   const handleNewDocument = () => {
+    // Discard any running analysis so it cannot overwrite the store after leaving
+    discardDocumentProcessing();
+    setResumableAnalysis(null);
+    clearStreamingData();
     setDocumentData(null);
+    setRawDocumentContent(null, 'text');
+  };
+
+  const handleStopAnalysis = () => {
+    cancelDocumentProcessing();
+    toast({
+      title: "Analysis Stopped",
+      description: "Completed chunks are kept and can be resumed",
+    });
   };
 
   const toggleFilter = (filterId: string) => {
@@ -139,6 +183,25 @@ export function WorkspaceHeader() {
 
         {/* Right section - Tools */}
         <div className="flex items-center gap-2">
+          {streamingState.isStreaming && (
+            <Button variant="destructive" size="sm" onClick={handleStopAnalysis} className="h-8">
+              <Square className="h-3 w-3 mr-1 fill-current" />
+              Stop
+            </Button>
+          )}
+
+          {!streamingState.isStreaming && resumableAnalysis && (
+            <Button variant="outline" size="sm" onClick={() => resumeDocumentProcessing()} className="h-8">
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+              {resumableAnalysis.totalChunks > 1 && (
+                <span className="ml-1 text-muted-foreground">
+                  ({resumableAnalysis.completedChunks}/{resumableAnalysis.totalChunks})
+                </span>
+              )}
+            </Button>
+          )}
+
           <div className="flex items-center gap-1">
             <Button
               variant={showFilters ? "default" : "ghost"}
@@ -157,25 +220,76 @@ export function WorkspaceHeader() {
 
           <Separator orientation="vertical" className="h-6" />
 
-          <Button variant="ghost" size="sm">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setViewerZoom(stepViewerZoom(viewerZoom, -1))}
+            disabled={!canZoom || viewerZoom <= VIEWER_ZOOM_LEVELS[0]}
+            title="Zoom out"
+          >
             <ZoomOut className="h-4 w-4" />
           </Button>
+
+          {canZoom && (
+            <span className="text-xs text-muted-foreground tabular-nums w-10 text-center">
+              {Math.round(viewerZoom * 100)}%
+            </span>
+          )}
           
-          <Button variant="ghost" size="sm">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setViewerZoom(stepViewerZoom(viewerZoom, 1))}
+            disabled={!canZoom || viewerZoom >= VIEWER_ZOOM_LEVELS[VIEWER_ZOOM_LEVELS.length - 1]}
+            title="Zoom in"
+          >
             <ZoomIn className="h-4 w-4" />
           </Button>
           
-          <Button variant="ghost" size="sm">
+          <Button
+            variant={viewerFitWidth && canZoom ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setViewerZoom(viewerZoom, true)}
+            disabled={!canZoom}
+            title="Fit to width"
+          >
             <Maximize className="h-4 w-4" />
           </Button>
 
+          {validationReport && (
+            <>
+              <Separator orientation="vertical" className="h-6" />
+
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowValidationReport(true)}
+                  title="Validation report"
+                >
+                  {validationReport.rejected.length > 0 ? (
+                    <ShieldAlert className="h-4 w-4 text-destructive" />
+                  ) : (
+                    <ShieldCheck className="h-4 w-4" />
+                  )}
+                </Button>
+
+                {validationReport.rejected.length > 0 && (
+                  <Badge variant="destructive" className="text-xs">
+                    {validationReport.rejected.length}
+                  </Badge>
+                )}
+              </div>
+            </>
+          )}
+
           <Separator orientation="vertical" className="h-6" />
 
-          <Button variant="ghost" size="sm" onClick={handleSave}>
+          <Button variant="ghost" size="sm" onClick={handleSave} disabled={!documentData} title="Save to library">
             <Save className="h-4 w-4" />
           </Button>
           
-          <Button variant="ghost" size="sm">
+          <Button variant="ghost" size="sm" onClick={() => setShowExport(true)} disabled={!documentData} title="Export">
             <Download className="h-4 w-4" />
           </Button>
         </div>
@@ -217,6 +331,22 @@ export function WorkspaceHeader() {
           </div>
         </div>
       )}
+
+      {validationReport && (
+        <ValidationReportDialog
+          report={validationReport}
+          open={showValidationReport}
+          onOpenChange={setShowValidationReport}
+        />
+      )}
+
+      {documentData && (
+        <ExportDialog
+          data={documentData}
+          open={showExport}
+          onOpenChange={setShowExport}
+        />
+      )}
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { HierarchyNode } from '@/store/regulationStore';
+import { XmlDocumentImporter } from '@/services/parsing/XmlDocumentImporter';
+import { cn } from '@/lib/utils';
+
+interface XmlDocumentViewProps {
+  xml: string;
+}
+
+const importer = new XmlDocumentImporter();
+
+function XmlProvision({ node, depth }: { node: HierarchyNode; depth: number }) {
+  const isHeading = Boolean(node.title) || depth === 0;
+
+  return (
+    <div
+      data-section={node.id}
+      data-node-id={node.id}
+      className={cn('transition-colors', depth > 0 && 'ml-5', isHeading ? 'mt-4' : 'mt-1')}
+    >
+      {isHeading ? (
+        <h3 className={cn('font-semibold', depth === 0 ? 'text-base uppercase tracking-wide' : 'text-sm')}>
+          {[node.number, node.title].filter(Boolean).join(' ')}
+        </h3>
+      ) : null}
+      {(node.text || (!isHeading && node.number)) && (
+        <p className="text-sm leading-relaxed whitespace-pre-wrap">
+          {!isHeading && node.number && <span className="font-medium mr-2">{node.number}</span>}
+          {node.text}
+        </p>
+      )}
+      {node.children.map((child) => (
+        <XmlProvision key={child.id} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Akoma Ntoso / USLM markup rendered as formatted legislative text
+ */
+export function XmlDocumentView({ xml }: XmlDocumentViewProps) {
+  const imported = useMemo(() => {
+    try {
+      return { data: importer.import(xml, ''), error: null };
+    } catch (error) {
+      return { data: null, error: error instanceof Error ? error.message : 'Could not read XML' };
+    }
+  }, [xml]);
+
+  if (!imported.data) {
+    return (
+      <div className="p-6 space-y-2">
+        <p className="text-sm text-destructive">{imported.error}</p>
+        <pre className="font-mono text-xs whitespace-pre-wrap">{xml}</pre>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <h2 className="text-lg font-bold mb-2">{imported.data.metadata.title}</h2>
+      {imported.data.hierarchy.map((node) => (
+        <XmlProvision key={node.id} node={node} depth={0} />
+      ))}
+    </div>
+  );
+}
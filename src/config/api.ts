@@ -2,5 +2,43 @@
 export const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
 export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-lite:generateContent';
 
+// OpenAI-compatible endpoints (OpenAI, Azure-style gateways, vLLM, llama.cpp server, ...)
+export const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
+export const OPENAI_BASE_URL = import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1';
+
+// Local Ollama server (no API key, nothing leaves the machine)
+export const OLLAMA_BASE_URL = import.meta.env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434';
+
+// Provider selection per task: 'gemini' | 'openai' | 'ollama'
+export const LLM_TASK_CONFIG = {
+  extraction: {
+    provider: import.meta.env.VITE_EXTRACTION_PROVIDER || 'gemini',
+    model: import.meta.env.VITE_EXTRACTION_MODEL || '',
+  },
+  chat: {
+    provider: import.meta.env.VITE_CHAT_PROVIDER || 'gemini',
+    model: import.meta.env.VITE_CHAT_MODEL || '',
+  },
+};
+
+const envNumber = (value: string | undefined, fallback: number) =>
+  value === undefined || value.trim() === '' || Number.isNaN(Number(value)) ? fallback : Number(value);
+
+// Chunked extraction: parallel chunk requests and per-chunk retry policy
+export const EXTRACTION_CONCURRENCY = envNumber(import.meta.env.VITE_EXTRACTION_CONCURRENCY, 3);
+export const EXTRACTION_MAX_RETRIES = envNumber(import.meta.env.VITE_EXTRACTION_MAX_RETRIES, 4);
+export const EXTRACTION_RETRY_BASE_MS = envNumber(import.meta.env.VITE_EXTRACTION_RETRY_BASE_MS, 1000);
+
+// URL ingestion proxy for sites without CORS headers: a URL template with a {url} placeholder, or a prefix
+// the encoded page URL is appended to. Development builds default to the dev server's own proxy
+// (vite.config.ts); set VITE_URL_PROXY= (empty) to fetch pages directly.
+export const URL_FETCH_PROXY: string = import.meta.env.VITE_URL_PROXY ?? (import.meta.env.DEV ? '/api/fetch-url?url=' : '');
+
+// OCR for scanned PDFs: Tesseract language(s), e.g. 'eng' or 'eng+fra', and where their traineddata files
+// are served from. Unset, the app's own /tessdata is used (installed @tesseract.js-data packages, see
+// vite.config.ts), so OCR runs offline; point it at another path or URL to load other language data.
+export const OCR_LANGUAGE = import.meta.env.VITE_OCR_LANG || 'eng';
+export const OCR_LANG_PATH = import.meta.env.VITE_OCR_LANG_PATH || `${import.meta.env.BASE_URL}tessdata`;
+
 // Note: API key is now loaded from environment variables (.env.local file)
-// Make sure to add .env.local to .gitignore to keep your API key secure
\ No newline at end of file
+// Make sure to add .env.local to .gitignore to keep your API key secure
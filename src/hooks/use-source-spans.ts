@@ -0,0 +1,177 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef } from 'react';
+import { DocumentData, HierarchyNode, Reference } from '@/store/regulationStore';
+import { FuzzyRange, FuzzyTextIndex, SourceTextIndex, normalizeForMatching } from '@/services/parsing/FuzzyTextIndex';
+import { SectionLocator } from '@/services/viewer/SectionLocator';
+import { findReferenceOccurrences } from '@/services/viewer/ReferenceLinks';
+
+// Name of the CSS custom highlight styled in index.css
+const HIGHLIGHT_NAME = 'source-span';
+// How far before a span's expected position to start looking; the viewer text keeps page numbers the
+// analysis text dropped, so rendered positions only ever run ahead of source positions
+const SEARCH_SLACK = 200;
+
+interface TextPosition {
+  node: Text;
+  offset: number;
+}
+
+interface RenderedText {
+  index: FuzzyTextIndex<TextPosition>;
+  // Normalised index of each text node's first indexed character
+  nodeStarts: Map<Text, number>;
+  // Every node's extent in the rendered text, located on first use
+  extents: Map<string, FuzzyRange> | null;
+  locator: SectionLocator | null;
+}
+
+export interface RenderedReference {
+  key: string;
+  reference: Reference;
+  range: Range;
+}
+
+const findNode = (nodes: HierarchyNode[], id: string): HierarchyNode | null => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNode(node.children ?? [], id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const indexRenderedText = (root: HTMLElement): RenderedText => {
+  const index = new FuzzyTextIndex<TextPosition>();
+  const nodeStarts = new Map<Text, number>();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    nodeStarts.set(node, index.length);
+    index.add(node.data, offset => ({ node, offset }));
+  }
+  return { index, nodeStarts, extents: null, locator: null };
+};
+
+const toDomRange = (index: FuzzyTextIndex<TextPosition>, range: FuzzyRange): Range => {
+  const start = index.origins[range.start];
+  const end = index.origins[range.end - 1];
+  const domRange = document.createRange();
+  domRange.setStart(start.node, start.offset);
+  domRange.setEnd(end.node, Math.min(end.offset + 1, end.node.length));
+  return domRange;
+};
+
+const caretAt = (x: number, y: number): { node: Node; offset: number } | null => {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    return position ? { node: position.offsetNode, offset: position.offset } : null;
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+};
+
+/**
+ * Source spans in rendered document text (text, HTML and XML views).
+ * - highlightSpan(nodeId): marks the node's exact span with the CSS Custom Highlight API and scrolls
+ *   to it; returns whether it was found. The node's source span gives the passage and roughly where
+ *   it sits, and the rendered text is searched whitespace-insensitively from there.
+ * - sectionAtPoint(x, y): id of the node whose text is under a viewport point (scroll spy, clicks)
+ * - referenceRanges(): DOM ranges of every reference's wording, for inline links
+ */
+export function useSourceSpans(
+  containerRef: RefObject<HTMLElement>,
+  documentData: DocumentData | null,
+  sourceText: string | undefined,
+  content: unknown
+) {
+  const rendered = useRef<RenderedText | null>(null);
+  const sourceIndex = useMemo(() => (sourceText ? new SourceTextIndex(sourceText) : null), [sourceText]);
+
+  // Rendered text changes with the content, and node extents with the hierarchy; index again when needed
+  useEffect(() => {
+    rendered.current = null;
+  }, [content, documentData]);
+
+  useEffect(() => () => {
+    if (typeof CSS !== 'undefined' && CSS.highlights) CSS.highlights.delete(HIGHLIGHT_NAME);
+  }, []);
+
+  const getRendered = useCallback((): RenderedText | null => {
+    const root = containerRef.current;
+    if (!root) return null;
+    // React may have replaced text nodes since they were indexed
+    const stale = rendered.current && [...rendered.current.nodeStarts.keys()].some(node => !node.isConnected);
+    if (!rendered.current || stale) rendered.current = indexRenderedText(root);
+    return rendered.current;
+  }, [containerRef]);
+
+  // Passage to look for and the rendered index to start from
+  const searchFor = useCallback((node: HierarchyNode, cursor: number) => {
+    if (node.source && sourceText && sourceIndex) {
+      return {
+        passage: sourceText.slice(node.source.start, node.source.end),
+        from: Math.max(0, sourceIndex.indexAt(node.source.start) - SEARCH_SLACK),
+      };
+    }
+    return { passage: node.text?.trim() || [node.number, node.title].filter(Boolean).join(' '), from: cursor };
+  }, [sourceText, sourceIndex]);
+
+  const highlightSpan = useCallback((nodeId: string): boolean => {
+    const node = documentData ? findNode(documentData.hierarchy, nodeId) : null;
+    const text = getRendered();
+    if (!node || !text) return false;
+
+    const { passage, from } = searchFor(node, 0);
+    const range = text.index.find(passage, from);
+    if (!range) return false;
+
+    const domRange = toDomRange(text.index, range);
+    if (typeof CSS !== 'undefined' && CSS.highlights && typeof Highlight !== 'undefined') {
+      CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(domRange));
+    }
+    text.index.origins[range.start].node.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    return true;
+  }, [documentData, getRendered, searchFor]);
+
+  // Locate every node once, in document order
+  const getExtents = useCallback((text: RenderedText): Map<string, FuzzyRange> => {
+    if (!text.extents) {
+      const extents = new Map<string, FuzzyRange>();
+      let cursor = 0;
+      const visit = (node: HierarchyNode) => {
+        const { passage, from } = searchFor(node, cursor);
+        const range = text.index.find(passage, from);
+        if (range) {
+          extents.set(node.id, range);
+          cursor = range.start;
+        }
+        node.children?.forEach(visit);
+      };
+      documentData?.hierarchy.forEach(visit);
+      text.extents = extents;
+    }
+    return text.extents;
+  }, [documentData, searchFor]);
+
+  const sectionAtPoint = useCallback((x: number, y: number): string | null => {
+    const text = getRendered();
+    const caret = caretAt(x, y);
+    if (!documentData || !text || !caret || !(caret.node instanceof Text)) return null;
+    const nodeStart = text.nodeStarts.get(caret.node);
+    if (nodeStart === undefined) return null;
+
+    text.locator ??= new SectionLocator(documentData.hierarchy, getExtents(text));
+    const position = nodeStart + normalizeForMatching(caret.node.data.slice(0, caret.offset)).length;
+    return text.locator.sectionAt(position);
+  }, [documentData, getRendered, getExtents]);
+
+  const referenceRanges = useCallback((): RenderedReference[] => {
+    const text = getRendered();
+    if (!documentData || !text) return [];
+    return findReferenceOccurrences(text.index, documentData.hierarchy, getExtents(text)).map(occurrence => ({
+      key: `${occurrence.range.start}-${occurrence.range.end}`,
+      reference: occurrence.reference,
+      range: toDomRange(text.index, occurrence.range),
+    }));
+  }, [documentData, getRendered, getExtents]);
+
+  return { highlightSpan, sectionAtPoint, referenceRanges };
+}
@@ -1,27 +1,93 @@
 
-import { EnhancedStreamingService, StreamingCallbacks } from './streaming/EnhancedStreamingService';
-import { DocumentData, HierarchyNode } from '@/store/regulationStore';
+import { EnhancedStreamingService, StreamingCallbacks, StreamingOptions, ChunkStatus } from './streaming/EnhancedStreamingService';
+import { AnalysisMode, DocumentData, HierarchyNode, OcrMetadata, OutputProtocol, hierarchyToText } from '@/store/regulationStore';
+import { extractPdf, PdfExtractionOptions } from './extractors/pdfExtractor';
+import type { OcrPageResult, OcrProgress } from './extractors/ocrTypes';
+import { extractDocx, isDocxFile } from './extractors/docxExtractor';
+import { extractEpub, isEpubFile } from './extractors/epubExtractor';
+import { fetchUrlDocument } from './extractors/urlExtractor';
+import type { StructureHint } from './extractors/structuredText';
+import { RuleBasedParser } from './parsing/RuleBasedParser';
+import { ReferenceResolver } from './parsing/ReferenceResolver';
+import { XmlDocumentImporter } from './parsing/XmlDocumentImporter';
+import { SourceAligner } from './parsing/SourceAligner';
+import { buildOutlineHint, promptVersionFor } from './prompts/systemPrompt';
+import { AUTO_PROMPT_TEMPLATE, resolvePromptTemplate, toTemplateRef } from './prompts/promptRegistry';
+import { DocumentClassifier, DocumentClassification, DOCUMENT_KIND_LABELS, chunkingStyleFor } from './parsing/DocumentClassifier';
+import { ValidationReport, createValidationReport, validateDocumentData } from './validation/documentSchema';
+import { DocumentChunker, ChunkingPlan } from './streaming/DocumentChunker';
+import { isAbortError } from './llm/retry';
+import { getModelKey, resolveOutputMode, resolveProvider } from './llm';
+import { AnalysisCache } from './storage/AnalysisCache';
 
 interface ProcessingState {
   stage: 'idle' | 'uploading' | 'cleaning' | 'parsing' | 'building' | 'complete' | 'error';
   progress: number;
   message: string;
   currentSection?: string;
+  // Per-page status while scanned PDF pages are being recognised
+  ocr?: OcrProgress;
 }
 
 /**
  * Clean document processor that handles file/URL input and delegates
  * AI processing to the streaming service
  */
+interface ExtractedContent {
+  rawText: string;
+  fileName: string;
+  /** Heading and list-level structure marked up by the source format (DOCX, EPUB) */
+  hints?: StructureHint[];
+  /** Scanned PDF pages read with OCR */
+  ocrPages?: OcrPageResult[];
+  /** Text of each PDF page, so source spans can carry page numbers */
+  pageTexts?: string[];
+}
+
+/**
+ * How the model is asked for the structure (AI and hybrid modes)
+ */
+export interface ExtractionSettings {
+  protocol?: OutputProtocol;
+  /** Use the provider's response schema when it has one (default true) */
+  responseSchema?: boolean;
+  /** Prompt template id, or 'auto' (default) to pick one for the document's classification */
+  promptTemplateId?: string;
+  /** Type and jurisdiction confirmed on the upload screen; detected from the cleaned text when absent */
+  classification?: DocumentClassification;
+}
+
+/**
+ * Cleaned text of an input and what the classifier makes of it, for confirmation before analysis
+ */
+export interface DocumentPreview {
+  text: string;
+  /** null when there is no text before OCR (scanned PDFs); the type is then detected from the OCR text */
+  classification: DocumentClassification | null;
+}
+
 export class DocumentProcessor {
-  private streamingService: EnhancedStreamingService;
+  private streamingService: EnhancedStreamingService | null = null;
+  private ruleBasedParser = new RuleBasedParser();
+  private referenceResolver = new ReferenceResolver();
+  private xmlImporter = new XmlDocumentImporter();
+  private chunker = new DocumentChunker();
+  private classifier = new DocumentClassifier();
+  private analysisCache = new AnalysisCache();
 
-  constructor() {
-    this.streamingService = new EnhancedStreamingService();
+  /**
+   * Created lazily so rule-based runs work without any LLM configured
+   */
+  private getStreamingService(): EnhancedStreamingService {
+    if (!this.streamingService) {
+      this.streamingService = new EnhancedStreamingService();
+    }
+    return this.streamingService;
   }
 
   /**
-   * Process a document with streaming AI analysis
+   * Process a document with streaming AI analysis and/or the rule-based parser.
+   * Aborting the signal stops the run and reports an AbortError through onError.
    */
   async processDocument(
     input: File | string,
@@ -30,7 +96,15 @@ export class DocumentProcessor {
       onStreamingChunk: (chunk: any) => void;
       onComplete: (data: DocumentData) => void;
       onError: (error: Error) => void;
-    }
+      onDraft?: (data: DocumentData) => void;
+      onValidationReport?: (report: ValidationReport) => void;
+      onChunkStatus?: (status: ChunkStatus) => void;
+      onOcrPages?: (pages: OcrPageResult[]) => void;
+      onSourceText?: (text: string) => void;
+    },
+    mode: AnalysisMode = 'ai',
+    signal?: AbortSignal,
+    extraction: ExtractionSettings = {}
   ): Promise<void> {
     try {
       // Stage 1: Extract text content
@@ -40,7 +114,51 @@ export class DocumentProcessor {
         message: 'Reading document content...'
       });
 
-      const { rawText, fileName } = await this.extractTextContent(input);
+      const { rawText, fileName, hints, ocrPages, pageTexts } = await this.extractTextContent(input, {
+        ocr: true,
+        signal,
+        onOcrProgress: (ocr: OcrProgress) => {
+          const finished = ocr.pages.filter(page => page.state === 'done' || page.state === 'failed').length;
+          callbacks.onProgress({
+            stage: 'uploading',
+            progress: 10 + (finished / ocr.pages.length) * 10,
+            message: `Recognising scanned pages with OCR (${finished} of ${ocr.pages.length})...`,
+            ocr
+          });
+        }
+      });
+      signal?.throwIfAborted();
+
+      // Scanned pages: keep the word boxes for the viewer and flag pages worth checking by hand
+      const ocrMetadata = ocrPages?.length ? this.summarizeOcr(ocrPages) : null;
+      if (ocrMetadata) {
+        callbacks.onOcrPages?.(ocrPages);
+      }
+      const withOcrMetadata = (data: DocumentData): DocumentData =>
+        ocrMetadata ? { ...data, metadata: { ...data.metadata, ocr: ocrMetadata } } : data;
+
+      // Akoma Ntoso / USLM markup already carries the structure: import it without a model call
+      const xmlDialect = this.xmlImporter.detectDialect(rawText);
+      if (xmlDialect) {
+        callbacks.onProgress({
+          stage: 'parsing',
+          progress: 50,
+          message: `Importing ${xmlDialect === 'akn' ? 'Akoma Ntoso' : 'USLM'} XML structure...`
+        });
+
+        const imported = this.resolveReferences(this.xmlImporter.import(rawText, fileName));
+        // The viewer shows the imported provisions, so spans index into their text rather than the markup
+        const provisionText = this.cleanDocumentText(hierarchyToText(imported.hierarchy));
+        callbacks.onSourceText?.(provisionText);
+        const anchored = this.anchorToSource(imported, new SourceAligner(provisionText));
+        callbacks.onProgress({
+          stage: 'complete',
+          progress: 100,
+          message: 'Structure imported from XML'
+        });
+        callbacks.onComplete(anchored);
+        return;
+      }
 
       // Stage 2: Clean text
       callbacks.onProgress({
@@ -49,7 +167,77 @@ export class DocumentProcessor {
         message: 'Cleaning and preprocessing text...'
       });
 
-      const cleanedText = this.cleanDocumentText(rawText);
+      const { text: cleanedText, pageStarts } = this.cleanSourceText(rawText, pageTexts);
+      if (!cleanedText) {
+        throw new Error(ocrPages?.length
+          ? 'OCR found no readable text in this document'
+          : 'No text could be extracted from this document (it has no text layer and no scanned pages were recognised)');
+      }
+
+      // Every result is anchored to this text, so the viewer can find each node's exact span
+      callbacks.onSourceText?.(cleanedText);
+      const aligner = new SourceAligner(cleanedText, pageStarts);
+
+      // The document type and jurisdiction pick the prompt template and the headings chunks are cut at
+      const classification = extraction.classification ?? this.classifier.classify(cleanedText);
+      const withClassification = (data: DocumentData): DocumentData => ({
+        ...data,
+        metadata: this.applyClassification(data.metadata, classification),
+      });
+
+      const { protocol = 'nested', responseSchema = true } = extraction;
+      const template = resolvePromptTemplate(extraction.promptTemplateId ?? AUTO_PROMPT_TEMPLATE, classification);
+      const extractionOptions: StreamingOptions = { protocol, responseSchema, template, chunkingStyle: chunkingStyleFor(classification) };
+      if (mode !== 'rules') {
+        console.log('[DEBUG] DocumentProcessor - Prompt template:', template.id, 'v' + template.version, 'chunking:', extractionOptions.chunkingStyle);
+      }
+
+      // Identical input analysed before with the same prompt and model: return the stored result
+      const cacheKey = mode === 'rules' ? null : await this.createCacheKey(cleanedText, mode, extractionOptions);
+      if (cacheKey) {
+        const cached = await this.analysisCache.getAnalysis(cacheKey);
+        if (cached && !signal?.aborted) {
+          console.log('[DEBUG] DocumentProcessor - Using cached analysis', cacheKey);
+          if (cached.validation) callbacks.onValidationReport?.(cached.validation);
+          callbacks.onProgress({
+            stage: 'complete',
+            progress: 100,
+            message: 'Loaded analysis from cache'
+          });
+          callbacks.onComplete(withClassification(withOcrMetadata(this.anchorToSource({
+            ...cached.data,
+            metadata: { ...cached.data.metadata, source: fileName },
+          }, aligner))));
+          return;
+        }
+      }
+
+      // Rule-based pass: final result in 'rules' mode, draft in 'hybrid' mode
+      let draft: DocumentData | null = null;
+      if (mode !== 'ai') {
+        callbacks.onProgress({
+          stage: 'parsing',
+          progress: 25,
+          message: 'Detecting structure from numbering...'
+        });
+
+        draft = withClassification(withOcrMetadata(this.anchorToSource(
+          this.resolveReferences(this.ruleBasedParser.parse(cleanedText, fileName, hints)),
+          aligner
+        )));
+
+        if (mode === 'rules') {
+          callbacks.onProgress({
+            stage: 'complete',
+            progress: 100,
+            message: 'Analysis complete!'
+          });
+          callbacks.onComplete(draft);
+          return;
+        }
+
+        callbacks.onDraft?.(draft);
+      }
 
       // Stage 3: Stream AI analysis
       callbacks.onProgress({
@@ -58,8 +246,25 @@ export class DocumentProcessor {
         message: 'Starting AI analysis with streaming...'
       });
 
+      const handleAnalysisError = (error: Error) => {
+        if (!draft || isAbortError(error)) {
+          callbacks.onError(error);
+          return;
+        }
+
+        // Keep the rule-based draft when the refinement pass fails
+        console.warn('AI refinement failed, keeping rule-based structure:', error);
+        callbacks.onProgress({
+          stage: 'complete',
+          progress: 100,
+          message: 'AI refinement failed; showing rule-based structure'
+        });
+        callbacks.onComplete(draft);
+      };
+
       const streamingCallbacks: StreamingCallbacks = {
         onChunk: callbacks.onStreamingChunk,
+        onChunkStatus: callbacks.onChunkStatus,
         onProgress: (progress, message) => {
           callbacks.onProgress({
             stage: 'parsing',
@@ -68,6 +273,8 @@ export class DocumentProcessor {
           });
         },
         onComplete: (parsedData) => {
+          if (signal?.aborted) return;
+
           console.log('[DEBUG] DocumentProcessor - Received completion data:', {
             metadata: parsedData.metadata,
             hierarchyCount: parsedData.hierarchy?.length || 0
@@ -80,14 +287,31 @@ export class DocumentProcessor {
             message: 'Building interactive graph...'
           });
 
+          // Validate the merged result on top of the per-node checks done while streaming
+          const streamReport: ValidationReport = parsedData.validation || createValidationReport();
+          const { data: validated, report: finalReport } = validateDocumentData(parsedData);
+          const validationReport: ValidationReport = {
+            checkedNodes: Math.max(streamReport.checkedNodes, finalReport.checkedNodes),
+            rejected: [...streamReport.rejected, ...finalReport.rejected],
+            coerced: [...streamReport.coerced, ...finalReport.coerced],
+            createdAt: Date.now(),
+          };
+          callbacks.onValidationReport?.(validationReport);
+
           const documentData: DocumentData = {
-            metadata: {
+            metadata: this.applyClassification({
               title: parsedData.metadata?.title || fileName,
               jurisdiction: parsedData.metadata?.jurisdiction || 'Unknown',
               document_type: parsedData.metadata?.document_type || 'Document',
               source: fileName,
-            },
-            hierarchy: parsedData.hierarchy || [],
+              ...(ocrMetadata ? { ocr: ocrMetadata } : {}),
+              extraction: {
+                protocol,
+                outputMode: parsedData.outputMode ?? 'text',
+                promptTemplate: toTemplateRef(template),
+              },
+            }, classification),
+            hierarchy: this.anchorToSource(this.resolveReferences(validated), aligner).hierarchy,
           };
 
           console.log('[DEBUG] DocumentProcessor - Final document data:', {
@@ -95,6 +319,11 @@ export class DocumentProcessor {
             hierarchyCount: documentData.hierarchy.length
           });
 
+          // Runs with failed chunks are incomplete and not worth reusing
+          if (cacheKey && !(parsedData.failedChunks?.length > 0)) {
+            void this.analysisCache.putAnalysis(cacheKey, documentData, validationReport);
+          }
+
           // Final completion
           callbacks.onProgress({
             stage: 'complete',
@@ -104,10 +333,26 @@ export class DocumentProcessor {
 
           callbacks.onComplete(documentData);
         },
-        onError: callbacks.onError
+        onError: handleAnalysisError
       };
 
-      await this.streamingService.streamDocumentParsing(cleanedText, streamingCallbacks);
+      let streamingService: EnhancedStreamingService;
+      try {
+        streamingService = this.getStreamingService();
+      } catch (error) {
+        handleAnalysisError(error instanceof Error ? error : new Error('AI provider unavailable'));
+        return;
+      }
+
+      // Explicit headings from the source file make a reliable outline even when no draft was shown
+      const hasHeadingHints = (hints ?? []).filter(hint => hint.kind === 'heading').length >= 2;
+      const outline = draft ?? (hasHeadingHints ? this.ruleBasedParser.parse(cleanedText, fileName, hints) : null);
+
+      await streamingService.streamDocumentParsing(cleanedText, streamingCallbacks, {
+        ...extractionOptions,
+        outlineHint: outline ? buildOutlineHint(outline.hierarchy) : undefined,
+        signal
+      });
 
     } catch (error) {
       console.error('Document processing error:', error);
@@ -115,71 +360,122 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Extract, clean (page by page, as the analysis does) and classify the input without calling the model.
+   * Scanned PDF pages are not run through OCR for the preview.
+   */
+  async previewDocument(input: File | string): Promise<DocumentPreview> {
+    const { rawText, pageTexts } = await this.extractTextContent(input);
+    const { text } = this.cleanSourceText(rawText, pageTexts);
+    return { text, classification: text ? this.classifier.classify(text) : null };
+  }
+
+  /**
+   * How previewed text would be chunked for its (confirmed) classification
+   */
+  planChunks(text: string, classification: DocumentClassification): ChunkingPlan {
+    return this.chunker.planChunks(text, chunkingStyleFor(classification));
+  }
+
+  /**
+   * Cache key for a document's analysis; null when no extraction provider can be resolved
+   */
+  private async createCacheKey(cleanedText: string, mode: AnalysisMode, options: StreamingOptions): Promise<string | null> {
+    try {
+      const resolved = resolveProvider('extraction');
+      return await this.analysisCache.createAnalysisKey({
+        text: cleanedText,
+        chunkingConfig: { ...this.chunker.getConfig(), style: options.chunkingStyle },
+        promptVersion: promptVersionFor(options.protocol, options.template),
+        model: getModelKey(resolved),
+        mode,
+        outputMode: resolveOutputMode(resolved.provider, options.protocol, options.responseSchema),
+      });
+    } catch (error) {
+      console.warn('[DEBUG] DocumentProcessor - Analysis cache unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the classification, and use it where the analysis left the jurisdiction or type unknown
+   */
+  private applyClassification(metadata: DocumentData['metadata'], classification: DocumentClassification): DocumentData['metadata'] {
+    const unknown = (value: string, placeholder: string) => !value || value === placeholder;
+    return {
+      ...metadata,
+      jurisdiction: unknown(metadata.jurisdiction, 'Unknown') ? classification.jurisdiction ?? 'Unknown' : metadata.jurisdiction,
+      document_type: unknown(metadata.document_type, 'Document') ? DOCUMENT_KIND_LABELS[classification.documentType] : metadata.document_type,
+      classification,
+    };
+  }
+
+  /**
+   * Attach source spans (offsets into the cleaned text) to nodes and references
+   */
+  private anchorToSource(data: DocumentData, aligner: SourceAligner): DocumentData {
+    const { hierarchy, summary } = aligner.align(data.hierarchy);
+    console.log('[DEBUG] DocumentProcessor - Source alignment:', summary);
+    return { ...data, hierarchy };
+  }
+
+  /**
+   * Which pages were read with OCR and which of them came out below the confidence threshold
+   */
+  private summarizeOcr(pages: OcrPageResult[]): OcrMetadata {
+    const confidence = pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+    return {
+      pages: pages.map(page => page.pageNumber),
+      lowConfidencePages: pages.filter(page => page.lowConfidence).map(page => page.pageNumber),
+      confidence: Math.round(confidence),
+    };
+  }
+
+  /**
+   * Validate, repair and complete internal cross-references
+   */
+  private resolveReferences(data: DocumentData): DocumentData {
+    const { hierarchy, summary } = this.referenceResolver.resolve(data.hierarchy);
+    console.log('[DEBUG] DocumentProcessor - Reference resolution:', summary);
+    return { ...data, hierarchy };
+  }
+
   /**
    * Extract text content from file or URL
    */
-  private async extractTextContent(input: File | string): Promise<{ rawText: string; fileName: string }> {
+  private async extractTextContent(input: File | string, pdfOptions: PdfExtractionOptions = {}): Promise<ExtractedContent> {
     if (typeof input === 'string') {
-      return await this.extractFromUrl(input);
+      return await this.extractFromUrl(input, pdfOptions);
     } else {
-      return await this.extractFromFile(input);
+      return await this.extractFromFile(input, pdfOptions);
     }
   }
 
   /**
-   * Extract text from URL
+   * Extract text from URL: PDFs go through pdf.js, web pages through readable-content extraction
    */
-  private async extractFromUrl(url: string): Promise<{ rawText: string; fileName: string }> {
-    const fileName = url.split('/').pop() || 'document';
-    
-    try {
-      let response;
-      
-      try {
-        response = await fetch(url, {
-          mode: 'cors',
-          headers: {
-            'Accept': 'text/html,application/xhtml+xml,application/xml,text/plain',
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
-      } catch (directError) {
-        // Fallback to CORS proxy
-        const proxyUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(url)}`;
-        const proxyResponse = await fetch(proxyUrl);
-        
-        if (!proxyResponse.ok) {
-          throw new Error(`Proxy fetch failed: HTTP ${proxyResponse.status}`);
-        }
-        
-        const proxyData = await proxyResponse.json();
-        if (!proxyData.contents) {
-          throw new Error('No content received from proxy');
-        }
-        
-        return { rawText: proxyData.contents, fileName };
-      }
-      
-      const rawText = await response.text();
-      return { rawText, fileName };
-      
-    } catch (error) {
-      throw new Error(`Failed to fetch document from URL: ${error instanceof Error ? error.message : 'Network error'}`);
+  private async extractFromUrl(url: string, pdfOptions: PdfExtractionOptions): Promise<ExtractedContent> {
+    const document = await fetchUrlDocument(url);
+
+    if (document.kind === 'pdf') {
+      // pdf.js detaches the buffer it reads, and the viewer shares this download
+      return { ...(await this.extractPdfContent(document.data.slice(0), pdfOptions)), fileName: document.fileName };
     }
+
+    return { rawText: document.text, fileName: document.fileName };
   }
 
   /**
    * Extract text from file
    */
-  private async extractFromFile(file: File): Promise<{ rawText: string; fileName: string }> {
+  private async extractFromFile(file: File, pdfOptions: PdfExtractionOptions): Promise<ExtractedContent> {
     const fileName = file.name;
     
     if (file.type === 'application/pdf') {
-      const rawText = await this.extractTextFromPDF(file);
-      return { rawText, fileName };
+      return { ...(await this.extractPdfContent(await file.arrayBuffer(), pdfOptions)), fileName };
+    } else if (isDocxFile(file) || isEpubFile(file)) {
+      const { text, hints } = await this.extractStructuredFile(file);
+      return { rawText: text, fileName, hints };
     } else {
       const rawText = await file.text();
       return { rawText, fileName };
@@ -187,43 +483,48 @@ export class DocumentProcessor {
   }
 
   /**
-   * Extract text from PDF using pdf.js
+   * Extract text from PDF using pdf.js, with OCR for scanned pages when requested
    */
-  private async extractTextFromPDF(file: File): Promise<string> {
+  private async extractPdfContent(data: ArrayBuffer, options: PdfExtractionOptions): Promise<Omit<ExtractedContent, 'fileName'>> {
     try {
-      // Dynamic import for better bundle splitting
-      const pdfjsLib = await import('pdfjs-dist');
-      
-      const worker = new Worker(
-        new URL('pdfjs-dist/build/pdf.worker.mjs', import.meta.url),
-        { type: 'module' }
-      );
-      (pdfjsLib.GlobalWorkerOptions as any).workerPort = worker;
-      
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({
-        data: arrayBuffer,
-        disableFontFace: true,
-        isEvalSupported: false,
-      }).promise;
-      
-      let text = '';
-      
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = (textContent.items as any[])
-          .map((item: any) => item.str)
-          .join(' ');
-        text += pageText + '\n';
-      }
-      
-      return text;
+      const { text, pages, ocrPages } = await extractPdf(data, options);
+      return { rawText: text, pageTexts: pages, ocrPages };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       throw new Error(`PDF processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Extract text and structure hints from a Word or EPUB file
+   */
+  private async extractStructuredFile(file: File) {
+    const format = isDocxFile(file) ? 'DOCX' : 'EPUB';
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      return format === 'DOCX' ? await extractDocx(arrayBuffer) : await extractEpub(arrayBuffer);
+    } catch (error) {
+      throw new Error(`${format} processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Clean the extracted text; PDFs are cleaned page by page so the offset where each page begins is known
+   */
+  private cleanSourceText(rawText: string, pageTexts?: string[]): { text: string; pageStarts: number[] } {
+    if (!pageTexts) {
+      return { text: this.cleanDocumentText(rawText), pageStarts: [] };
+    }
+
+    let text = '';
+    const pageStarts = pageTexts.map(pageText => {
+      const cleaned = this.cleanDocumentText(pageText);
+      if (cleaned) text += (text ? ' ' : '') + cleaned;
+      return cleaned ? text.length - cleaned.length : text.length;
+    });
+    return { text, pageStarts };
+  }
+
   /**
    * Clean and normalize document text
    */
@@ -1,12 +1,72 @@
 import { DocumentData } from '@/store/regulationStore';
-import { DocumentProcessor } from './documentProcessor';
+import { DocumentProcessor, DocumentPreview } from './documentProcessor';
+import { ChunkingPlan } from './streaming/DocumentChunker';
+import { isAbortError, sleep } from './llm/retry';
+import { downloadExportedFile, exportDocument } from './export';
+import { isXmlFile } from './parsing/XmlDocumentImporter';
+import { extractDocx, isDocxFile } from './extractors/docxExtractor';
+import { extractEpub, isEpubFile } from './extractors/epubExtractor';
+import { fetchUrlDocument } from './extractors/urlExtractor';
 import { useRegulationStore } from '@/store/regulationStore';
+import type { OcrProgress } from './extractors/ocrTypes';
+import type { DocumentClassification } from './parsing/DocumentClassifier';
 
 interface ProcessingState {
   stage: 'idle' | 'uploading' | 'cleaning' | 'parsing' | 'building' | 'complete' | 'error';
   progress: number;
   message: string;
   currentSection?: string;
+  // Per-page status while scanned PDF pages are being recognised
+  ocr?: OcrProgress;
+}
+
+// Why a run was stopped: by the user (resumable), by a newer run, or by leaving the document
+type StopReason = 'user' | 'replaced' | 'discarded';
+
+interface DocumentRun {
+  controller: AbortController;
+  stopReason: StopReason | null;
+}
+
+// The run in progress, so it can be stopped, and its input, so an interrupted run can be resumed
+let activeRun: DocumentRun | null = null;
+let lastInput: {
+  input: File | string;
+  setProcessingState: (state: ProcessingState) => void;
+  classification?: DocumentClassification;
+} | null = null;
+
+/**
+ * Abort the run in progress, recording why so its abort handler knows whether to report the stop
+ */
+function stopActiveRun(reason: StopReason): void {
+  if (!activeRun) return;
+  activeRun.stopReason = reason;
+  activeRun.controller.abort();
+  activeRun = null;
+}
+
+/**
+ * Stop the analysis in progress. Completed chunks stay in the chunk cache for resuming.
+ */
+export function cancelDocumentProcessing(): void {
+  stopActiveRun('user');
+}
+
+/**
+ * Stop the analysis in progress without offering to resume it, e.g. when leaving the document
+ */
+export function discardDocumentProcessing(): void {
+  stopActiveRun('discarded');
+  lastInput = null;
+}
+
+/**
+ * Re-run the last stopped analysis; chunks finished before it stopped come from the chunk cache
+ */
+export async function resumeDocumentProcessing(): Promise<void> {
+  if (!lastInput) return;
+  await processDocument(lastInput.input, lastInput.setProcessingState, lastInput.classification);
 }
 
 /**
@@ -15,17 +75,34 @@ interface ProcessingState {
  */
 export async function processDocument(
   input: File | string,
-  setProcessingState: (state: ProcessingState) => void
+  setProcessingState: (state: ProcessingState) => void,
+  classification?: DocumentClassification
 ): Promise<void> {
   const processor = new DocumentProcessor();
   const store = useRegulationStore.getState();
 
+  // Only one run at a time; a new run stops the previous one
+  stopActiveRun('replaced');
+  const run: DocumentRun = { controller: new AbortController(), stopReason: null };
+  const { controller } = run;
+  activeRun = run;
+  lastInput = { input, setProcessingState, classification };
+  const isCurrentRun = () => activeRun === run && !controller.signal.aborted;
+  // Only a user stop is reported; a replaced or discarded run leaves the store to its successor
+  const handleAbort = () => {
+    if (run.stopReason === 'user') {
+      handleStoppedRun(store, setProcessingState);
+    }
+  };
+
   try {
     // Clear any existing data
     store.clearStreamingData();
+    store.setValidationReport(null);
+    store.setResumableAnalysis(null);
     
     // Immediately extract and show raw document content
-    await extractAndShowRawDocument(input, setProcessingState, store);
+    await extractAndShowRawDocument(input, setProcessingState, store, controller.signal);
     
     // Start AI processing in background
     store.setStreamingState({ 
@@ -35,11 +112,13 @@ export async function processDocument(
 
     await processor.processDocument(input, {
       onProgress: (state) => {
+        if (!isCurrentRun()) return;
         setProcessingState(state);
         store.setStreamingState({ streamingProgress: state.progress });
       },
       
       onStreamingChunk: (chunk) => {
+        if (!isCurrentRun()) return;
         console.log('Streaming chunk received:', chunk.type, chunk.data);
         
         switch (chunk.type) {
@@ -51,7 +130,7 @@ export async function processDocument(
             
           case 'node':
             if (chunk.data && chunk.data.id) {
-              store.addStreamingNode(chunk.data);
+              store.addStreamingNode(chunk.data, chunk.parentId);
             }
             break;
             
@@ -74,11 +153,56 @@ export async function processDocument(
         }
       },
       
+      onChunkStatus: (status) => {
+        if (!isCurrentRun()) return;
+        if (status.state === 'retrying') {
+          console.warn(`Chunk ${status.chunkIndex + 1} attempt ${status.attempt} failed, retrying in ${status.retryInMs}ms: ${status.error}`);
+        }
+        store.updateChunkStatus(status);
+      },
+
+      onValidationReport: (report) => {
+        if (!isCurrentRun()) return;
+        if (report.rejected.length > 0) {
+          console.warn(`Schema validation rejected ${report.rejected.length} fragment(s)`);
+        }
+        store.setValidationReport(report);
+      },
+
+      onOcrPages: (pages) => {
+        if (!isCurrentRun()) return;
+        const lowConfidence = pages.filter(page => page.lowConfidence).map(page => page.pageNumber);
+        if (lowConfidence.length > 0) {
+          console.warn(`OCR confidence is low on page(s) ${lowConfidence.join(', ')}`);
+        }
+        // Word boxes let the PDF viewer highlight passages on scanned pages
+        store.setOcrPages(pages.map(({ pageNumber, items }) => ({ pageNumber, items })));
+      },
+
+      onSourceText: (text) => {
+        if (!isCurrentRun()) return;
+        store.setSourceText(text);
+      },
+
+      onDraft: (draft) => {
+        if (!isCurrentRun()) return;
+        // Show the rule-based structure right away while the AI refines it
+        console.log(`Rule-based draft ready with ${draft.hierarchy.length} top-level nodes`);
+        store.setDocumentData(draft);
+      },
+
       onComplete: (documentData) => {
+        if (!isCurrentRun()) return;
+        activeRun = null;
+        lastInput = null;
         console.log('Document processing complete:', documentData);
         
         // Set final document data
         store.setDocumentData(documentData);
+
+        if (useRegulationStore.getState().autoDownloadJson) {
+          downloadExportedFile(exportDocument(documentData, 'json'));
+        }
         
         // Clear streaming state
         store.setStreamingState({ 
@@ -89,14 +213,21 @@ export async function processDocument(
         // Show completion message with node count
         console.log(`✅ Processing complete! Generated ${documentData.hierarchy.length} nodes`);
         
-        // Clear streaming data after a brief delay to show completion
+        // Clear streaming data after a brief delay to show completion, unless a new run has started
         setTimeout(() => {
+          if (activeRun !== null) return;
           store.clearStreamingData();
           console.log('🎨 Document structure now complete');
         }, 1500);
       },
       
       onError: (error) => {
+        if (isAbortError(error)) {
+          handleAbort();
+          return;
+        }
+        if (!isCurrentRun()) return;
+        activeRun = null;
         console.error('Document processing failed:', error);
         
         setProcessingState({
@@ -110,9 +241,19 @@ export async function processDocument(
           streamingProgress: 0 
         });
       }
+    }, store.analysisMode, controller.signal, {
+      protocol: store.outputProtocol,
+      responseSchema: store.useResponseSchema,
+      promptTemplateId: store.promptTemplateId,
+      classification,
     });
 
   } catch (error) {
+    if (isAbortError(error) || controller.signal.aborted) {
+      handleAbort();
+      return;
+    }
+    if (!isCurrentRun()) return;
     console.error('Unexpected error:', error);
     
     setProcessingState({
@@ -128,13 +269,55 @@ export async function processDocument(
   }
 }
 
+/**
+ * Record how far a stopped run got so the workspace can offer to resume it
+ */
+function handleStoppedRun(
+  store: ReturnType<typeof useRegulationStore.getState>,
+  setProcessingState: (state: ProcessingState) => void
+): void {
+  const { chunkStatuses } = useRegulationStore.getState().streamingState;
+  const completedChunks = chunkStatuses.filter(status => status?.state === 'done').length;
+
+  console.log(`Analysis stopped after ${completedChunks} of ${chunkStatuses.length} chunks`);
+  setProcessingState({
+    stage: 'idle',
+    progress: 0,
+    message: 'Analysis stopped'
+  });
+  store.setStreamingState({
+    isStreaming: false,
+    streamingProgress: 0
+  });
+  store.setResumableAnalysis({
+    fileName: useRegulationStore.getState().rawDocumentContent.fileName || 'document',
+    completedChunks,
+    totalChunks: chunkStatuses.length,
+  });
+}
+
+/**
+ * Detect a document's type and jurisdiction locally, so they can be confirmed before any model call
+ */
+export async function detectDocumentType(input: File | string): Promise<DocumentPreview> {
+  return new DocumentProcessor().previewDocument(input);
+}
+
+/**
+ * Work out how previewed text would be split for AI analysis, so the plan can be reviewed before spending tokens
+ */
+export function previewChunkingPlan(preview: DocumentPreview, classification: DocumentClassification): ChunkingPlan {
+  return new DocumentProcessor().planChunks(preview.text, classification);
+}
+
 /**
  * Extract and show raw document content immediately
  */
 async function extractAndShowRawDocument(
   input: File | string,
   setProcessingState: (state: ProcessingState) => void,
-  store: ReturnType<typeof useRegulationStore.getState>
+  store: ReturnType<typeof useRegulationStore.getState>,
+  signal: AbortSignal
 ): Promise<void> {
   
   setProcessingState({
@@ -144,7 +327,7 @@ async function extractAndShowRawDocument(
   });
 
   // Brief extraction delay (immediate display after upload)
-  await new Promise(resolve => setTimeout(resolve, 500));
+  await sleep(500, signal);
 
   try {
     if (typeof input === 'string') {
@@ -152,18 +335,19 @@ async function extractAndShowRawDocument(
       setProcessingState({
         stage: 'cleaning',
         progress: 50,
-        message: 'Fetching webpage content...'
+        message: 'Fetching document from URL...'
       });
 
-      // For now, set placeholder content - in real implementation would fetch URL
-      const urlContent = `<div class="url-content">
-        <h1>Website Content</h1>
-        <p>URL: ${input}</p>
-        <p>This is where the extracted and formatted website content would appear.</p>
-        <p>The content would be properly organized for readability and navigation.</p>
-      </div>`;
-      
-      store.setRawDocumentContent(urlContent, 'url', input);
+      // Same download the analysis reads: PDFs open in the PDF viewer, pages show their readable content
+      const urlDocument = await fetchUrlDocument(input);
+      signal.throwIfAborted();
+      if (urlDocument.kind === 'pdf') {
+        store.setRawDocumentContent(urlDocument.data.slice(0), 'pdf', urlDocument.fileName);
+      } else if (urlDocument.kind === 'text') {
+        store.setRawDocumentContent(urlDocument.text, 'text', urlDocument.fileName);
+      } else {
+        store.setRawDocumentContent(urlDocument.html, 'url', input);
+      }
       
     } else {
       // Handle file input
@@ -172,16 +356,32 @@ async function extractAndShowRawDocument(
       if (input.type === 'application/pdf') {
         // Read PDF as ArrayBuffer
         const arrayBuffer = await input.arrayBuffer();
+        signal.throwIfAborted();
         store.setRawDocumentContent(arrayBuffer, 'pdf', fileName);
         
+      } else if (isXmlFile(input)) {
+        // Akoma Ntoso / USLM markup, rendered as formatted text by the viewer
+        const textContent = await input.text();
+        signal.throwIfAborted();
+        store.setRawDocumentContent(textContent, 'xml', fileName);
+
+      } else if (isDocxFile(input) || isEpubFile(input)) {
+        // Word and EPUB files are shown as the HTML rebuilt from their headings, paragraphs and lists
+        const arrayBuffer = await input.arrayBuffer();
+        const extracted = isDocxFile(input) ? await extractDocx(arrayBuffer) : await extractEpub(arrayBuffer);
+        signal.throwIfAborted();
+        store.setRawDocumentContent(extracted.html, 'html', fileName);
+
       } else if (input.type === 'text/html') {
         // Read HTML content
         const textContent = await input.text();
+        signal.throwIfAborted();
         store.setRawDocumentContent(textContent, 'html', fileName);
         
       } else {
         // Read as text
         const textContent = await input.text();
+        signal.throwIfAborted();
         store.setRawDocumentContent(textContent, 'text', fileName);
       }
     }
@@ -193,7 +393,9 @@ async function extractAndShowRawDocument(
     });
 
   } catch (error) {
-    console.error('Error extracting document:', error);
+    if (!isAbortError(error)) {
+      console.error('Error extracting document:', error);
+    }
     throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import type { DocumentData } from '@/store/regulationStore';
+import { ExportFormat } from '../types';
+import { flattenWithParents } from '../utils';
+
+const COLUMNS = ['id', 'type', 'number', 'title', 'level', 'parent', 'reference_count'];
+
+const escapeCell = (value: string | number | null | undefined) => {
+  let cell = value === null || value === undefined ? '' : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * One row per node in document order
+ */
+export const csvFormat: ExportFormat = {
+  id: 'csv',
+  label: 'CSV',
+  description: 'Flat table of nodes: id, type, number, title, level, parent, reference count',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  serialize: (data: DocumentData) => {
+    const rows = flattenWithParents(data.hierarchy).map(({ node, parentId }) => [
+      node.id,
+      node.type,
+      node.number,
+      node.title,
+      node.level,
+      parentId,
+      node.references?.length ?? 0,
+    ].map(escapeCell).join(','));
+    return [COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  },
+};
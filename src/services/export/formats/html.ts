@@ -0,0 +1,90 @@
+import type { DocumentData, HierarchyNode, Reference } from '@/store/regulationStore';
+import { ExportFormat } from '../types';
+import { anchorId, collectNodeIds, escapeHtml, nodeHeading } from '../utils';
+
+// Word-like page layout so the outline prints (or opens in a word processor) cleanly
+const STYLES = `
+  @page { size: A4; margin: 2.5cm 2cm; }
+  body { font-family: Calibri, "Segoe UI", Arial, sans-serif; font-size: 11pt; line-height: 1.45; color: #1f2937; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-family: Cambria, Georgia, serif; font-size: 22pt; margin-bottom: 0.25rem; }
+  h2, h3, h4, h5, h6 { font-family: Cambria, Georgia, serif; margin: 1.2em 0 0.3em; page-break-after: avoid; }
+  h2 { font-size: 16pt; } h3 { font-size: 14pt; } h4 { font-size: 12pt; } h5, h6 { font-size: 11pt; }
+  .meta { color: #6b7280; margin: 0 0 1.5rem; }
+  .meta dt { font-weight: 600; display: inline; } .meta dd { display: inline; margin: 0 1rem 0 0.25rem; }
+  nav.toc { border: 1px solid #e5e7eb; padding: 0.75rem 1rem; margin-bottom: 2rem; page-break-after: always; }
+  nav.toc ol { list-style: none; padding-left: 1.1rem; margin: 0; } nav.toc > ol { padding-left: 0; }
+  section.node { margin-left: 1.1rem; } body > section.node { margin-left: 0; }
+  .node-text { white-space: pre-wrap; margin: 0.25rem 0; }
+  .refs { font-size: 9.5pt; color: #4b5563; }
+  a { color: #1d4ed8; text-decoration: none; }
+  @media print { nav.toc a::after { content: ""; } a { color: inherit; } }
+`;
+
+const renderReference = (ref: Reference, nodeIds: Set<string>) => {
+  const label = escapeHtml(ref.text || ref.target);
+  return ref.type === 'internal' && nodeIds.has(ref.target)
+    ? `<a href="#${anchorId(ref.target)}">${label}</a>`
+    : `<span class="ref-${ref.type}">${label}</span>`;
+};
+
+const renderNode = (node: HierarchyNode, depth: number, nodeIds: Set<string>): string => {
+  const tag = `h${Math.min(depth + 2, 6)}`;
+  const parts = [
+    `<section class="node node-${escapeHtml(node.type || 'node')}" id="${anchorId(node.id)}">`,
+    `<${tag}>${escapeHtml(nodeHeading(node) || node.id)}</${tag}>`,
+  ];
+  if (node.text?.trim()) {
+    parts.push(`<p class="node-text">${escapeHtml(node.text.trim())}</p>`);
+  }
+  if (node.references?.length) {
+    parts.push(`<p class="refs">References: ${node.references.map(ref => renderReference(ref, nodeIds)).join('; ')}</p>`);
+  }
+  parts.push(...(node.children || []).map(child => renderNode(child, depth + 1, nodeIds)), '</section>');
+  return parts.join('\n');
+};
+
+const renderContents = (nodes: HierarchyNode[]): string =>
+  nodes.length === 0
+    ? ''
+    : `<ol>${nodes.map(node =>
+      `<li><a href="#${anchorId(node.id)}">${escapeHtml(nodeHeading(node) || node.id)}</a>${renderContents(node.children || [])}</li>`
+    ).join('')}</ol>`;
+
+/**
+ * Standalone, printable HTML outline with a table of contents
+ */
+export const htmlFormat: ExportFormat = {
+  id: 'html',
+  label: 'HTML outline',
+  description: 'Printable document-style outline with table of contents',
+  extension: 'html',
+  mimeType: 'text/html',
+  serialize: (data: DocumentData) => {
+    const nodeIds = collectNodeIds(data);
+    const { metadata } = data;
+    const title = escapeHtml(metadata.title || 'Untitled Document');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl class="meta">
+<dt>Jurisdiction</dt><dd>${escapeHtml(metadata.jurisdiction || 'Unknown')}</dd>
+<dt>Type</dt><dd>${escapeHtml(metadata.document_type || 'Unknown')}</dd>
+<dt>Source</dt><dd>${escapeHtml(metadata.source || 'Unknown')}</dd>
+</dl>
+<nav class="toc">
+<h2>Contents</h2>
+${renderContents(data.hierarchy)}
+</nav>
+${data.hierarchy.map(node => renderNode(node, 0, nodeIds)).join('\n')}
+</body>
+</html>
+`;
+  },
+};
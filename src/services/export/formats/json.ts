@@ -0,0 +1,15 @@
+import type { DocumentData } from '@/store/regulationStore';
+import { ExportFormat } from '../types';
+
+/**
+ * The analysis as the app stores it; can be loaded again as a sample
+ */
+export const jsonFormat: ExportFormat = {
+  id: 'json',
+  label: 'JSON',
+  description: 'Raw analysis (metadata and hierarchy)',
+  extension: 'json',
+  mimeType: 'application/json',
+  serialize: (data: DocumentData) =>
+    JSON.stringify({ metadata: data.metadata, hierarchy: data.hierarchy }, null, 2),
+};
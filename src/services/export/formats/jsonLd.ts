@@ -0,0 +1,134 @@
+import type { DocumentData, HierarchyNode } from '@/store/regulationStore';
+import { ExportFormat } from '../types';
+import { collectNodeIds, slugify } from '../utils';
+
+const AKN_NAMESPACE = 'http://docs.oasis-open.org/legaldocml/ns/akn/3.0#';
+
+/**
+ * Akoma Ntoso hierarchical element and eId prefix for each node type; anything else becomes an hcontainer
+ */
+const AKN_ELEMENTS: Record<string, { element: string; prefix: string }> = {
+  book: { element: 'book', prefix: 'book' },
+  part: { element: 'part', prefix: 'part' },
+  title: { element: 'title', prefix: 'title' },
+  chapter: { element: 'chapter', prefix: 'chp' },
+  division: { element: 'division', prefix: 'dvs' },
+  subdivision: { element: 'subdivision', prefix: 'subdvs' },
+  article: { element: 'article', prefix: 'art' },
+  section: { element: 'section', prefix: 'sec' },
+  subsection: { element: 'subsection', prefix: 'subsec' },
+  rule: { element: 'rule', prefix: 'rule' },
+  paragraph: { element: 'paragraph', prefix: 'para' },
+  subparagraph: { element: 'subparagraph', prefix: 'subpara' },
+  clause: { element: 'clause', prefix: 'cl' },
+  subclause: { element: 'subclause', prefix: 'subcl' },
+  point: { element: 'point', prefix: 'point' },
+  item: { element: 'point', prefix: 'point' },
+  list_item: { element: 'point', prefix: 'point' },
+  list: { element: 'list', prefix: 'list' },
+  preamble: { element: 'preamble', prefix: 'preamble' },
+  schedule: { element: 'attachment', prefix: 'att' },
+  definition: { element: 'hcontainer', prefix: 'def' },
+};
+
+const CONTEXT = {
+  '@vocab': AKN_NAMESPACE,
+  akn: AKN_NAMESPACE,
+  schema: 'https://schema.org/',
+  name: 'schema:name',
+  legislationJurisdiction: 'schema:legislationJurisdiction',
+  legislationType: 'schema:legislationType',
+  isBasedOn: 'schema:isBasedOn',
+  hasPart: { '@id': 'schema:hasPart', '@container': '@list' },
+  href: { '@id': 'akn:href', '@type': '@id' },
+};
+
+const elementFor = (type: string) =>
+  AKN_ELEMENTS[type?.toLowerCase()] ?? { element: 'hcontainer', prefix: slugify(type || 'hcontainer').replace(/-/g, '') };
+
+// "(1)" -> "1", "12A" -> "12A", "" -> position among siblings
+const eIdNumber = (node: HierarchyNode, position: number) =>
+  (node.number || '').replace(/[^A-Za-z0-9.]+/g, '').replace(/\.+$/, '') || `${position + 1}`;
+
+interface EIdIndex {
+  byNode: Map<HierarchyNode, string>;
+  /** First eId of each node id, for resolving references */
+  byId: Map<string, string>;
+}
+
+/**
+ * Akoma Ntoso-style eIds ("part_1__sec_12__subsec_2"), made unique where numbers repeat
+ */
+const assignEIds = (
+  nodes: HierarchyNode[],
+  index: EIdIndex = { byNode: new Map(), byId: new Map() },
+  parentEId = '',
+  used = new Set<string>()
+): EIdIndex => {
+  nodes.forEach((node, position) => {
+    const base = `${parentEId ? `${parentEId}__` : ''}${elementFor(node.type).prefix}_${eIdNumber(node, position)}`;
+    let eId = base;
+    for (let n = 2; used.has(eId); n++) {
+      eId = `${base}-${n}`;
+    }
+    used.add(eId);
+    index.byNode.set(node, eId);
+    if (!index.byId.has(node.id)) {
+      index.byId.set(node.id, eId);
+    }
+    assignEIds(node.children || [], index, eId, used);
+  });
+  return index;
+};
+
+const toJsonLdNode = (node: HierarchyNode, eIds: EIdIndex, nodeIds: Set<string>): object => {
+  const eId = eIds.byNode.get(node);
+  const refs = (node.references || []).map(ref => ({
+    '@type': 'akn:ref',
+    href: ref.type === 'internal' && nodeIds.has(ref.target) ? `#${eIds.byId.get(ref.target)}` : ref.target,
+    showAs: ref.text,
+    refersTo: ref.type,
+  }));
+
+  return {
+    '@id': `#${eId}`,
+    '@type': `akn:${elementFor(node.type).element}`,
+    eId,
+    class: node.type,
+    num: node.number || undefined,
+    heading: node.title || undefined,
+    content: node.text?.trim() || undefined,
+    ref: refs.length > 0 ? refs : undefined,
+    hasPart: node.children?.length ? node.children.map(child => toJsonLdNode(child, eIds, nodeIds)) : undefined,
+  };
+};
+
+/**
+ * Linked-data view of the document: schema.org Legislation with an Akoma Ntoso-shaped body
+ */
+export const jsonLdFormat: ExportFormat = {
+  id: 'jsonld',
+  label: 'JSON-LD (Akoma Ntoso)',
+  description: 'Linked-data legal document with Akoma Ntoso element names and eIds',
+  extension: 'jsonld',
+  mimeType: 'application/ld+json',
+  serialize: (data: DocumentData) => {
+    const eIds = assignEIds(data.hierarchy);
+    const nodeIds = collectNodeIds(data);
+    const { metadata } = data;
+
+    return JSON.stringify({
+      '@context': CONTEXT,
+      '@id': `#${slugify(metadata.title || 'document')}`,
+      '@type': ['schema:Legislation', 'akn:act'],
+      name: metadata.title,
+      legislationJurisdiction: metadata.jurisdiction,
+      legislationType: metadata.document_type,
+      isBasedOn: metadata.source || undefined,
+      body: {
+        '@type': 'akn:body',
+        hasPart: data.hierarchy.map(node => toJsonLdNode(node, eIds, nodeIds)),
+      },
+    }, null, 2);
+  },
+};
@@ -0,0 +1,69 @@
+import type { DocumentData, HierarchyNode, Reference } from '@/store/regulationStore';
+import { ExportFormat } from '../types';
+import { anchorId, collectNodeIds, nodeHeading } from '../utils';
+
+// Markdown only has six heading levels; the document title uses the first
+const MAX_HEADING_DEPTH = 6;
+
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+const renderReference = (ref: Reference, nodeIds: Set<string>) => {
+  const label = escapeMarkdown(ref.text || ref.target);
+  if (ref.type === 'internal' && nodeIds.has(ref.target)) {
+    return `[${label}](#${anchorId(ref.target)})`;
+  }
+  return ref.type === 'external' ? `${label} _(external)_` : label;
+};
+
+const renderNode = (node: HierarchyNode, depth: number, nodeIds: Set<string>): string[] => {
+  const hashes = '#'.repeat(Math.min(depth + 2, MAX_HEADING_DEPTH));
+  const lines = [`<a id="${anchorId(node.id)}"></a>`, `${hashes} ${escapeMarkdown(nodeHeading(node) || node.id)}`, ''];
+
+  if (node.text?.trim()) {
+    lines.push(node.text.trim(), '');
+  }
+  if (node.references?.length) {
+    lines.push(`**References:** ${node.references.map(ref => renderReference(ref, nodeIds)).join('; ')}`, '');
+  }
+  for (const child of node.children || []) {
+    lines.push(...renderNode(child, depth + 1, nodeIds));
+  }
+  return lines;
+};
+
+const renderContents = (nodes: HierarchyNode[], depth = 0): string[] =>
+  nodes.flatMap(node => [
+    `${'  '.repeat(depth)}- [${escapeMarkdown(nodeHeading(node) || node.id)}](#${anchorId(node.id)})`,
+    ...renderContents(node.children || [], depth + 1),
+  ]);
+
+/**
+ * Nested headings with an anchor per node, a linked table of contents and internal references as links
+ */
+export const markdownFormat: ExportFormat = {
+  id: 'markdown',
+  label: 'Markdown',
+  description: 'Nested headings with anchors and linked cross-references',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  serialize: (data: DocumentData) => {
+    const nodeIds = collectNodeIds(data);
+    const { metadata } = data;
+    const lines = [
+      `# ${escapeMarkdown(metadata.title || 'Untitled Document')}`,
+      '',
+      `- **Jurisdiction:** ${metadata.jurisdiction || 'Unknown'}`,
+      `- **Document type:** ${metadata.document_type || 'Unknown'}`,
+      `- **Source:** ${metadata.source || 'Unknown'}`,
+      '',
+      '## Contents',
+      '',
+      ...renderContents(data.hierarchy),
+      '',
+    ];
+    for (const node of data.hierarchy) {
+      lines.push(...renderNode(node, 0, nodeIds));
+    }
+    return lines.join('\n');
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Export registry
+ * Serialises the analysed DocumentData to the supported formats and downloads the result
+ */
+
+import type { DocumentData } from '@/store/regulationStore';
+import { markdownFormat } from './formats/markdown';
+import { htmlFormat } from './formats/html';
+import { csvFormat } from './formats/csv';
+import { jsonLdFormat } from './formats/jsonLd';
+import { jsonFormat } from './formats/json';
+import { ExportFormat, ExportFormatId, ExportedFile } from './types';
+import { slugify } from './utils';
+
+export type { ExportFormat, ExportFormatId, ExportedFile } from './types';
+
+export const EXPORT_FORMATS: Record<ExportFormatId, ExportFormat> = {
+  markdown: markdownFormat,
+  html: htmlFormat,
+  csv: csvFormat,
+  jsonld: jsonLdFormat,
+  json: jsonFormat,
+};
+
+/**
+ * Serialise a document; the file name is derived from the document title
+ */
+export const exportDocument = (data: DocumentData, formatId: ExportFormatId): ExportedFile => {
+  const format = EXPORT_FORMATS[formatId];
+  if (!format) {
+    throw new Error(`Unknown export format "${formatId}"`);
+  }
+  return {
+    fileName: `${slugify(data.metadata?.title || 'document')}.${format.extension}`,
+    mimeType: format.mimeType,
+    content: format.serialize(data),
+  };
+};
+
+/**
+ * Trigger a browser download of an exported file
+ */
+export const downloadExportedFile = (file: ExportedFile): void => {
+  const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
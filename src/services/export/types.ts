@@ -0,0 +1,22 @@
+/**
+ * Shared types for the document export layer
+ */
+
+import type { DocumentData } from '@/store/regulationStore';
+
+export type ExportFormatId = 'markdown' | 'html' | 'csv' | 'jsonld' | 'json';
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  serialize: (data: DocumentData) => string;
+}
+
+export interface ExportedFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
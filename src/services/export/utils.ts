@@ -0,0 +1,48 @@
+/**
+ * Helpers shared by the export formats
+ */
+
+import type { DocumentData, HierarchyNode } from '@/store/regulationStore';
+
+export interface FlatNode {
+  node: HierarchyNode;
+  parentId: string | null;
+  depth: number;
+}
+
+/**
+ * Depth-first list of nodes with their parent id and depth in the tree (roots are depth 0)
+ */
+export const flattenWithParents = (nodes: HierarchyNode[], parentId: string | null = null, depth = 0): FlatNode[] =>
+  nodes.flatMap(node => [
+    { node, parentId, depth },
+    ...flattenWithParents(node.children || [], node.id, depth + 1),
+  ]);
+
+/**
+ * Stable HTML/Markdown anchor for a node id
+ */
+export const anchorId = (nodeId: string) => `node-${nodeId.replace(/[^A-Za-z0-9_-]+/g, '-')}`;
+
+/**
+ * Heading text such as "Section 12 Definitions"
+ */
+export const nodeHeading = (node: HierarchyNode) => {
+  const label = [node.type ? node.type.replace(/_/g, ' ') : '', node.number].filter(Boolean).join(' ');
+  const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+  return [capitalized, node.title].filter(Boolean).join(' – ');
+};
+
+export const collectNodeIds = (data: DocumentData): Set<string> =>
+  new Set(flattenWithParents(data.hierarchy).map(({ node }) => node.id));
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'document';
@@ -0,0 +1,233 @@
+/**
+ * DOCX text extraction
+ * Reads word/document.xml directly: heading styles (or outline levels) become heading hints, and
+ * automatic list numbering is rendered into the text ("(a)", "12.") with its nesting level, since
+ * Word does not store those labels in the paragraph text.
+ */
+
+import { openZipArchive } from './zipArchive';
+import { ExtractedBlock, StructuredDocument, buildStructuredDocument, toLetters, toRoman } from './structuredText';
+
+interface ParagraphStyle {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numId?: string;
+  ilvl?: number;
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const isDocxFile = (file: File) => file.type === DOCX_MIME_TYPE || /\.docx$/i.test(file.name);
+
+const parseXml = (xml: string | null): Document | null =>
+  xml ? new DOMParser().parseFromString(xml, 'application/xml') : null;
+
+const childElements = (element: Element, localName?: string): Element[] =>
+  Array.from(element.childNodes).filter((child): child is Element =>
+    child.nodeType === 1 && (!localName || (child as Element).localName === localName)
+  );
+
+const firstChild = (element: Element | undefined, localName: string): Element | undefined =>
+  element ? childElements(element, localName)[0] : undefined;
+
+const wordValue = (element: Element | undefined): string | null =>
+  element?.getAttribute('w:val') ?? null;
+
+const formatNumber = (value: number, format: string): string => {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value);
+    case 'upperLetter': return toLetters(value).toUpperCase();
+    case 'lowerRoman': return toRoman(value);
+    case 'upperRoman': return toRoman(value).toUpperCase();
+    case 'bullet': return '•';
+    case 'none': return '';
+    default: return String(value);
+  }
+};
+
+const readStyles = (doc: Document | null): Map<string, ParagraphStyle> => {
+  const styles = new Map<string, ParagraphStyle>();
+  if (!doc) return styles;
+
+  for (const style of Array.from(doc.getElementsByTagNameNS('*', 'style'))) {
+    if (style.getAttribute('w:type') !== 'paragraph') continue;
+    const pPr = firstChild(style, 'pPr');
+    const numPr = firstChild(pPr, 'numPr');
+    const outline = wordValue(firstChild(pPr, 'outlineLvl'));
+    const ilvl = wordValue(firstChild(numPr, 'ilvl'));
+    styles.set(style.getAttribute('w:styleId') || '', {
+      name: wordValue(firstChild(style, 'name')) || '',
+      basedOn: wordValue(firstChild(style, 'basedOn')) || undefined,
+      outlineLevel: outline !== null ? Number(outline) : undefined,
+      numId: wordValue(firstChild(numPr, 'numId')) || undefined,
+      ilvl: ilvl !== null ? Number(ilvl) : undefined,
+    });
+  }
+  return styles;
+};
+
+const readNumbering = (doc: Document | null): Map<string, NumberingLevel[]> => {
+  const byNumId = new Map<string, NumberingLevel[]>();
+  if (!doc) return byNumId;
+
+  const abstractLevels = new Map<string, NumberingLevel[]>();
+  for (const abstractNum of Array.from(doc.getElementsByTagNameNS('*', 'abstractNum'))) {
+    const levels: NumberingLevel[] = [];
+    for (const lvl of childElements(abstractNum, 'lvl')) {
+      levels[Number(lvl.getAttribute('w:ilvl') || 0)] = {
+        format: wordValue(firstChild(lvl, 'numFmt')) || 'decimal',
+        text: wordValue(firstChild(lvl, 'lvlText')) ?? `%${Number(lvl.getAttribute('w:ilvl') || 0) + 1}.`,
+        start: Number(wordValue(firstChild(lvl, 'start')) || 1),
+      };
+    }
+    abstractLevels.set(abstractNum.getAttribute('w:abstractNumId') || '', levels);
+  }
+
+  for (const num of Array.from(doc.getElementsByTagNameNS('*', 'num'))) {
+    const abstractId = wordValue(firstChild(num, 'abstractNumId'));
+    const levels = abstractLevels.get(abstractId || '');
+    if (levels) byNumId.set(num.getAttribute('w:numId') || '', levels);
+  }
+  return byNumId;
+};
+
+/**
+ * Heading level from the style name ("heading 2", "Title") or outline level, following basedOn
+ */
+const headingLevel = (styleId: string | null, paragraphOutline: number | undefined, styles: Map<string, ParagraphStyle>): number => {
+  if (paragraphOutline !== undefined && paragraphOutline < 9) return paragraphOutline + 1;
+
+  for (let id = styleId, depth = 0; id && depth < 10; depth++) {
+    const style = styles.get(id);
+    if (!style) break;
+    const named = style.name.match(/^heading\s*(\d)$/i);
+    if (named) return Number(named[1]);
+    if (/^title$/i.test(style.name)) return 1;
+    if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+    id = style.basedOn;
+  }
+  return 0;
+};
+
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const visit = (element: Element) => {
+    for (const child of childElements(element)) {
+      switch (child.localName) {
+        case 't':
+          text += child.textContent || '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += ' ';
+          break;
+        // Deleted revisions and field codes are not document text
+        case 'del':
+        case 'instrText':
+        case 'pPr':
+        case 'rPr':
+          break;
+        default:
+          visit(child);
+      }
+    }
+  };
+  visit(paragraph);
+  return text;
+};
+
+/**
+ * Extract text, viewer HTML and heading/list hints from a .docx file
+ */
+export async function extractDocx(data: ArrayBuffer): Promise<StructuredDocument> {
+  const archive = openZipArchive(data);
+  const documentXml = parseXml(await archive.readText('word/document.xml'));
+  if (!documentXml) {
+    throw new Error('Not a Word document (word/document.xml missing)');
+  }
+
+  const styles = readStyles(parseXml(await archive.readText('word/styles.xml')));
+  const numbering = readNumbering(parseXml(await archive.readText('word/numbering.xml')));
+  const core = parseXml(await archive.readText('docProps/core.xml'));
+  const title = core?.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || undefined;
+
+  // Running counters per list instance, one slot per level
+  const counters = new Map<string, number[]>();
+  const blocks: ExtractedBlock[] = [];
+
+  const renderLabel = (numId: string, ilvl: number): string | undefined => {
+    const levels = numbering.get(numId);
+    const level = levels?.[ilvl];
+    if (!levels || !level) return undefined;
+
+    const values = counters.get(numId) ?? [];
+    values[ilvl] = values[ilvl] === undefined ? level.start : values[ilvl] + 1;
+    // Starting a level restarts every deeper level
+    values.length = ilvl + 1;
+    counters.set(numId, values);
+
+    // A bullet's lvlText is a symbol-font glyph, not a label
+    if (level.format === 'bullet') return undefined;
+    return level.text.replace(/%(\d)/g, (_, index: string) => {
+      const position = Number(index) - 1;
+      const value = values[position] ?? levels[position]?.start ?? 1;
+      return formatNumber(value, levels[position]?.format || 'decimal');
+    }).trim() || undefined;
+  };
+
+  const addParagraph = (paragraph: Element) => {
+    const pPr = firstChild(paragraph, 'pPr');
+    const styleId = wordValue(firstChild(pPr, 'pStyle'));
+    const outline = wordValue(firstChild(pPr, 'outlineLvl'));
+    const style = styleId ? styles.get(styleId) : undefined;
+    const numPr = firstChild(pPr, 'numPr');
+    const numId = wordValue(firstChild(numPr, 'numId')) ?? style?.numId;
+    const ilvl = Number(wordValue(firstChild(numPr, 'ilvl')) ?? style?.ilvl ?? 0);
+
+    const text = paragraphText(paragraph);
+    // numId 0 explicitly removes numbering inherited from the style
+    const listLevel = numId && numId !== '0' && text.trim() ? numbering.get(numId)?.[ilvl] : undefined;
+    const label = listLevel ? renderLabel(numId, ilvl) : undefined;
+    const level = headingLevel(styleId, outline !== null ? Number(outline) : undefined, styles);
+
+    if (level > 0) {
+      blocks.push({ kind: 'heading', text, level, label });
+    } else if (listLevel) {
+      blocks.push({ kind: 'list_item', text, level: ilvl + 1, label });
+    } else {
+      blocks.push({ kind: 'paragraph', text, level: 0 });
+    }
+  };
+
+  const visitBody = (element: Element) => {
+    for (const child of childElements(element)) {
+      if (child.localName === 'p') {
+        addParagraph(child);
+      } else if (child.localName === 'tbl') {
+        for (const row of childElements(child, 'tr')) {
+          const cells = childElements(row, 'tc').map(cell =>
+            childElements(cell, 'p').map(paragraphText).join(' ').trim()
+          );
+          blocks.push({ kind: 'paragraph', text: cells.filter(Boolean).join(' | '), level: 0 });
+        }
+      } else if (child.localName === 'sdt' || child.localName === 'sdtContent' || child.localName === 'customXml') {
+        visitBody(child);
+      }
+    }
+  };
+
+  const body = documentXml.getElementsByTagNameNS('*', 'body')[0];
+  if (body) visitBody(body);
+
+  return buildStructuredDocument(blocks, title);
+}
@@ -0,0 +1,161 @@
+/**
+ * EPUB text extraction
+ * Follows container.xml to the package document and reads the spine's XHTML files in reading order;
+ * <h1>-<h6> become heading hints and nested <ol>/<ul> items become list hints.
+ */
+
+import { openZipArchive } from './zipArchive';
+import { ExtractedBlock, StructuredDocument, buildStructuredDocument, toLetters, toRoman } from './structuredText';
+
+export const isEpubFile = (file: File) => file.type === 'application/epub+zip' || /\.epub$/i.test(file.name);
+
+// Elements whose text forms one paragraph
+const PARAGRAPH_ELEMENTS = new Set(['p', 'pre', 'blockquote', 'dt', 'dd', 'caption', 'figcaption', 'tr', 'address']);
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'head', 'nav', 'aside', 'template']);
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const parseMarkup = (markup: string, type: DOMParserSupportedType): Document => {
+  const doc = new DOMParser().parseFromString(markup, type);
+  // Many EPUBs ship XHTML that is not well-formed; fall back to the forgiving HTML parser
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    return new DOMParser().parseFromString(markup, 'text/html');
+  }
+  return doc;
+};
+
+const listLabel = (list: Element, position: number): string | undefined => {
+  if (list.localName !== 'ol') return undefined;
+  const value = Number(list.getAttribute('start') || 1) + position;
+  switch (list.getAttribute('type')) {
+    case 'a': return `(${toLetters(value)})`;
+    case 'A': return `(${toLetters(value).toUpperCase()})`;
+    case 'i': return `(${toRoman(value)})`;
+    case 'I': return `(${toRoman(value).toUpperCase()})`;
+    default: return `${value}.`;
+  }
+};
+
+/**
+ * Turn one XHTML content document into blocks
+ */
+const collectBlocks = (root: Element, blocks: ExtractedBlock[]) => {
+  let inline = '';
+  const flushInline = () => {
+    if (inline.trim()) blocks.push({ kind: 'paragraph', text: inline, level: 0 });
+    inline = '';
+  };
+
+  const visit = (node: Node, listDepth: number) => {
+    if (node.nodeType === 3) {
+      inline += node.textContent;
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const element = node as Element;
+    const name = element.localName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(name)) return;
+
+    const heading = name.match(/^h([1-6])$/);
+    if (heading) {
+      flushInline();
+      blocks.push({ kind: 'heading', text: element.textContent || '', level: Number(heading[1]) });
+      return;
+    }
+
+    if (name === 'ol' || name === 'ul') {
+      flushInline();
+      Array.from(element.childNodes)
+        .filter((child): child is Element => child.nodeType === 1 && (child as Element).localName.toLowerCase() === 'li')
+        .forEach((item, position) => {
+          // The item's own text, then any nested lists one level deeper
+          const ownText = Array.from(item.childNodes)
+            .filter(child => !(child.nodeType === 1 && /^(ol|ul)$/i.test((child as Element).localName)))
+            .map(child => child.textContent || '')
+            .join('');
+          blocks.push({ kind: 'list_item', text: ownText, level: listDepth + 1, label: listLabel(element, position) });
+          Array.from(item.childNodes)
+            .filter(child => child.nodeType === 1 && /^(ol|ul)$/i.test((child as Element).localName))
+            .forEach(child => visit(child, listDepth + 1));
+        });
+      return;
+    }
+
+    if (PARAGRAPH_ELEMENTS.has(name)) {
+      flushInline();
+      blocks.push({ kind: 'paragraph', text: element.textContent || '', level: 0 });
+      return;
+    }
+
+    if (name === 'br') {
+      inline += ' ';
+      return;
+    }
+
+    // Containers (div, section, body, ...) split paragraphs around their children
+    const isInline = /^(a|abbr|b|cite|code|em|i|small|span|strong|sub|sup|u|q|time|mark|s)$/.test(name);
+    if (!isInline) flushInline();
+    Array.from(element.childNodes).forEach(child => visit(child, listDepth));
+    if (!isInline) flushInline();
+  };
+
+  visit(root, 0);
+  flushInline();
+};
+
+/**
+ * Extract text, viewer HTML and heading/list hints from an .epub file
+ */
+export async function extractEpub(data: ArrayBuffer): Promise<StructuredDocument> {
+  const archive = openZipArchive(data);
+  const container = await archive.readText('META-INF/container.xml');
+  const rootfilePath = container
+    ? parseMarkup(container, 'application/xml').getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path')
+    : null;
+  if (!rootfilePath) {
+    throw new Error('Not an EPUB (META-INF/container.xml has no rootfile)');
+  }
+
+  const packageXml = await archive.readText(rootfilePath);
+  if (!packageXml) {
+    throw new Error(`EPUB package document missing: ${rootfilePath}`);
+  }
+  const opf = parseMarkup(packageXml, 'application/xml');
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of Array.from(opf.getElementsByTagNameNS('*', 'item'))) {
+    manifest.set(item.getAttribute('id') || '', {
+      href: item.getAttribute('href') || '',
+      mediaType: item.getAttribute('media-type') || '',
+    });
+  }
+
+  const title = opf.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || undefined;
+  const blocks: ExtractedBlock[] = [];
+
+  for (const itemref of Array.from(opf.getElementsByTagNameNS('*', 'itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || !/html/.test(item.mediaType)) continue;
+
+    const markup = await archive.readText(resolvePath(rootfilePath, item.href));
+    if (!markup) continue;
+
+    const doc = parseMarkup(markup, item.mediaType === 'text/html' ? 'text/html' : 'application/xhtml+xml');
+    const body = doc.getElementsByTagNameNS('*', 'body')[0] ?? doc.documentElement;
+    collectBlocks(body, blocks);
+  }
+
+  if (blocks.length === 0) {
+    throw new Error('EPUB has no readable content documents');
+  }
+
+  return buildStructuredDocument(blocks, title);
+}
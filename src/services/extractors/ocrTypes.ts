@@ -0,0 +1,29 @@
+/**
+ * OCR types and thresholds shared with the UI
+ * Kept apart from pdfOcr.ts, which pulls in Tesseract and is only loaded when a scanned page is found.
+ */
+
+import type { PdfPageText } from '@/services/pdf/PdfTextMatcher';
+
+// Pages below this mean word confidence (0-100) are flagged for review
+export const OCR_LOW_CONFIDENCE = 70;
+
+export interface OcrPageStatus {
+  pageNumber: number;
+  state: 'pending' | 'recognizing' | 'done' | 'failed';
+  progress: number;
+  confidence?: number;
+}
+
+/** Per-page OCR status while a document is being recognised */
+export interface OcrProgress {
+  totalPages: number;
+  pages: OcrPageStatus[];
+}
+
+/** Recognised page text; word boxes are fractions of the page, like pdf.js text items */
+export interface OcrPageResult extends PdfPageText {
+  text: string;
+  confidence: number;
+  lowConfidence: boolean;
+}
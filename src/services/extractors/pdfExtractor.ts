@@ -0,0 +1,91 @@
+/**
+ * PDF text extraction using pdf.js
+ * Shared by the analysis pipeline and providers that cannot take the PDF file directly.
+ * Scanned pages without a text layer can be read with the OCR fallback (./pdfOcr).
+ */
+
+import type { PDFWorker } from 'pdfjs-dist';
+import type { OcrPageResult, OcrProgress } from './ocrTypes';
+
+// One pdf.js worker shared by every extraction; documents are destroyed after use, the worker is kept
+let pdfWorker: PDFWorker | null = null;
+
+export interface PdfExtractionOptions {
+  /** Recognise image-only pages with OCR */
+  ocr?: boolean;
+  onOcrProgress?: (progress: OcrProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface PdfExtraction {
+  /** One line per page */
+  text: string;
+  /** Text of each page, in page order */
+  pages: string[];
+  pageCount: number;
+  /** Pages whose text came from OCR */
+  ocrPages: OcrPageResult[];
+}
+
+/**
+ * Extract the text layer of every page, one line per page
+ */
+export async function extractTextFromPdf(data: ArrayBuffer): Promise<string> {
+  return (await extractPdf(data)).text;
+}
+
+/**
+ * Extract every page's text, falling back to OCR for scanned pages when enabled
+ */
+export async function extractPdf(data: ArrayBuffer, options: PdfExtractionOptions = {}): Promise<PdfExtraction> {
+  // Dynamic import for better bundle splitting
+  const pdfjsLib = await import('pdfjs-dist');
+
+  // Passed per document rather than through GlobalWorkerOptions, which the viewer configures separately
+  pdfWorker ??= pdfjsLib.PDFWorker.create({
+    port: new Worker(new URL('pdfjs-dist/build/pdf.worker.mjs', import.meta.url), { type: 'module' }),
+  });
+
+  // pdf.js transfers the buffer to the worker, so hand it a copy
+  const pdf = await pdfjsLib.getDocument({
+    data: data.slice(0),
+    worker: pdfWorker,
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const pageTexts: string[] = [];
+    const scannedPages: number[] = [];
+    // The OCR module is loaded lazily; its WASM engine is only fetched once a scanned page is found
+    let ocr: typeof import('./pdfOcr') | null = null;
+
+    for (let i = 1; i <= pdf.numPages; i++) {
+      options.signal?.throwIfAborted();
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const pageText = (textContent.items as any[])
+        .map((item: any) => item.str)
+        .join(' ');
+      pageTexts.push(pageText);
+
+      if (options.ocr) {
+        ocr ??= await import('./pdfOcr');
+        if (await ocr.isImageOnlyPage(page, pageText)) scannedPages.push(i);
+      }
+    }
+
+    let ocrPages: OcrPageResult[] = [];
+    if (ocr && scannedPages.length > 0) {
+      console.log(`[DEBUG] PdfExtractor - ${scannedPages.length} of ${pdf.numPages} pages have no text layer, running OCR`);
+      ocrPages = await ocr.recognizePdfPages(pdf, scannedPages, options.onOcrProgress, options.signal);
+      ocrPages.forEach(result => {
+        pageTexts[result.pageNumber - 1] = result.text.replace(/\s+/g, ' ');
+      });
+    }
+
+    return { text: pageTexts.map(pageText => pageText + '\n').join(''), pages: pageTexts, pageCount: pdf.numPages, ocrPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
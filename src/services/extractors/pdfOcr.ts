@@ -0,0 +1,136 @@
+/**
+ * OCR fallback for scanned PDF pages
+ * Pages without a usable text layer are rendered to a canvas and recognised with Tesseract (WASM) in a
+ * web worker. The worker, engine builds and language data are served by the app itself (see
+ * vite.config.ts), so OCR runs offline; VITE_OCR_LANG_PATH points language data elsewhere.
+ */
+
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+import { OPS } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import { OCR_LANGUAGE, OCR_LANG_PATH } from '@/config/api';
+import type { PdfTextItem } from '@/services/pdf/PdfTextMatcher';
+import { OCR_LOW_CONFIDENCE, OcrPageResult, OcrPageStatus, OcrProgress } from './ocrTypes';
+
+// Directory of tesseract.js-core builds; tesseract.js picks SIMD or not from what the browser supports
+const OCR_CORE_PATH = `${import.meta.env.BASE_URL}tesseract-core`;
+
+// Render scale for recognition: 3 x 72dpi, close to the 300dpi Tesseract is tuned for
+const OCR_RENDER_SCALE = 3;
+// A page with fewer text-layer characters than this and an image on it is treated as scanned
+const MIN_PAGE_TEXT_CHARS = 20;
+
+const IMAGE_OPS = new Set<number>([
+  OPS.paintImageXObject,
+  OPS.paintImageXObjectRepeat,
+  OPS.paintInlineImageXObject,
+  OPS.paintInlineImageXObjectGroup,
+  OPS.paintImageMaskXObject,
+  OPS.paintImageMaskXObjectGroup,
+  OPS.paintImageMaskXObjectRepeat,
+]);
+
+/**
+ * Whether a page needs OCR: (almost) no text layer, but something painted as an image
+ */
+export async function isImageOnlyPage(page: PDFPageProxy, pageText: string): Promise<boolean> {
+  if (pageText.replace(/\s/g, '').length >= MIN_PAGE_TEXT_CHARS) return false;
+  const { fnArray } = await page.getOperatorList();
+  return fnArray.some(op => IMAGE_OPS.has(op));
+}
+
+/**
+ * Recognise the given pages one at a time, reporting per-page progress.
+ * Pages that fail are reported and skipped; aborting the signal stops the worker.
+ */
+export async function recognizePdfPages(
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  onProgress?: (progress: OcrProgress) => void,
+  signal?: AbortSignal
+): Promise<OcrPageResult[]> {
+  const statuses: OcrPageStatus[] = pageNumbers.map(pageNumber => ({ pageNumber, state: 'pending', progress: 0 }));
+  let current = -1;
+
+  const report = (index: number, update: Partial<OcrPageStatus>) => {
+    statuses[index] = { ...statuses[index], ...update };
+    onProgress?.({ totalPages: pdf.numPages, pages: [...statuses] });
+  };
+
+  const worker = await createWorker(OCR_LANGUAGE, OEM.LSTM_ONLY, {
+    workerPath,
+    // The worker runs from a blob URL, so both paths must be absolute
+    corePath: new URL(OCR_CORE_PATH, window.location.href).href,
+    langPath: new URL(OCR_LANG_PATH, window.location.href).href,
+    logger: (message) => {
+      if (current >= 0 && message.status === 'recognizing text') {
+        report(current, { progress: message.progress });
+      }
+    },
+  });
+  const stop = () => void worker.terminate();
+  signal?.addEventListener('abort', stop);
+
+  const results: OcrPageResult[] = [];
+  try {
+    onProgress?.({ totalPages: pdf.numPages, pages: [...statuses] });
+    for (let index = 0; index < pageNumbers.length; index++) {
+      signal?.throwIfAborted();
+      current = index;
+      report(index, { state: 'recognizing' });
+
+      try {
+        const result = await recognizePage(worker, await pdf.getPage(pageNumbers[index]));
+        results.push(result);
+        report(index, { state: 'done', progress: 1, confidence: result.confidence });
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(`[DEBUG] PdfOcr - Page ${pageNumbers[index]} failed:`, error);
+        report(index, { state: 'failed' });
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    if (!signal?.aborted) await worker.terminate();
+  }
+
+  const averageConfidence = results.reduce((sum, result) => sum + result.confidence, 0) / Math.max(1, results.length);
+  console.log(`[DEBUG] PdfOcr - Recognised ${results.length} of ${pageNumbers.length} pages, average confidence ${averageConfidence.toFixed(0)}`);
+  return results;
+}
+
+async function recognizePage(worker: Worker, page: PDFPageProxy): Promise<OcrPageResult> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  try {
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport, canvas }).promise;
+    const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+    const items: PdfTextItem[] = [];
+    data.blocks?.forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line =>
+      line.words.forEach(word => items.push({
+        str: word.text,
+        left: word.bbox.x0 / canvas.width,
+        top: word.bbox.y0 / canvas.height,
+        width: (word.bbox.x1 - word.bbox.x0) / canvas.width,
+        height: (word.bbox.y1 - word.bbox.y0) / canvas.height,
+      }))
+    )));
+
+    return {
+      pageNumber: page.pageNumber,
+      items,
+      text: data.text.trim(),
+      confidence: data.confidence,
+      lowConfidence: data.confidence < OCR_LOW_CONFIDENCE,
+    };
+  } finally {
+    // Release the bitmap right away; scans are large at this scale
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
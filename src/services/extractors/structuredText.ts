@@ -0,0 +1,95 @@
+/**
+ * Block model shared by the DOCX and EPUB extractors
+ * Extractors emit headings, paragraphs and list items; this turns them into the plain text the
+ * analysis pipeline reads, HTML for the viewer and structure hints for the parsers.
+ */
+
+export interface ExtractedBlock {
+  kind: 'heading' | 'paragraph' | 'list_item';
+  text: string;
+  /** Heading level (1 = top) or list nesting level (1 = outermost); 0 for paragraphs */
+  level: number;
+  /** Rendered list number such as "(a)" or "12." */
+  label?: string;
+}
+
+/**
+ * Structure the source format marked up explicitly (heading styles, list levels)
+ */
+export interface StructureHint {
+  kind: 'heading' | 'list_item';
+  level: number;
+  /** Text as it appears in the extracted plain text, label included */
+  text: string;
+  label?: string;
+}
+
+export interface StructuredDocument {
+  title?: string;
+  text: string;
+  html: string;
+  hints: StructureHint[];
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+export const toRoman = (value: number) => {
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+};
+
+// 1 -> a, 26 -> z, 27 -> aa, 28 -> bb (Word's letter numbering repeats the letter)
+export const toLetters = (value: number) => {
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const blockText = (block: ExtractedBlock) =>
+  [block.label, block.text].filter(Boolean).join(' ');
+
+export function buildStructuredDocument(blocks: ExtractedBlock[], title?: string): StructuredDocument {
+  const visible = blocks
+    .map(block => ({ ...block, text: block.text.replace(/\s+/g, ' ').trim() }))
+    .filter(block => block.text || block.label);
+
+  const html = visible.map(block => {
+    const content = escapeHtml(blockText(block));
+    if (block.kind === 'heading') {
+      const tag = `h${Math.min(Math.max(block.level, 1), 6)}`;
+      return `<${tag}>${content}</${tag}>`;
+    }
+    if (block.kind === 'list_item') {
+      return `<p data-list-level="${block.level}" style="margin-left: ${(block.level - 1) * 1.5}em">${content}</p>`;
+    }
+    return `<p>${content}</p>`;
+  }).join('\n');
+
+  const hints: StructureHint[] = visible
+    .filter(block => block.kind !== 'paragraph')
+    .map(block => ({
+      kind: block.kind as StructureHint['kind'],
+      level: block.level,
+      text: blockText(block),
+      label: block.label,
+    }));
+
+  return {
+    title,
+    text: visible.map(blockText).join('\n'),
+    html,
+    hints,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * URL ingestion
+ * Fetches a page once (directly or through the configured proxy), routes PDFs to the PDF path and
+ * reduces HTML pages to their main article content, readability-style, sanitised for the viewer.
+ * The viewer and the analysis pipeline read the same result.
+ */
+
+import { Readability } from '@mozilla/readability';
+import DOMPurify from 'dompurify';
+import { URL_FETCH_PROXY } from '@/config/api';
+
+export type UrlDocument =
+  | { kind: 'pdf'; url: string; fileName: string; data: ArrayBuffer }
+  | { kind: 'html'; url: string; fileName: string; title: string; html: string; text: string }
+  | { kind: 'text'; url: string; fileName: string; text: string };
+
+// Recently fetched URLs, so the plan preview, viewer and analysis share one download
+const MAX_CACHED_URLS = 5;
+const fetchedUrls = new Map<string, Promise<UrlDocument>>();
+
+// Block-level elements that end a line in the extracted text
+const TEXT_BLOCKS = 'p, li, dt, dd, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, div, section, article, br';
+
+/**
+ * Fetch and extract a URL; repeated calls for the same URL reuse the first download
+ */
+export function fetchUrlDocument(url: string): Promise<UrlDocument> {
+  const key = url.trim();
+  const cached = fetchedUrls.get(key);
+  if (cached) return cached;
+
+  const request = loadUrlDocument(key).catch((error) => {
+    fetchedUrls.delete(key);
+    throw error;
+  });
+
+  fetchedUrls.set(key, request);
+  if (fetchedUrls.size > MAX_CACHED_URLS) {
+    fetchedUrls.delete(fetchedUrls.keys().next().value);
+  }
+  return request;
+}
+
+/**
+ * Request URL for a page: the proxy template ("{url}" placeholder, or the URL appended), or the page itself
+ */
+export function buildFetchUrl(url: string, proxy: string = URL_FETCH_PROXY): string {
+  if (!proxy) return url;
+  const encoded = encodeURIComponent(url);
+  return proxy.includes('{url}') ? proxy.replace('{url}', encoded) : `${proxy}${encoded}`;
+}
+
+async function loadUrlDocument(url: string): Promise<UrlDocument> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs are supported (got ${parsed.protocol})`);
+  }
+
+  const fileName = decodeURIComponent(parsed.pathname.split('/').filter(Boolean).pop() || parsed.hostname);
+
+  let response: Response;
+  try {
+    response = await fetch(buildFetchUrl(url), {
+      headers: { 'Accept': 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.8' },
+    });
+  } catch (error) {
+    const hint = URL_FETCH_PROXY ? '' : ' (the site may block cross-origin requests; set VITE_URL_PROXY)';
+    throw new Error(`Failed to fetch document from URL: ${error instanceof Error ? error.message : 'Network error'}${hint}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document from URL: HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type')?.toLowerCase() ?? '';
+  const body = await response.arrayBuffer();
+
+  if (isPdf(contentType, body)) {
+    console.log(`[DEBUG] UrlExtractor - Routing ${url} to the PDF extractor`);
+    return { kind: 'pdf', url, fileName: /\.pdf$/i.test(fileName) ? fileName : `${fileName}.pdf`, data: body };
+  }
+
+  const markup = new TextDecoder(charsetOf(contentType)).decode(body);
+  if (contentType.startsWith('text/plain')) {
+    return { kind: 'text', url, fileName, text: markup };
+  }
+
+  const article = extractArticle(markup, url);
+  console.log(`[DEBUG] UrlExtractor - Extracted ${article.text.length} characters from ${url}`);
+  return { kind: 'html', url, fileName, ...article };
+}
+
+const isPdf = (contentType: string, body: ArrayBuffer) => {
+  if (contentType.includes('application/pdf')) return true;
+  // Servers often label downloads application/octet-stream; trust the file signature
+  const signature = new TextDecoder().decode(new Uint8Array(body, 0, Math.min(5, body.byteLength)));
+  return signature === '%PDF-';
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const charsetOf = (contentType: string) => {
+  const charset = contentType.match(/charset=["']?([\w-]+)/)?.[1];
+  try {
+    return charset ? new TextDecoder(charset).encoding : 'utf-8';
+  } catch {
+    return 'utf-8';
+  }
+};
+
+/**
+ * Main content of an HTML page, sanitised, plus the plain text analysis reads
+ */
+function extractArticle(markup: string, url: string): { title: string; html: string; text: string } {
+  const doc = new DOMParser().parseFromString(markup, 'text/html');
+  // Relative links and images resolve against the page, not this app
+  const base = doc.createElement('base');
+  base.href = url;
+  doc.head.prepend(base);
+
+  // Readability rewrites the document it reads, so it gets a copy and the fallback keeps the original
+  const article = new Readability(doc.cloneNode(true) as Document, { charThreshold: 200 }).parse();
+  // Readability gives up on pages without a clear article (e.g. some statute portals); keep the whole body
+  const content = article?.content || doc.body?.innerHTML || '';
+  const title = (article?.title || doc.title || url).trim();
+
+  const html = DOMPurify.sanitize(content, {
+    FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select', 'iframe', 'object', 'embed'],
+    FORBID_ATTR: ['style'],
+  });
+  const bodyText = htmlToText(html);
+
+  return {
+    title,
+    html: `<h1>${escapeHtml(title)}</h1>\n${html}`,
+    text: bodyText.startsWith(title) ? bodyText : `${title}\n${bodyText}`,
+  };
+}
+
+/**
+ * Text of sanitised HTML with one line per block element
+ */
+function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.body.querySelectorAll(TEXT_BLOCKS).forEach(element => element.append('\n'));
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
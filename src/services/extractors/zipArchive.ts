@@ -0,0 +1,102 @@
+/**
+ * Minimal ZIP reader for DOCX and EPUB packages
+ * Reads the central directory and inflates entries with the browser's DecompressionStream,
+ * so no archive library is needed. ZIP64 and encrypted entries are not supported.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  /** Entry paths in archive order */
+  names: string[];
+  has: (path: string) => boolean;
+  readBytes: (path: string) => Promise<Uint8Array | null>;
+  readText: (path: string) => Promise<string | null>;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+};
+
+/**
+ * Index a ZIP archive; entries are decompressed on demand
+ */
+export function openZipArchive(data: ArrayBuffer): ZipArchive {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder('utf-8');
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (!(flags & 1)) {
+      entries.set(name, {
+        name,
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true),
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readBytes = async (path: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(path.replace(/^\/+/, ''));
+    if (!entry) return null;
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+    }
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const raw = bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) return inflateRaw(raw);
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+  };
+
+  return {
+    names: [...entries.keys()],
+    has: (path) => entries.has(path.replace(/^\/+/, '')),
+    readBytes,
+    readText: async (path) => {
+      const content = await readBytes(path);
+      return content ? decoder.decode(content) : null;
+    },
+  };
+}
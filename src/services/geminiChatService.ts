@@ -1,5 +1,10 @@
 import { GoogleGenAI, createUserContent, createPartFromUri } from '@google/genai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage } from '@langchain/core/messages';
 import { GEMINI_API_KEY } from '@/config/api';
+import { resolveProvider, LLMProvider } from '@/services/llm';
+import { extractTextFromPdf } from './extractors/pdfExtractor';
+import type { DocumentFileType } from '@/store/regulationStore';
 
 export interface ChatMessage {
   id: string;
@@ -15,17 +20,33 @@ export interface ChatMessage {
 
 export interface DocumentContext {
   content: string | ArrayBuffer;
-  type: 'pdf' | 'html' | 'text' | 'url';
+  type: DocumentFileType;
   fileName?: string;
 }
 
+/**
+ * Document chat service. Gemini gets the original PDF through its File API;
+ * other providers receive the extracted text inline in the prompt.
+ */
 export class GeminiChatService {
-  private ai: GoogleGenAI;
+  private ai: GoogleGenAI | null = null;
+  private provider: LLMProvider;
+  private model: string;
+  private chatModel: BaseChatModel | null = null;
   private currentDocument: DocumentContext | null = null;
   private uploadedFile: any = null;
+  private extractedText: string | null = null;
 
   constructor() {
-    this.ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+    const { provider, model } = resolveProvider('chat');
+    this.provider = provider;
+    this.model = model;
+
+    if (provider.supportsFileUpload) {
+      this.ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+    } else {
+      this.chatModel = provider.createChatModel({ model, streaming: false });
+    }
   }
 
   /**
@@ -33,9 +54,21 @@ export class GeminiChatService {
    */
   async setDocumentContext(document: DocumentContext): Promise<void> {
     this.currentDocument = document;
+    this.extractedText = null;
+
+    // Providers without file input get the PDF text layer instead
+    if (!this.ai && document.type === 'pdf' && document.content instanceof ArrayBuffer) {
+      try {
+        this.extractedText = await extractTextFromPdf(document.content);
+      } catch (error) {
+        console.error('Error extracting PDF text for chat:', error);
+        throw new Error('Failed to read PDF file for analysis.');
+      }
+      return;
+    }
     
     // If it's a PDF, upload it using the File API
-    if (document.type === 'pdf' && document.content instanceof ArrayBuffer) {
+    if (this.ai && document.type === 'pdf' && document.content instanceof ArrayBuffer) {
       try {
         // Create a File object from the ArrayBuffer
         const uint8Array = new Uint8Array(document.content);
@@ -77,7 +110,7 @@ export class GeminiChatService {
    */
   async clearDocumentContext(): Promise<void> {
     // Delete uploaded file if it exists
-    if (this.uploadedFile) {
+    if (this.uploadedFile && this.ai) {
       try {
         await this.ai.files.delete({ name: this.uploadedFile.name });
         console.log('Uploaded file deleted:', this.uploadedFile.name);
@@ -88,6 +121,7 @@ export class GeminiChatService {
     }
     
     this.currentDocument = null;
+    this.extractedText = null;
   }
 
   /**
@@ -99,29 +133,10 @@ export class GeminiChatService {
     }
 
     try {
-      let prompt = this.buildPrompt(message);
-      let contents: any;
-
-      if (this.currentDocument.type === 'pdf' && this.uploadedFile) {
-        // For PDF files with uploaded file
-        contents = createUserContent([
-          createPartFromUri(this.uploadedFile.uri, this.uploadedFile.mimeType),
-          prompt
-        ]);
-      } else {
-        // For text-based content
-        contents = createUserContent([prompt]);
-      }
-
-      // Generate content using the new SDK
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-lite',
-        contents: contents,
-      });
-      
-      return response.text;
+      const prompt = this.buildPrompt(message);
+      return await this.generate(prompt);
     } catch (error) {
-      console.error('Error sending message to Gemini AI:', error);
+      console.error(`Error sending message to ${this.provider.label}:`, error);
       throw new Error('Failed to get response from AI. Please try again.');
     }
   }
@@ -135,10 +150,22 @@ export class GeminiChatService {
     }
 
     try {
-      let prompt = this.buildSummaryPrompt();
+      const prompt = this.buildSummaryPrompt();
+      return await this.generate(prompt);
+    } catch (error) {
+      console.error('Error getting document summary:', error);
+      throw new Error('Failed to generate document summary. Please try again.');
+    }
+  }
+
+  /**
+   * Run a single prompt against the configured chat provider
+   */
+  private async generate(prompt: string): Promise<string> {
+    if (this.ai) {
       let contents: any;
 
-      if (this.currentDocument.type === 'pdf' && this.uploadedFile) {
+      if (this.currentDocument!.type === 'pdf' && this.uploadedFile) {
         // For PDF files with uploaded file
         contents = createUserContent([
           createPartFromUri(this.uploadedFile.uri, this.uploadedFile.mimeType),
@@ -149,17 +176,29 @@ export class GeminiChatService {
         contents = createUserContent([prompt]);
       }
 
-      // Generate content using the new SDK
       const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-lite',
+        model: this.model,
         contents: contents,
       });
-      
+
       return response.text;
-    } catch (error) {
-      console.error('Error getting document summary:', error);
-      throw new Error('Failed to generate document summary. Please try again.');
     }
+
+    const response = await this.chatModel!.invoke([new HumanMessage(prompt)]);
+    return typeof response.content === 'string'
+      ? response.content
+      : response.content.map(part => ('text' in part ? part.text : '')).join('');
+  }
+
+  /**
+   * Document text to inline in prompts (everything except uploaded PDFs)
+   */
+  private getInlineContent(): string | null {
+    if (this.extractedText !== null) return this.extractedText;
+    if (this.currentDocument!.type !== 'pdf' && typeof this.currentDocument!.content === 'string') {
+      return this.currentDocument!.content;
+    }
+    return null;
   }
 
   /**
@@ -173,11 +212,12 @@ Document Information:
 - File Name: ${this.currentDocument!.fileName || 'Unknown'}`;
 
     let contentSection = '';
-    if (this.currentDocument!.type !== 'pdf' && typeof this.currentDocument!.content === 'string') {
+    const inlineContent = this.getInlineContent();
+    if (inlineContent !== null) {
       contentSection = `
 
 Document Content:
-${this.currentDocument!.content}`;
+${inlineContent}`;
     }
 
     return `${basePrompt}${contentSection}
@@ -207,12 +247,13 @@ Document Information:
 - File Type: ${this.currentDocument!.type.toUpperCase()}
 - File Name: ${this.currentDocument!.fileName || 'Unknown'}`;
 
-    // Add document content for non-PDF files
-    if (this.currentDocument!.type !== 'pdf' && typeof this.currentDocument!.content === 'string') {
+    // Add document content unless the PDF was uploaded as a file
+    const inlineContent = this.getInlineContent();
+    if (inlineContent !== null) {
       prompt += `
 
 Document Content:
-${this.currentDocument!.content}`;
+${inlineContent}`;
     }
 
     prompt += `
@@ -0,0 +1,49 @@
+/**
+ * LLM provider registry
+ * Resolves which provider and model to use for each task (structure extraction vs. chat)
+ */
+
+import { LLM_TASK_CONFIG } from '@/config/api';
+import { geminiProvider } from './providers/gemini';
+import { openaiCompatibleProvider } from './providers/openaiCompatible';
+import { ollamaProvider } from './providers/ollama';
+import { LLMProvider, LLMProviderId, LLMTask, ResolvedProvider } from './types';
+
+export type { LLMProvider, LLMProviderId, LLMTask, ResolvedProvider, ChatModelOptions } from './types';
+export type { JsonSchema } from './responseSchema';
+export { getDocumentResponseSchema, resolveOutputMode } from './responseSchema';
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiCompatibleProvider,
+  ollama: ollamaProvider,
+};
+
+export const isLLMProviderId = (value: string): value is LLMProviderId =>
+  Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+
+/**
+ * Resolve the provider and model configured for a task.
+ * An explicit override wins over the environment configuration.
+ */
+export const resolveProvider = (
+  task: LLMTask,
+  override?: { provider?: LLMProviderId; model?: string }
+): ResolvedProvider => {
+  const configured = LLM_TASK_CONFIG[task];
+  const providerId = override?.provider || configured.provider;
+
+  if (!isLLMProviderId(providerId)) {
+    throw new Error(`Unknown LLM provider "${providerId}" configured for ${task}`);
+  }
+
+  const provider = LLM_PROVIDERS[providerId];
+  const model = override?.model || (providerId === configured.provider && configured.model) || provider.defaultModels[task];
+
+  return { provider, model };
+};
+
+/**
+ * Stable identifier of a provider/model pair, e.g. "gemini:gemini-2.5-flash" (used in cache keys)
+ */
+export const getModelKey = ({ provider, model }: ResolvedProvider): string => `${provider.id}:${model}`;
@@ -0,0 +1,49 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { GEMINI_API_KEY } from '@/config/api';
+import { LLMProvider } from '../types';
+import { JsonSchema } from '../responseSchema';
+
+// Gemini's response schema is an OpenAPI subset without additionalProperties
+const toGeminiSchema = ({ additionalProperties: _closed, properties, items, ...rest }: JsonSchema): object => ({
+  ...rest,
+  ...(properties ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)])) } : {}),
+  ...(items ? { items: toGeminiSchema(items) } : {}),
+});
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModels: {
+    extraction: 'gemini-2.5-flash',
+    chat: 'gemini-2.5-flash-lite',
+  },
+  supportsFileUpload: true,
+  isConfigured: () => Boolean(GEMINI_API_KEY),
+  createChatModel: (options = {}) => new ChatGoogleGenerativeAI({
+    apiKey: GEMINI_API_KEY,
+    model: options.model || geminiProvider.defaultModels.extraction,
+    temperature: options.temperature ?? 0.1,
+    streaming: options.streaming ?? true,
+    maxRetries: options.maxRetries,
+    safetySettings: [
+      {
+        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+      },
+    ],
+  }),
+  responseSchemaOptions: (schema) => ({ responseSchema: toGeminiSchema(schema) }),
+};
@@ -0,0 +1,29 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { OLLAMA_BASE_URL } from '@/config/api';
+import { LLMProvider } from '../types';
+
+/**
+ * Local Ollama server, reached through its OpenAI-compatible `/v1` API.
+ * Documents never leave the machine running the model.
+ */
+export const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModels: {
+    extraction: 'llama3.1:8b',
+    chat: 'llama3.1:8b',
+  },
+  supportsFileUpload: false,
+  isConfigured: () => Boolean(OLLAMA_BASE_URL),
+  createChatModel: (options = {}) => new ChatOpenAI({
+    // Ollama ignores the key but the client requires one
+    apiKey: 'ollama',
+    model: options.model || ollamaProvider.defaultModels.extraction,
+    temperature: options.temperature ?? 0.1,
+    streaming: options.streaming ?? true,
+    maxRetries: options.maxRetries,
+    configuration: {
+      baseURL: `${OLLAMA_BASE_URL.replace(/\/+$/, '')}/v1`,
+    },
+  }),
+};
@@ -0,0 +1,35 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { OPENAI_API_KEY, OPENAI_BASE_URL } from '@/config/api';
+import { LLMProvider } from '../types';
+
+const isOfficialEndpoint = (baseUrl: string) => /api\.openai\.com/i.test(baseUrl);
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API: OpenAI itself,
+ * self-hosted gateways, vLLM or a llama.cpp server started with --api.
+ */
+export const openaiCompatibleProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModels: {
+    extraction: 'gpt-4o-mini',
+    chat: 'gpt-4o-mini',
+  },
+  supportsFileUpload: false,
+  // Self-hosted endpoints commonly run without authentication
+  isConfigured: () => Boolean(OPENAI_API_KEY) || !isOfficialEndpoint(OPENAI_BASE_URL),
+  createChatModel: (options = {}) => new ChatOpenAI({
+    apiKey: OPENAI_API_KEY || 'not-needed',
+    model: options.model || openaiCompatibleProvider.defaultModels.extraction,
+    temperature: options.temperature ?? 0.1,
+    streaming: options.streaming ?? true,
+    maxRetries: options.maxRetries,
+    configuration: {
+      baseURL: OPENAI_BASE_URL,
+    },
+  }),
+  // Self-hosted servers differ in their support for json_schema response formats
+  responseSchemaOptions: isOfficialEndpoint(OPENAI_BASE_URL)
+    ? (schema) => ({ response_format: { type: 'json_schema', json_schema: { name: 'document_data', strict: true, schema } } })
+    : undefined,
+};
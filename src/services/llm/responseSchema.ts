@@ -0,0 +1,83 @@
+/**
+ * Response schema for provider-native structured output
+ * Derived from the zod schemas that validate DocumentData, keeping only the fields the model writes
+ * (spans, confidence and resolution status are added after parsing). Providers with a structured-output
+ * feature constrain the response to it; the others keep the prompt-only path.
+ */
+
+import { z } from 'zod';
+import { ExtractionOutputMode, OutputProtocol } from '@/store/regulationStore';
+import { DocumentMetadataSchema, HierarchyNodeShapeSchema } from '@/services/validation/documentSchema';
+import { LLMProvider } from './types';
+
+/**
+ * JSON Schema subset understood by every supported provider (no $ref, so recursion is unrolled)
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// Nesting levels of the hierarchy the schema allows: part > section > subsection > paragraph > ...
+export const RESPONSE_SCHEMA_DEPTH = 6;
+
+/**
+ * Convert a zod schema, leaving out optional properties
+ */
+const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(([key, value]) => {
+      if (!value.isOptional()) properties[key] = toJsonSchema(value);
+    });
+    return { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+  }
+  if (schema instanceof z.ZodArray) return { type: 'array', items: toJsonSchema(schema.element) };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodNumber) return { type: schema.isInt ? 'integer' : 'number' };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodString) return { type: 'string' };
+  throw new Error(`No response schema equivalent for ${schema.constructor.name}`);
+};
+
+const nodeSchema = (depth: number): JsonSchema => {
+  const node = toJsonSchema(HierarchyNodeShapeSchema.omit({ children: true }));
+  if (depth > 1) {
+    node.properties.children = { type: 'array', items: nodeSchema(depth - 1) };
+    node.required.push('children');
+  }
+  return node;
+};
+
+let documentSchema: JsonSchema | null = null;
+
+/**
+ * Schema of the nested JSON document: metadata plus the hierarchy, RESPONSE_SCHEMA_DEPTH levels deep
+ */
+export const getDocumentResponseSchema = (): JsonSchema => {
+  documentSchema ??= {
+    type: 'object',
+    properties: {
+      metadata: toJsonSchema(DocumentMetadataSchema),
+      hierarchy: { type: 'array', items: nodeSchema(RESPONSE_SCHEMA_DEPTH) },
+    },
+    required: ['metadata', 'hierarchy'],
+    additionalProperties: false,
+  };
+  return documentSchema;
+};
+
+/**
+ * How the model's output is constrained for a run. The schema describes one nested JSON document, so
+ * the NDJSON protocol always uses the prompt-only path.
+ */
+export const resolveOutputMode = (
+  provider: LLMProvider,
+  protocol: OutputProtocol = 'nested',
+  preferSchema = true
+): ExtractionOutputMode =>
+  preferSchema && protocol === 'nested' && provider.responseSchemaOptions ? 'schema' : 'text';
@@ -0,0 +1,117 @@
+/**
+ * Retry helpers for model requests
+ * Classifies provider errors (rate limits, overload, network) and computes exponential backoff,
+ * honouring any retry delay the provider asked for.
+ */
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface LLMErrorInfo {
+  retryable: boolean;
+  rateLimited: boolean;
+  /** Delay requested by the provider (Retry-After header or Gemini RetryInfo) */
+  retryAfterMs?: number;
+  message: string;
+}
+
+/** The fields different provider clients put on their errors */
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  status?: number | string;
+  statusCode?: number;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+  errorDetails?: unknown;
+  lc_error_code?: string;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const RATE_LIMIT_MESSAGE = /\b429\b|rate.?limit|too many requests|quota|resource.?exhausted/i;
+const TRANSIENT_MESSAGE = /\b50[0234]\b|overloaded|unavailable|timed? ?out|timeout|network|failed to fetch|fetch failed|econnreset|socket hang up/i;
+
+const parseDuration = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value * 1000;
+  if (typeof value !== 'string') return undefined;
+  // "17s", "1.5s", "250ms" or plain seconds as sent in Retry-After
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (match) return parseFloat(match[1]) * (match[2]?.toLowerCase() === 'ms' ? 1 : 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const readHeader = (headers: unknown, name: string): unknown => {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name);
+  return (headers as Record<string, unknown>)[name];
+};
+
+const findRetryAfter = (error: ErrorLike): number | undefined => {
+  const fromHeader = parseDuration(readHeader(error.headers ?? error.response?.headers, 'retry-after'));
+  if (fromHeader !== undefined) return fromHeader;
+
+  const details: unknown[] = Array.isArray(error.errorDetails) ? error.errorDetails : [];
+  for (const detail of details) {
+    const delay = parseDuration((detail as Record<string, unknown>)?.retryDelay);
+    if (delay !== undefined) return delay;
+  }
+
+  // Some clients only keep the provider's hint in the message: "Please retry in 17.2s"
+  const hinted = String(error.message ?? '').match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*(ms|s|seconds?)\b/i);
+  return hinted ? parseFloat(hinted[1]) * (hinted[2].toLowerCase() === 'ms' ? 1 : 1000) : undefined;
+};
+
+/**
+ * Decide whether a failed model request is worth retrying
+ */
+export const classifyLLMError = (error: unknown): LLMErrorInfo => {
+  const record = (typeof error === 'object' && error !== null ? error : {}) as ErrorLike;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (record.name === 'AbortError') {
+    return { retryable: false, rateLimited: false, message };
+  }
+
+  const status = Number(record.status ?? record.statusCode ?? record.response?.status);
+  const rateLimited = status === 429 || record.lc_error_code === 'MODEL_RATE_LIMIT' || RATE_LIMIT_MESSAGE.test(message);
+  const retryable = rateLimited || RETRYABLE_STATUS.has(status) || TRANSIENT_MESSAGE.test(message);
+
+  return { retryable, rateLimited, retryAfterMs: findRetryAfter(record), message };
+};
+
+/**
+ * Exponential backoff with jitter; a provider-requested delay wins when it is longer
+ */
+export const computeBackoff = (attempt: number, policy: RetryPolicy, retryAfterMs?: number): number => {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = exponential * (0.75 + Math.random() * 0.5);
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs ?? 0)));
+};
+
+export const createAbortError = () => new DOMException('Analysis stopped', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as ErrorLike).name === 'AbortError';
+
+/**
+ * Wait for the given time; rejects with an AbortError as soon as the signal fires
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,42 @@
+/**
+ * Shared types for the pluggable LLM provider layer
+ */
+
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { JsonSchema } from './responseSchema';
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * Tasks that can be routed to different providers
+ */
+export type LLMTask = 'extraction' | 'chat';
+
+export interface ChatModelOptions {
+  model?: string;
+  temperature?: number;
+  streaming?: boolean;
+  /** Client-level retries; callers with their own retry policy pass 0 */
+  maxRetries?: number;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultModels: Record<LLMTask, string>;
+  /** Whether the provider can take the original PDF as a file part (chat only) */
+  supportsFileUpload: boolean;
+  /** Whether the provider is usable with the current environment configuration */
+  isConfigured: () => boolean;
+  createChatModel: (options?: ChatModelOptions) => BaseChatModel;
+  /**
+   * Call options that make the model's structured-output feature follow a JSON schema; absent when
+   * the provider has none, in which case the output format is given by the prompt alone
+   */
+  responseSchemaOptions?: (schema: JsonSchema) => Record<string, unknown>;
+}
+
+export interface ResolvedProvider {
+  provider: LLMProvider;
+  model: string;
+}
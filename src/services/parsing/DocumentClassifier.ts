@@ -0,0 +1,213 @@
+/**
+ * Local document type and jurisdiction classifier
+ * Runs on the cleaned text before any model call, so chunking and prompt selection can adapt to the
+ * document. Heuristics only: wording of the title, enacting formulas, numbering style, jurisdiction
+ * names and a stop-word language guess, each recorded as evidence for the upload screen to show.
+ */
+
+import type { ChunkingStyle } from '@/services/streaming/DocumentChunker';
+
+export type DocumentKind = 'act' | 'regulation' | 'directive' | 'cfr-part' | 'contract' | 'policy';
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  act: 'Act',
+  regulation: 'Regulation',
+  directive: 'Directive',
+  'cfr-part': 'CFR part',
+  contract: 'Contract',
+  policy: 'Policy',
+};
+
+export interface DocumentClassification {
+  documentType: DocumentKind;
+  // null when no jurisdiction is named often enough to tell
+  jurisdiction: string | null;
+  // ISO 639-1 code of the most likely language
+  language: string;
+  // 0-1: share of the type evidence that points to documentType
+  confidence: number;
+  // Signals that were found, e.g. 'Enacting formula: "HAVE ADOPTED THIS REGULATION"'
+  evidence: string[];
+  // The user checked (and possibly corrected) the result on the upload screen
+  confirmed?: boolean;
+}
+
+interface TypeSignal {
+  kinds: DocumentKind[];
+  pattern: RegExp;
+  weight: number;
+  evidence: string;
+}
+
+// Title wording, looked for at the start of the text (cleaned text has no line breaks)
+const TITLE_SIGNALS: TypeSignal[] = [
+  { kinds: ['act'], pattern: /\b(?:ACT|Act)\b,?\s+(?:of\s+)?\d{4}\b/, weight: 3, evidence: 'Title names an Act' },
+  { kinds: ['regulation'], pattern: /\b(?:REGULATIONS|Regulations|RULES|Rules|ORDER|Order)\b,?\s+\d{4}\b/, weight: 3, evidence: 'Title names Regulations, Rules or an Order' },
+  { kinds: ['regulation'], pattern: /\bREGULATION\s+\((?:EU|EC)\)|\bRegulation\s+\((?:EU|EC)\)/, weight: 4, evidence: 'Title names an EU Regulation' },
+  { kinds: ['directive'], pattern: /\bDIRECTIVE\b|\bDirective\s+(?:\((?:EU|EC)\)\s*)?\d+\/\d+/, weight: 4, evidence: 'Title names a Directive' },
+  { kinds: ['cfr-part'], pattern: /\b\d+\s+CFR\b|Code of Federal Regulations/, weight: 4, evidence: 'Title cites the Code of Federal Regulations' },
+  { kinds: ['contract'], pattern: /\b(?:AGREEMENT|Agreement|CONTRACT|Contract|DEED|Deed)\b/, weight: 3, evidence: 'Title names an agreement or contract' },
+  { kinds: ['policy'], pattern: /\b(?:POLICY|Policy|PROCEDURES?|Procedures?|GUIDELINES|Guidelines|CODE OF (?:CONDUCT|PRACTICE)|Code of (?:Conduct|Practice))\b/, weight: 3, evidence: 'Title names a policy, procedure or guidelines' },
+];
+
+// Enacting formulas and other set phrases, looked for anywhere in the sample
+const FORMULA_SIGNALS: TypeSignal[] = [
+  { kinds: ['act'], pattern: /\bBE IT ENACTED\b|\bBe it enacted\b|\bEnacted by the Parliament\b|\bENACTED by the\b/, weight: 4, evidence: 'Enacting formula: "Be it enacted"' },
+  { kinds: ['regulation'], pattern: /\bIn exercise of the powers conferred\b|\bmakes? the following Regulations\b/i, weight: 4, evidence: 'Enabling formula: "In exercise of the powers conferred"' },
+  { kinds: ['regulation'], pattern: /\bHAVE ADOPTED THIS REGULATION\b/, weight: 5, evidence: 'Enacting formula: "HAVE ADOPTED THIS REGULATION"' },
+  { kinds: ['directive'], pattern: /\bHAVE ADOPTED THIS DIRECTIVE\b/, weight: 5, evidence: 'Enacting formula: "HAVE ADOPTED THIS DIRECTIVE"' },
+  { kinds: ['cfr-part'], pattern: /\bAuthority:\s*\d+\s+U\.S\.C\./, weight: 4, evidence: 'CFR authority note ("Authority: ... U.S.C.")' },
+  { kinds: ['cfr-part'], pattern: /\bSource:\s*\d+\s+FR\s+\d+/, weight: 3, evidence: 'CFR source note ("Source: ... FR ...")' },
+  { kinds: ['contract'], pattern: /\bIN WITNESS WHEREOF\b|\bNOW,? THEREFORE\b|\bTHIS AGREEMENT is (?:dated|made)\b|\bthe parties agree as follows\b/i, weight: 4, evidence: 'Contract formula ("Now, therefore", "In witness whereof")' },
+  { kinds: ['policy'], pattern: /\bThis (?:policy|procedure) (?:applies|sets out|describes)\b|\bPolicy owner\b|\bReview date\b/i, weight: 3, evidence: 'Policy wording ("This policy applies to", review date)' },
+];
+
+// Numbering and citation style; each match adds a little, up to a cap
+const NUMBERING_SIGNALS: TypeSignal[] = [
+  { kinds: ['act'], pattern: /\b(?:sub)?sections?\s+\d+[A-Z]?(?:\(\d+[A-Z]?\))?/gi, weight: 0.3, evidence: 'sections cited as "section 12(3)"' },
+  { kinds: ['act', 'regulation'], pattern: /\bPART\s+[IVXLC]+\b/g, weight: 0.2, evidence: 'Parts numbered in roman numerals' },
+  { kinds: ['regulation'], pattern: /\bregulations?\s+\d+(?:\(\d+\))?/g, weight: 0.3, evidence: 'provisions cited as "regulation 5(2)"' },
+  { kinds: ['regulation', 'directive'], pattern: /\bArticles?\s+\d+(?:\(\d+\))?/g, weight: 0.3, evidence: 'Articles cited as "Article 5(1)"' },
+  { kinds: ['cfr-part'], pattern: /§\s*\d+\.\d+/g, weight: 0.4, evidence: 'sections numbered "§ 240.10"' },
+  { kinds: ['contract'], pattern: /\b[Cc]lauses?\s+\d+(?:\.\d+)+/g, weight: 0.3, evidence: 'clauses cited as "clause 4.1"' },
+  { kinds: ['contract'], pattern: /\b(?:the|each|either) Part(?:y|ies)\b/g, weight: 0.2, evidence: 'mentions of "the Parties"' },
+  { kinds: ['policy'], pattern: /\b(?:employees|staff|must ensure|are responsible for)\b/g, weight: 0.1, evidence: 'mentions of staff duties ("employees", "must ensure")' },
+];
+const MAX_NUMBERING_SCORE = 3;
+
+interface JurisdictionSignal {
+  jurisdiction: string;
+  pattern: RegExp;
+}
+
+const JURISDICTION_SIGNALS: JurisdictionSignal[] = [
+  { jurisdiction: 'European Union', pattern: /\bEuropean Parliament and of the Council\b|\bOfficial Journal of the European Union\b|\b(?:Regulation|Directive)\s+\((?:EU|EC)\)|\bMember States?\b/g },
+  { jurisdiction: 'United States (Federal)', pattern: /\bU\.S\.C\.|\b\d+\s+CFR\b|\bCode of Federal Regulations\b|\bFederal Register\b|\bCongress\b/g },
+  { jurisdiction: 'United Kingdom', pattern: /\bUnited Kingdom\b|\bParliament of the United Kingdom\b|\bHis Majesty's\b|\bHer Majesty's\b/g },
+  { jurisdiction: 'England and Wales', pattern: /\bEngland and Wales\b/g },
+  { jurisdiction: 'The Bahamas', pattern: /\b(?:The|the) Bahamas\b|\bBAHAMAS\b/g },
+  { jurisdiction: 'Cayman Islands', pattern: /\bCayman Islands\b/g },
+  { jurisdiction: 'Bermuda', pattern: /\bBermuda\b/g },
+  { jurisdiction: 'Jamaica', pattern: /\bJamaica\b/g },
+  { jurisdiction: 'Ireland', pattern: /\bOireachtas\b|(?<!Northern )\bIreland\b/g },
+  { jurisdiction: 'Canada', pattern: /\bCanada\b/g },
+  { jurisdiction: 'Australia', pattern: /\bAustralia\b/g },
+  { jurisdiction: 'New Zealand', pattern: /\bNew Zealand\b/g },
+  { jurisdiction: 'Singapore', pattern: /\bSingapore\b/g },
+  { jurisdiction: 'Hong Kong', pattern: /\bHong Kong\b/g },
+  { jurisdiction: 'India', pattern: /\bIndia\b/g },
+  { jurisdiction: 'South Africa', pattern: /\bSouth Africa\b/g },
+];
+// A governing law clause names the contract's jurisdiction outright
+const GOVERNING_LAW_PATTERN = /\bgoverned by,? and (?:shall be )?construed in accordance with,? the laws? of ((?:the )?[A-Z][A-Za-z]+(?: (?:and )?[A-Z][A-Za-z]+)*)/;
+const MIN_JURISDICTION_MATCHES = 2;
+
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'shall', 'any', 'or', 'by', 'which'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'du', 'en', 'est', 'aux', 'qui'],
+  de: ['der', 'die', 'das', 'und', 'den', 'des', 'ist', 'mit', 'von', 'zu'],
+  es: ['el', 'la', 'los', 'las', 'de', 'y', 'del', 'en', 'que', 'por'],
+  it: ['il', 'la', 'di', 'e', 'che', 'del', 'della', 'per', 'gli', 'sono'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'voor', 'op', 'dat', 'zijn', 'wordt'],
+  pt: ['o', 'a', 'os', 'de', 'e', 'do', 'da', 'que', 'para', 'em'],
+};
+
+// Title region and sample the classifier reads; documents are classified from their opening pages
+const TITLE_LENGTH = 600;
+const SAMPLE_LENGTH = 30000;
+const DEFAULT_KIND: DocumentKind = 'act';
+
+export class DocumentClassifier {
+  /**
+   * Classify cleaned document text
+   */
+  classify(text: string): DocumentClassification {
+    const sample = text.slice(0, SAMPLE_LENGTH);
+    const title = sample.slice(0, TITLE_LENGTH);
+    const scores = new Map<DocumentKind, number>();
+    const evidence: string[] = [];
+
+    const add = (signal: TypeSignal, score: number, detail: string) => {
+      signal.kinds.forEach(kind => scores.set(kind, (scores.get(kind) ?? 0) + score));
+      evidence.push(detail);
+    };
+
+    TITLE_SIGNALS.forEach(signal => {
+      if (signal.pattern.test(title)) add(signal, signal.weight, signal.evidence);
+    });
+    FORMULA_SIGNALS.forEach(signal => {
+      if (signal.pattern.test(sample)) add(signal, signal.weight, signal.evidence);
+    });
+    NUMBERING_SIGNALS.forEach(signal => {
+      const count = sample.match(signal.pattern)?.length ?? 0;
+      if (count > 0) add(signal, Math.min(MAX_NUMBERING_SCORE, count * signal.weight), `${count} ${signal.evidence}`);
+    });
+
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+    const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+    const [documentType, best] = ranked[0] ?? [DEFAULT_KIND, 0];
+    const jurisdiction = this.detectJurisdiction(sample, evidence);
+
+    const classification: DocumentClassification = {
+      documentType,
+      jurisdiction,
+      language: this.detectLanguage(sample),
+      confidence: total > 0 ? Math.round((best / total) * 100) / 100 : 0,
+      evidence: evidence.length > 0 ? evidence : ['No distinctive title, formula or numbering found'],
+    };
+    console.log('[DEBUG] DocumentClassifier -', classification.documentType, classification.jurisdiction, classification.language, 'confidence', classification.confidence);
+    return classification;
+  }
+
+  /**
+   * Jurisdiction from a governing law clause, else the one named most often (at least twice)
+   */
+  private detectJurisdiction(sample: string, evidence: string[]): string | null {
+    const governingLaw = sample.match(GOVERNING_LAW_PATTERN);
+    if (governingLaw) {
+      const named = governingLaw[1].replace(/^the\s+/, '');
+      evidence.push(`Governing law clause names ${named}`);
+      return JURISDICTION_SIGNALS.find(signal => signal.jurisdiction.toLowerCase() === named.toLowerCase())?.jurisdiction ?? named;
+    }
+
+    let best: { jurisdiction: string; count: number } | null = null;
+    JURISDICTION_SIGNALS.forEach(signal => {
+      const count = sample.match(signal.pattern)?.length ?? 0;
+      if (count >= MIN_JURISDICTION_MATCHES && (!best || count > best.count)) {
+        best = { jurisdiction: signal.jurisdiction, count };
+      }
+    });
+    if (!best) return null;
+    evidence.push(`${best.jurisdiction} named ${best.count} times`);
+    return best.jurisdiction;
+  }
+
+  /**
+   * Language whose common words make up most of the sample; English when nothing stands out
+   */
+  private detectLanguage(sample: string): string {
+    const counts = new Map<string, number>();
+    sample.toLowerCase().split(/[^\p{L}]+/u).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+
+    let language = 'en';
+    let bestCount = 0;
+    Object.entries(STOP_WORDS).forEach(([code, words]) => {
+      const count = words.reduce((sum, word) => sum + (counts.get(word) ?? 0), 0);
+      if (count > bestCount) {
+        language = code;
+        bestCount = count;
+      }
+    });
+    return language;
+  }
+}
+
+/**
+ * Headings the chunker cuts at for a classified document
+ */
+export const chunkingStyleFor = ({ documentType, jurisdiction }: DocumentClassification): ChunkingStyle => {
+  if (documentType === 'cfr-part') return 'cfr';
+  if (documentType === 'contract') return 'clause';
+  if (documentType === 'directive' || (documentType === 'regulation' && jurisdiction === 'European Union')) return 'article';
+  return 'statute';
+};
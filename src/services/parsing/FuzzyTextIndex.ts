@@ -0,0 +1,121 @@
+/**
+ * Whitespace- and punctuation-insensitive text search
+ * Text is indexed as one lower-case letters-and-digits string in which every character remembers where
+ * it came from (a source offset, a DOM text node, a PDF text item). Passages are found regardless of
+ * line breaks, hyphenation or spacing and mapped back to their origin. Used by the source aligner,
+ * the PDF text matcher and the document viewer.
+ */
+
+// Inexact passages are anchored by their opening and closing words
+const ANCHOR_LENGTH = 120;
+const MIN_ANCHOR_LENGTH = 20;
+// Shorter needles match too many places to be useful
+const MIN_NEEDLE_LENGTH = 4;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/** Range [start, end) in the normalised text */
+export interface FuzzyRange {
+  start: number;
+  end: number;
+}
+
+export const normalizeForMatching = (text: string) =>
+  Array.from(text.toLowerCase()).filter(char => WORD_CHAR.test(char)).join('');
+
+export class FuzzyTextIndex<T> {
+  private chars: string[] = [];
+  private joined: string | null = null;
+  readonly origins: T[] = [];
+
+  /**
+   * Append text; originAt maps a UTF-16 offset within `text` to the origin recorded for that character
+   */
+  add(text: string, originAt: (offset: number) => T): void {
+    let offset = 0;
+    for (const char of text) {
+      if (WORD_CHAR.test(char)) {
+        const origin = originAt(offset);
+        for (const lower of char.toLowerCase()) {
+          this.chars.push(lower);
+          this.origins.push(origin);
+        }
+      }
+      offset += char.length;
+    }
+    this.joined = null;
+  }
+
+  get text(): string {
+    this.joined ??= this.chars.join('');
+    return this.joined;
+  }
+
+  get length(): number {
+    return this.chars.length;
+  }
+
+  /**
+   * Find a passage, preferring the first occurrence at or after `from` (a normalised index)
+   */
+  find(passage: string, from: number = 0): FuzzyRange | null {
+    const needle = normalizeForMatching(passage);
+    if (needle.length < MIN_NEEDLE_LENGTH) return null;
+    return this.findRange(needle, from) ?? (from > 0 ? this.findRange(needle, 0) : null);
+  }
+
+  private findRange(needle: string, from: number): FuzzyRange | null {
+    const text = this.text;
+    const exact = text.indexOf(needle, from);
+    if (exact >= 0) return { start: exact, end: exact + needle.length };
+
+    // Model output may differ from the source in places (dropped headers, repeated sentences, OCR noise):
+    // anchor on the opening words and look for the closing words within reach
+    const anchorLength = Math.min(ANCHOR_LENGTH, Math.floor(needle.length / 2));
+    if (anchorLength < MIN_ANCHOR_LENGTH) return null;
+    const start = text.indexOf(needle.slice(0, anchorLength), from);
+    if (start < 0) return null;
+
+    const tail = needle.slice(-anchorLength);
+    const tailStart = text.indexOf(tail, start + anchorLength);
+    const withinReach = tailStart >= 0 && tailStart - start <= needle.length * 1.5;
+    return {
+      start,
+      end: withinReach ? tailStart + tail.length : Math.min(start + needle.length, text.length),
+    };
+  }
+}
+
+/**
+ * Index over a plain string whose origins are character offsets into it
+ */
+export class SourceTextIndex extends FuzzyTextIndex<number> {
+  constructor(readonly source: string) {
+    super();
+    this.add(source, offset => offset);
+  }
+
+  /**
+   * Normalised index of the first indexed character at or after a source offset
+   */
+  indexAt(offset: number): number {
+    let low = 0;
+    let high = this.origins.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.origins[mid] < offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Source offsets [start, end) covered by a normalised range
+   */
+  toSourceRange(range: FuzzyRange): { start: number; end: number } {
+    const last = this.origins[range.end - 1];
+    // Include the rest of a multi-unit character (surrogate pairs)
+    const lastLength = this.source.codePointAt(last)! > 0xffff ? 2 : 1;
+    return { start: this.origins[range.start], end: last + lastLength };
+  }
+}
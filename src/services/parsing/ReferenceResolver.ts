@@ -0,0 +1,236 @@
+/**
+ * Regex-based internal cross-reference resolver
+ * Validates LLM-supplied reference targets against the hierarchy, repairs broken ones,
+ * and adds internal references the model missed ("section 39(2)(b)", "subsection (2)", "paragraph (a)").
+ */
+
+import { HierarchyNode, Reference } from '@/store/regulationStore';
+
+export interface ReferenceResolutionSummary {
+  verified: number;
+  repaired: number;
+  added: number;
+  dangling: number;
+}
+
+interface ResolvedTarget {
+  target: string;
+  confidence: number;
+}
+
+interface TextReference extends ResolvedTarget {
+  text: string;
+}
+
+type RelativeScope = 'subsection' | 'paragraph' | 'subparagraph';
+
+const LABEL_LIST = String.raw`\(\w{1,6}\)(?:\s*(?:,|and|or|to)\s*\(\w{1,6}\))*`;
+// "section 39(2)(b)", "sections 5 and 6"
+const SECTION_REFERENCE = new RegExp(String.raw`\b[Ss]ections?\s+(\d{1,3}[A-Z]?((?:\(\w{1,6}\))*)(?:\s*(?:,|and|or|to)\s*\d{1,3}[A-Z]?(?:\(\w{1,6}\))*)*)`, 'g');
+// "subsection (2)", "paragraphs (a) and (b)", "sub-paragraph (ii)"
+const RELATIVE_REFERENCE = new RegExp(String.raw`\b(subsections?|paragraphs?|sub-?paragraphs?)\s+(${LABEL_LIST})`, 'gi');
+const OF_SECTION = /^\s+of\s+section\s+(\d{1,3}[A-Z]?)\b/i;
+// "section 3 of the Central Bank Act" points at another instrument
+const EXTERNAL_SUFFIX = /^(?:\([^)]*\))*\s+of\s+the\s+(?!Act\b)[A-Z][\w’'-]*(?:\s+[A-Z(][\w’'().-]*)*\s+(?:Act|Regulations?|Rules|Order|Code)\b/;
+
+const labelsOf = (text: string) => Array.from(text.matchAll(/\((\w{1,6})\)/g), m => m[1]);
+
+export class ReferenceResolver {
+  private nodesById = new Map<string, HierarchyNode>();
+  private parents = new Map<string, HierarchyNode | null>();
+  private sectionsByNumber = new Map<string, HierarchyNode>();
+  private summary: ReferenceResolutionSummary = { verified: 0, repaired: 0, added: 0, dangling: 0 };
+
+  /**
+   * Resolve references for every node. Returns a new hierarchy; the input is not mutated.
+   */
+  resolve(hierarchy: HierarchyNode[]): { hierarchy: HierarchyNode[]; summary: ReferenceResolutionSummary } {
+    this.nodesById.clear();
+    this.parents.clear();
+    this.sectionsByNumber.clear();
+    this.summary = { verified: 0, repaired: 0, added: 0, dangling: 0 };
+
+    this.indexNodes(hierarchy, null);
+    const resolved = hierarchy.map(node => this.resolveNode(node));
+
+    return { hierarchy: resolved, summary: { ...this.summary } };
+  }
+
+  private indexNodes(nodes: HierarchyNode[], parent: HierarchyNode | null): void {
+    nodes.forEach(node => {
+      this.nodesById.set(node.id, node);
+      this.parents.set(node.id, parent);
+      if (node.type?.toLowerCase() === 'section' && node.number) {
+        const key = node.number.replace(/\.$/, '').toLowerCase();
+        if (!this.sectionsByNumber.has(key)) this.sectionsByNumber.set(key, node);
+      }
+      this.indexNodes(node.children || [], node);
+    });
+  }
+
+  private resolveNode(node: HierarchyNode): HierarchyNode {
+    const references: Reference[] = (node.references || []).map(ref => this.checkReference(node, ref));
+
+    // Add internal references found in the text that the model did not report
+    this.findTextReferences(node, node.text || '').forEach(found => {
+      const alreadyKnown = references.some(ref =>
+        ref.target === found.target ||
+        (ref.text && found.text.toLowerCase().includes(ref.text.toLowerCase()))
+      );
+      if (alreadyKnown || found.target === node.id) return;
+
+      references.push({
+        target: found.target,
+        text: found.text,
+        type: 'internal',
+        origin: 'resolver',
+        confidence: found.confidence,
+        status: 'resolved',
+      });
+      this.summary.added++;
+    });
+
+    return {
+      ...node,
+      references,
+      children: (node.children || []).map(child => this.resolveNode(child)),
+    };
+  }
+
+  /**
+   * Verify an LLM reference target; repair it from its text when the target does not exist
+   */
+  private checkReference(node: HierarchyNode, ref: Reference): Reference {
+    const origin = ref.origin || 'llm';
+
+    if (ref.type === 'external' || ref.target === 'external') {
+      return { ...ref, origin };
+    }
+
+    if (this.nodesById.has(ref.target)) {
+      this.summary.verified++;
+      return { ...ref, origin, confidence: ref.confidence ?? 0.9, status: 'resolved' };
+    }
+
+    const repaired = this.findTextReferences(node, ref.text || '')[0];
+    if (repaired) {
+      this.summary.repaired++;
+      return { ...ref, origin, target: repaired.target, confidence: repaired.confidence * 0.8, status: 'repaired' };
+    }
+
+    this.summary.dangling++;
+    return { ...ref, origin, confidence: 0, status: 'dangling' };
+  }
+
+  /**
+   * Scan text for internal reference phrases and resolve each to a node id
+   */
+  private findTextReferences(node: HierarchyNode, text: string): TextReference[] {
+    const results: TextReference[] = [];
+    const covered: Array<[number, number]> = [];
+
+    for (const match of text.matchAll(SECTION_REFERENCE)) {
+      const after = text.slice(match.index! + match[0].length);
+      if (EXTERNAL_SUFFIX.test(after)) continue;
+
+      // "sections 5 and 6(1)" -> one reference per cited section
+      for (const cited of match[1].matchAll(/(\d{1,3}[A-Z]?)((?:\(\w{1,6}\))*)/g)) {
+        const resolved = this.resolveAbsolute(cited[1], labelsOf(cited[2]));
+        if (resolved) {
+          results.push({ ...resolved, text: match[0].trim() });
+        }
+      }
+      covered.push([match.index!, match.index! + match[0].length]);
+    }
+
+    for (const match of text.matchAll(RELATIVE_REFERENCE)) {
+      const start = match.index!;
+      if (covered.some(([from, to]) => start >= from && start < to)) continue;
+
+      const keyword = match[1].toLowerCase();
+      const scope: RelativeScope = keyword.startsWith('subsection')
+        ? 'subsection'
+        : keyword.replace('-', '').startsWith('subparagraph') ? 'subparagraph' : 'paragraph';
+      const after = text.slice(start + match[0].length);
+      const ofSection = after.match(OF_SECTION);
+      if (!ofSection && EXTERNAL_SUFFIX.test(after)) continue;
+
+      const phrase = ofSection ? match[0] + ofSection[0] : match[0];
+      const firstLabels = match[2].match(/^\(\w{1,6}\)(?:\(\w{1,6}\))*/)![0];
+
+      labelsOf(match[2]).forEach((label, index) => {
+        // Only the first label carries nested labels: "subsection (2)(b) and (3)"
+        const labels = index === 0 ? labelsOf(firstLabels) : [label];
+        const resolved = ofSection
+          ? this.resolveAbsolute(ofSection[1], labels)
+          : this.resolveRelative(node, scope, labels);
+        if (resolved) {
+          results.push({ ...resolved, text: phrase.trim() });
+        }
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * "section 39(2)(b)": find the section by number, then descend by child numbering
+   */
+  private resolveAbsolute(sectionNumber: string, labels: string[]): ResolvedTarget | null {
+    const section = this.sectionsByNumber.get(sectionNumber.toLowerCase());
+    if (!section) return null;
+    return this.descend(section, labels, 0.9);
+  }
+
+  /**
+   * "subsection (2)" / "paragraph (a)": resolve against the nearest enclosing scope
+   */
+  private resolveRelative(node: HierarchyNode, scope: RelativeScope, labels: string[]): ResolvedTarget | null {
+    if (scope === 'subsection') {
+      const section = this.findAncestor(node, n => n.type?.toLowerCase() === 'section');
+      return section ? this.descend(section, labels, 0.8) : null;
+    }
+
+    // Paragraph labels are looked up in the node itself, then each ancestor in turn
+    let current: HierarchyNode | null = node;
+    while (current) {
+      const child = this.findChildByLabel(current, labels[0]);
+      if (child) return this.descend(child, labels.slice(1), 0.75);
+      if (current.type?.toLowerCase() === 'section') break;
+      current = this.parents.get(current.id) ?? null;
+    }
+    return null;
+  }
+
+  private descend(start: HierarchyNode, labels: string[], baseConfidence: number): ResolvedTarget {
+    let current = start;
+    let matched = 0;
+
+    for (const label of labels) {
+      const child = this.findChildByLabel(current, label);
+      if (!child) break;
+      current = child;
+      matched++;
+    }
+
+    // Resolving only part of "39(2)(b)" still points at the right neighbourhood, with less confidence
+    const confidence = matched === labels.length ? baseConfidence : baseConfidence * 0.6;
+    return { target: current.id, confidence };
+  }
+
+  private findChildByLabel(node: HierarchyNode, label: string): HierarchyNode | null {
+    const wanted = `(${label})`;
+    return (node.children || []).find(child =>
+      (child.number || '').replace(/\s+/g, '') === wanted
+    ) || null;
+  }
+
+  private findAncestor(node: HierarchyNode, predicate: (n: HierarchyNode) => boolean): HierarchyNode | null {
+    let current: HierarchyNode | null = node;
+    while (current) {
+      if (predicate(current)) return current;
+      current = this.parents.get(current.id) ?? null;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyNode } from '@/store/regulationStore';
+import { RuleBasedParser } from './RuleBasedParser';
+// Text layer of public/sample/Gazetted-Digital-Assets-and-Registered-Exchanges-Act-2024.pdf after DocumentProcessor's cleanup
+import sampleText from './__fixtures__/digital-assets-act-2024.txt?raw';
+
+const flatten = (nodes: HierarchyNode[]): HierarchyNode[] =>
+  nodes.flatMap(node => [node, ...flatten(node.children || [])]);
+
+describe('RuleBasedParser', () => {
+  const { hierarchy } = new RuleBasedParser().parse(sampleText, 'sample.pdf');
+  const nodes = flatten(hierarchy);
+
+  it('finds the seven Parts and three Schedules of the sample Act', () => {
+    expect(hierarchy.filter(node => node.type === 'part').map(node => node.number))
+      .toEqual(['I', 'II', 'III', 'IV', 'V', 'VI', 'VII']);
+    expect(hierarchy.filter(node => node.type === 'schedule').map(node => node.number))
+      .toEqual(['FIRST SCHEDULE', 'SECOND SCHEDULE', 'THIRD SCHEDULE']);
+  });
+
+  it('finds sections 1 to 87 in order, nested under their Parts', () => {
+    const sections = hierarchy.flatMap(part => (part.children || []).filter(node => node.type === 'section'));
+    expect(sections.map(section => section.number)).toEqual(Array.from({ length: 87 }, (_, i) => String(i + 1)));
+  });
+
+  it('builds ids from the section, subsection and paragraph numbers', () => {
+    const ids = nodes.map(node => node.id);
+    expect(ids).toContain('part1');
+    expect(ids).toContain('sec2');
+    expect(ids).toContain('sec2:p1');
+    expect(ids).toContain('sec2:p1:a');
+    expect(ids).toContain('sch1');
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const paragraph = nodes.find(node => node.id === 'sec2:p1:a')!;
+    expect(paragraph.type).toBe('paragraph');
+    expect(paragraph.number).toBe('(a)');
+  });
+});
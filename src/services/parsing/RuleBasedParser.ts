@@ -0,0 +1,546 @@
+/**
+ * Deterministic, offline structure parser
+ * Recognises Part / Section / (1) / (a) / (i) / (A) numbering with heuristics and
+ * emits the same HierarchyNode tree (and id scheme) that the LLM prompt asks for.
+ */
+
+import { DocumentData, HierarchyNode } from '@/store/regulationStore';
+import type { StructureHint } from '@/services/extractors/structuredText';
+
+type ListKind = 'numeric' | 'alpha' | 'roman' | 'upper';
+
+export interface HeadingMarker {
+  kind: 'part' | 'section' | 'schedule';
+  start: number;
+  end: number;
+  number: string;
+  title: string;
+}
+
+interface ListMarker {
+  start: number;
+  end: number;
+  label: string;
+}
+
+interface LocatedHint {
+  hint: StructureHint;
+  start: number;
+  /** End of the heading text, or of the list label */
+  end: number;
+}
+
+interface OpenList {
+  kind: ListKind;
+  value: number;
+  node: HierarchyNode;
+}
+
+const LIST_NODE_TYPES: Record<ListKind, string> = {
+  numeric: 'subsection',
+  alpha: 'paragraph',
+  roman: 'subparagraph',
+  upper: 'clause',
+};
+
+const PART_PATTERN = /\bPART\s+([IVXLC]+|\d{1,3})\b\s*[-–—.:]?\s*((?:[A-Z][A-Z'’,&()-]*\s+)*)/g;
+// Titles may contain abbreviations followed by a comma, e.g. "delist, halt, etc., stablecoin"
+const SECTION_PATTERN = /(?<=^|\s)(\d{1,3}[A-Z]?)\.\s+([A-Z](?:[^.]|\.(?=[,;]))+?)\.(?=\s|$)/g;
+const SCHEDULE_PATTERN = /\b((?:FIRST|SECOND|THIRD|FOURTH|FIFTH|SIXTH|SEVENTH|EIGHTH|NINTH|TENTH)\s+SCHEDULE|SCHEDULE\s+\d{1,2}|SCHEDULE)\b/g;
+const LIST_MARKER_PATTERN = /(?<=^|[\s—–-])\((\d{1,3}[A-Z]?|[a-z]{1,2}|[ivxlc]{1,6}|[A-Z])\)(?=\s)/g;
+// Table-of-contents entries: "12. Approval or refusal of application..........19"
+const TOC_ENTRY_PATTERN = /(?:\b\d{1,3}[A-Z]?\.\s+)?[^.]{0,200}?\.{4,}\s*\d{0,3}/g;
+// Words that introduce a cross-reference rather than a new list item
+const REFERENCE_WORDS = /(?:sections?|subsections?|paragraphs?|sub-paragraphs?|subparagraphs?|clauses?|items?|articles?|regulations?|rules?|heads?)$/i;
+const TRAILING_HEADING = /(?:\s+[A-Z][A-Z'’,&()-]+){2,}\s*$/;
+// Heading hint text: "PART II Registration", "Article 4 - Scope", "12. Fees"
+const HINT_HEADING_PATTERN = /^(?:(part|chapter|article|section|schedule|division)\s+([IVXLC]+|\d{1,3}[A-Z]?)|(\d{1,3}[A-Z]?))\b\.?\s*[-–—:.]?\s*(.*)$/i;
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+export const romanToInt = (roman: string): number => {
+  const lower = roman.toLowerCase();
+  let total = 0;
+  for (let i = 0; i < lower.length; i++) {
+    const value = ROMAN_VALUES[lower[i]];
+    const next = ROMAN_VALUES[lower[i + 1]];
+    if (!value) return NaN;
+    total += next && next > value ? -value : value;
+  }
+  return total;
+};
+
+const isRoman = (label: string) => /^[ivxlc]+$/.test(label) && !Number.isNaN(romanToInt(label));
+
+const alphaValue = (label: string): number => {
+  // (a)..(z), then (aa), (bb) ... as used in long definition lists
+  if (label.length === 1) return label.charCodeAt(0) - 96;
+  if (label.length === 2 && label[0] === label[1]) return 26 + label.charCodeAt(0) - 96;
+  return NaN;
+};
+
+const sectionValue = (number: string) => parseInt(number, 10);
+
+export class RuleBasedParser {
+  /**
+   * Parse cleaned document text into DocumentData.
+   * Heading and list-level hints from the source format (DOCX styles, EPUB markup) take precedence
+   * over numbering heuristics when they mark up at least two headings.
+   */
+  parse(documentText: string, source: string = 'Rule-based Parse', hints: StructureHint[] = []): DocumentData {
+    const metadata = this.detectMetadata(documentText);
+    const located = hints.filter(hint => hint.kind === 'heading').length >= 2
+      ? this.locateHints(documentText, hints)
+      : [];
+
+    let hierarchy: HierarchyNode[];
+    if (located.filter(entry => entry.hint.kind === 'heading').length >= 2) {
+      const { nodes, title } = this.buildHierarchyFromHints(documentText, located);
+      hierarchy = nodes;
+      if (title && metadata.title === 'Untitled Document') metadata.title = title;
+    } else {
+      const text = this.maskRunningHeaders(this.maskTableOfContents(documentText), metadata.title);
+      hierarchy = this.buildHierarchy(text, this.selectHeadings(text));
+    }
+
+    return {
+      metadata: {
+        ...metadata,
+        source,
+      },
+      hierarchy,
+    };
+  }
+
+  /**
+   * Accepted Part/Section/Schedule headings with offsets into the given text
+   */
+  findHeadings(documentText: string): HeadingMarker[] {
+    const { title } = this.detectMetadata(documentText);
+    return this.selectHeadings(this.maskRunningHeaders(this.maskTableOfContents(documentText), title));
+  }
+
+  /**
+   * Blank out dotted-leader table of contents entries while keeping character offsets stable
+   */
+  private maskTableOfContents(text: string): string {
+    return text.replace(TOC_ENTRY_PATTERN, match => ' '.repeat(match.length));
+  }
+
+  /**
+   * Gazettes repeat the instrument title as a page header; blank out every repeat
+   */
+  private maskRunningHeaders(text: string, title: string): string {
+    if (title.length < 10) return text;
+    const occurrences = text.split(title).length - 1;
+    if (occurrences < 3) return text;
+    const first = text.indexOf(title) + title.length;
+    return text.slice(0, first) + text.slice(first).split(title).join(' '.repeat(title.length));
+  }
+
+  private detectMetadata(text: string): Omit<DocumentData['metadata'], 'source'> {
+    const titleMatch = text.match(/\b([A-Z][A-Z'’,&() -]{4,}?\b(ACT|REGULATIONS?|RULES|ORDER|CODE|DIRECTIVE)\b,?\s*\d{4})/);
+    const title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim() : 'Untitled Document';
+    const typeWord = titleMatch ? titleMatch[2] : '';
+    const documentType = typeWord
+      ? typeWord.charAt(0) + typeWord.slice(1).toLowerCase()
+      : 'Document';
+
+    return {
+      title,
+      jurisdiction: 'Unknown',
+      document_type: documentType,
+    };
+  }
+
+  /**
+   * Collect Part/Section/Schedule headings and keep only those that continue the numbering sequence
+   */
+  private selectHeadings(text: string): HeadingMarker[] {
+    const candidates: HeadingMarker[] = [];
+
+    for (const match of text.matchAll(PART_PATTERN)) {
+      const title = match[2].trim();
+      const end = match.index! + match[0].length;
+      // TOC part lines carry a trailing page number: "PART II - ADMINISTRATION OF ACT 13"
+      if (/^\d{1,3}(?!\d|\s*\.)/.test(text.slice(end))) continue;
+      candidates.push({ kind: 'part', start: match.index!, end, number: match[1], title });
+    }
+
+    for (const match of text.matchAll(SECTION_PATTERN)) {
+      const end = match.index! + match[0].length;
+      const title = match[2].trim();
+      if (title.length > 160 || /\(\w{1,3}\)/.test(title) || title.split(/\s+/).length > 20) continue;
+      // Leftovers of masked TOC entries are followed by a run of blanks
+      if (/^\s{3,}/.test(text.slice(end))) continue;
+      candidates.push({ kind: 'section', start: match.index!, end, number: match[1], title });
+    }
+
+    for (const match of text.matchAll(SCHEDULE_PATTERN)) {
+      const end = match.index! + match[0].length;
+      if (/^\s{3,}/.test(text.slice(end))) continue;
+      candidates.push({ kind: 'schedule', start: match.index!, end, number: match[1], title: match[1] });
+    }
+
+    candidates.sort((a, b) => a.start - b.start);
+
+    const accepted: HeadingMarker[] = [];
+    let lastPart = 0;
+    let lastSection = 0;
+    let lastSectionNumber = '';
+    let lastSchedule = '';
+    let lastEnd = 0;
+
+    const isNextSection = (candidate: HeadingMarker) => {
+      const value = sectionValue(candidate.number);
+      if (/[A-Z]$/.test(candidate.number)) {
+        // Inserted sections such as 12A follow 12 (or another 12x)
+        return value === lastSection && candidate.number !== lastSectionNumber;
+      }
+      return value > lastSection && value <= lastSection + 3;
+    };
+
+    candidates.forEach((candidate, index) => {
+      if (candidate.start < lastEnd) return;
+
+      if (candidate.kind === 'section') {
+        if (!isNextSection(candidate)) return;
+        lastSection = sectionValue(candidate.number);
+        lastSectionNumber = candidate.number;
+      } else if (candidate.kind === 'part') {
+        const value = /^\d+$/.test(candidate.number) ? parseInt(candidate.number, 10) : romanToInt(candidate.number);
+        if (value !== lastPart + 1) return;
+        // A real Part heading is followed by a section before any other Part heading
+        const next = candidates.slice(index + 1).find(c =>
+          c.start >= candidate.end && (c.kind !== 'section' || isNextSection(c))
+        );
+        if (next && next.kind !== 'section') return;
+        lastPart = value;
+      } else {
+        // Schedules only appear after the body; repeated page headings are not new schedules
+        if (lastSection === 0 || candidate.number === lastSchedule) return;
+        lastSchedule = candidate.number;
+      }
+
+      accepted.push(candidate);
+      lastEnd = candidate.end;
+    });
+
+    return accepted;
+  }
+
+  /**
+   * Build the node tree from accepted headings, parsing list numbering inside each body
+   */
+  private buildHierarchy(text: string, headings: HeadingMarker[]): HierarchyNode[] {
+    const roots: HierarchyNode[] = [];
+    const usedIds = new Set<string>();
+    const hasParts = headings.some(h => h.kind === 'part');
+    let currentPart: HierarchyNode | null = null;
+    let scheduleCount = 0;
+
+    const uniqueId = (id: string) => {
+      let candidate = id;
+      let counter = 2;
+      while (usedIds.has(candidate)) {
+        candidate = `${id}_${counter++}`;
+      }
+      usedIds.add(candidate);
+      return candidate;
+    };
+
+    headings.forEach((heading, index) => {
+      const bodyEnd = index + 1 < headings.length ? headings[index + 1].start : text.length;
+      const body = text.slice(heading.end, bodyEnd);
+
+      if (heading.kind === 'part') {
+        const value = /^\d+$/.test(heading.number) ? heading.number : String(romanToInt(heading.number));
+        currentPart = this.createNode(uniqueId(`part${value}`), 'part', heading.number, heading.title, this.cleanText(body), 1);
+        roots.push(currentPart);
+        return;
+      }
+
+      if (heading.kind === 'schedule') {
+        scheduleCount++;
+        currentPart = null;
+        roots.push(this.createNode(uniqueId(`sch${scheduleCount}`), 'schedule', heading.number, heading.title, this.cleanText(body), 1));
+        return;
+      }
+
+      const level = hasParts && currentPart ? 2 : 1;
+      const section = this.createNode(uniqueId(`sec${heading.number.toLowerCase()}`), 'section', heading.number, heading.title, '', level);
+      this.parseListItems(body, section, uniqueId);
+
+      if (currentPart) {
+        currentPart.children.push(section);
+      } else {
+        roots.push(section);
+      }
+    });
+
+    return roots;
+  }
+
+  /**
+   * Find each hint's text in the document, in order; hints that cannot be found are dropped
+   */
+  private locateHints(text: string, hints: StructureHint[]): LocatedHint[] {
+    const located: LocatedHint[] = [];
+    let cursor = 0;
+
+    for (const hint of hints) {
+      const normalized = hint.text.replace(/\s+/g, ' ').trim();
+      // List items can run long; their opening words are enough to place them
+      const needle = hint.kind === 'heading' ? normalized : normalized.slice(0, 80);
+      const start = needle ? text.indexOf(needle, cursor) : -1;
+      if (start < 0) continue;
+
+      const label = hint.label && normalized.startsWith(hint.label) ? hint.label.length : 0;
+      located.push({ hint, start, end: start + (hint.kind === 'heading' ? needle.length : label) });
+      cursor = start + needle.length;
+    }
+
+    return located;
+  }
+
+  /**
+   * Build the node tree from located heading hints, nesting by heading level.
+   * A leading heading followed directly by a heading of the same level is the document title.
+   */
+  private buildHierarchyFromHints(text: string, located: LocatedHint[]): { nodes: HierarchyNode[]; title?: string } {
+    const roots: HierarchyNode[] = [];
+    const usedIds = new Set<string>();
+    const stack: Array<{ level: number; node: HierarchyNode }> = [];
+    const headings = located.filter(entry => entry.hint.kind === 'heading');
+    let title: string | undefined;
+
+    const uniqueId = (id: string) => {
+      let candidate = id;
+      let counter = 2;
+      while (usedIds.has(candidate)) {
+        candidate = `${id}_${counter++}`;
+      }
+      usedIds.add(candidate);
+      return candidate;
+    };
+
+    if (
+      headings[0].hint.level === headings[1].hint.level &&
+      !text.slice(0, headings[0].start).trim() &&
+      !text.slice(headings[0].end, headings[1].start).trim()
+    ) {
+      title = headings.shift().hint.text;
+    }
+
+    headings.forEach((heading, index) => {
+      const bodyEnd = index + 1 < headings.length ? headings[index + 1].start : text.length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.hint.level) stack.pop();
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+
+      const { type, number, title: headingTitle, idBase } = this.describeHeadingHint(heading.hint.text, index);
+      const node = this.createNode(uniqueId(idBase), type, number, headingTitle, '', parent ? parent.level + 1 : 1);
+
+      const body = text.slice(heading.end, bodyEnd);
+      const listHints = located.filter(entry =>
+        entry.hint.kind === 'list_item' && entry.start >= heading.end && entry.start < bodyEnd
+      );
+      if (listHints.length > 0) {
+        this.buildHintedList(body, heading.end, listHints, node, uniqueId);
+      } else {
+        this.parseListItems(body, node, uniqueId);
+      }
+
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+      stack.push({ level: heading.hint.level, node });
+    });
+
+    return { nodes: roots, title };
+  }
+
+  /**
+   * Split a hinted heading into type, number and title, with an id in the parser's scheme
+   */
+  private describeHeadingHint(text: string, index: number): { type: string; number: string; title: string; idBase: string } {
+    const match = text.match(HINT_HEADING_PATTERN);
+    if (!match) {
+      return { type: 'heading', number: '', title: text, idBase: `h${index + 1}` };
+    }
+
+    const keyword = match[1]?.toLowerCase();
+    const number = match[2] ?? match[3];
+    const title = match[4].trim();
+    const value = /^\d/.test(number) ? number.toLowerCase() : String(romanToInt(number));
+
+    switch (keyword) {
+      case 'part': return { type: 'part', number, title, idBase: `part${value}` };
+      case 'schedule': return { type: 'schedule', number, title, idBase: `sch${value}` };
+      case undefined:
+      case 'section': return { type: 'section', number, title, idBase: `sec${value}` };
+      default: return { type: keyword, number, title, idBase: `${keyword}${value}` };
+    }
+  }
+
+  /**
+   * Nest list items by the list levels the source format recorded, instead of guessing from labels
+   */
+  private buildHintedList(
+    body: string,
+    bodyOffset: number,
+    items: LocatedHint[],
+    section: HierarchyNode,
+    uniqueId: (id: string) => string
+  ): void {
+    const stack: Array<{ level: number; node: HierarchyNode }> = [];
+
+    section.text = this.cleanText(body.slice(0, items[0].start - bodyOffset));
+    items.forEach((item, index) => {
+      while (stack.length > 0 && stack[stack.length - 1].level >= item.hint.level) stack.pop();
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : section;
+      const label = item.hint.label?.replace(/[().]/g, '') ?? '';
+      const idPart = /^\d/.test(label) ? `p${label.toLowerCase()}` : label || `i${index + 1}`;
+      const end = index + 1 < items.length ? items[index + 1].start - bodyOffset : body.length;
+
+      const node = this.createNode(
+        uniqueId(`${parent.id}:${idPart}`),
+        this.hintedListType(label, stack.length),
+        item.hint.label ?? '',
+        '',
+        this.cleanText(body.slice(item.end - bodyOffset, end)),
+        parent.level + 1
+      );
+      parent.children.push(node);
+      stack.push({ level: item.hint.level, node });
+    });
+  }
+
+  /**
+   * Node type from the label's numbering style; "(i)" is roman only inside another list
+   */
+  private hintedListType(label: string, depth: number): string {
+    if (/^\d/.test(label)) return LIST_NODE_TYPES.numeric;
+    if (/^[A-Z]$/.test(label)) return LIST_NODE_TYPES.upper;
+    if (depth > 0 && isRoman(label)) return LIST_NODE_TYPES.roman;
+    if (/^[a-z]{1,2}$/.test(label)) return LIST_NODE_TYPES.alpha;
+    return 'item';
+  }
+
+  /**
+   * Split a section body into nested (1) / (a) / (i) / (A) items
+   */
+  private parseListItems(body: string, section: HierarchyNode, uniqueId: (id: string) => string): void {
+    const markers = this.findListMarkers(body);
+    const stack: OpenList[] = [];
+    const accepted: Array<{ marker: ListMarker; node: HierarchyNode }> = [];
+
+    markers.forEach((marker, index) => {
+      const previousEnd = accepted.length > 0 ? accepted[accepted.length - 1].marker.end : 0;
+      const leadIn = /[—–:-]\s*$/.test(body.slice(previousEnd, marker.start));
+      const placement = this.placeMarker(marker.label, stack, leadIn);
+      if (!placement) return;
+
+      stack.length = placement.depth;
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : section;
+      const idPart = placement.kind === 'numeric' ? `p${marker.label.toLowerCase()}` : marker.label;
+      const node = this.createNode(
+        uniqueId(`${parent.id}:${idPart}`),
+        LIST_NODE_TYPES[placement.kind],
+        `(${marker.label})`,
+        '',
+        '',
+        parent.level + 1
+      );
+
+      parent.children.push(node);
+      stack.push({ kind: placement.kind, value: placement.value, node });
+      accepted.push({ marker, node });
+    });
+
+    // Assign verbatim text between consecutive accepted markers
+    section.text = this.cleanText(body.slice(0, accepted.length > 0 ? accepted[0].marker.start : body.length));
+    accepted.forEach((entry, index) => {
+      const end = index + 1 < accepted.length ? accepted[index + 1].marker.start : body.length;
+      entry.node.text = this.cleanText(body.slice(entry.marker.end, end));
+    });
+  }
+
+  /**
+   * Decide where a list label belongs given the currently open lists.
+   * Returns the stack depth to truncate to plus the resolved list kind, or null when
+   * the label does not continue any list (e.g. an inline "(see (b) above)").
+   */
+  private placeMarker(label: string, stack: OpenList[], leadIn: boolean): { depth: number; kind: ListKind; value: number } | null {
+    const interpretations: Array<{ kind: ListKind; value: number }> = [];
+
+    if (/^\d/.test(label)) {
+      interpretations.push({ kind: 'numeric', value: parseInt(label, 10) });
+    } else if (/^[A-Z]$/.test(label)) {
+      interpretations.push({ kind: 'upper', value: label.charCodeAt(0) - 64 });
+    } else {
+      if (!Number.isNaN(alphaValue(label))) interpretations.push({ kind: 'alpha', value: alphaValue(label) });
+      if (isRoman(label)) interpretations.push({ kind: 'roman', value: romanToInt(label) });
+    }
+
+    const startNewList = () => {
+      const first = interpretations.find(i => i.value === 1 && !stack.some(open => open.kind === i.kind));
+      return first ? { depth: stack.length, ...first } : null;
+    };
+
+    // After a lead-in dash, "(i)" opens a nested list rather than continuing "(h)"
+    if (leadIn) {
+      const nested = startNewList();
+      if (nested) return nested;
+    }
+
+    // Continue the nearest open list that this label follows
+    for (let depth = stack.length - 1; depth >= 0; depth--) {
+      const open = stack[depth];
+      const match = interpretations.find(i => i.kind === open.kind && i.value === open.value + 1);
+      if (match) return { depth, ...match };
+    }
+
+    const nested = startNewList();
+    if (nested) return nested;
+
+    // Restart an open list, e.g. a new definition with its own (a), (b) ...
+    for (let depth = stack.length - 1; depth >= 0; depth--) {
+      const match = interpretations.find(i => i.kind === stack[depth].kind && i.value === 1);
+      if (match) return { depth, ...match };
+    }
+
+    return null;
+  }
+
+  private findListMarkers(body: string): ListMarker[] {
+    const markers: ListMarker[] = [];
+
+    for (const match of body.matchAll(LIST_MARKER_PATTERN)) {
+      const before = body.slice(Math.max(0, match.index! - 40), match.index!).trimEnd();
+      // "subsection (2)", "paragraphs (a) and (b)" are references, not list items
+      if (REFERENCE_WORDS.test(before)) continue;
+      if (/(?:sections?|subsections?|paragraphs?)\s+\(\w{1,6}\)(?:,\s*\(\w{1,6}\))*\s*(?:,|and|or|to)$/i.test(before)) continue;
+
+      markers.push({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        label: match[1],
+      });
+    }
+
+    return markers;
+  }
+
+  private createNode(id: string, type: string, number: string, title: string, text: string, level: number): HierarchyNode {
+    return { id, type, number, title, text, level, references: [], children: [] };
+  }
+
+  /**
+   * Normalise whitespace and drop a trailing all-caps cross-heading that belongs to the next section
+   */
+  private cleanText(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(TRAILING_HEADING, '').trim();
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Source-offset anchoring
+ * Aligns parsed nodes and their references with the cleaned text the analysis read, so each carries a
+ * character span (and, for PDFs, the page it starts on) pointing back into the source. Model output
+ * rarely quotes the source verbatim, so node text is located with the fuzzy text index, in document
+ * order so repeated wording resolves to the occurrence after the previous provision.
+ */
+
+import { HierarchyNode, Reference, SourceSpan } from '@/store/regulationStore';
+import { SourceTextIndex } from './FuzzyTextIndex';
+
+export interface SourceAlignmentSummary {
+  nodes: number;
+  aligned: number;
+  references: number;
+  referencesAligned: number;
+}
+
+export class SourceAligner {
+  private index: SourceTextIndex;
+  private lowerSource: string | null;
+  private summary: SourceAlignmentSummary = { nodes: 0, aligned: 0, references: 0, referencesAligned: 0 };
+
+  /**
+   * @param pageStarts offset in sourceText at which each PDF page begins, in page order
+   */
+  constructor(sourceText: string, private pageStarts: number[] = []) {
+    this.index = new SourceTextIndex(sourceText);
+    const lower = sourceText.toLowerCase();
+    // Case-insensitive offsets are only usable when lower-casing keeps every offset in place
+    this.lowerSource = lower.length === sourceText.length ? lower : null;
+  }
+
+  /**
+   * Attach source spans to every node and reference that can be found. Returns a new hierarchy;
+   * the input is not mutated.
+   */
+  align(hierarchy: HierarchyNode[]): { hierarchy: HierarchyNode[]; summary: SourceAlignmentSummary } {
+    this.summary = { nodes: 0, aligned: 0, references: 0, referencesAligned: 0 };
+    let cursor = 0;
+
+    const visit = (node: HierarchyNode): HierarchyNode => {
+      this.summary.nodes++;
+      const passage = node.text?.trim() || [node.number, node.title].filter(Boolean).join(' ');
+      const range = this.index.find(passage, cursor);
+
+      let source: SourceSpan | undefined;
+      if (range) {
+        this.summary.aligned++;
+        // Children start inside or after their parent's text
+        cursor = range.start;
+        source = this.withPage(this.index.toSourceRange(range));
+      }
+
+      const { source: _stale, ...rest } = node;
+      return {
+        ...rest,
+        ...(source ? { source } : {}),
+        references: this.alignReferences(node.references ?? [], source),
+        children: (node.children ?? []).map(visit),
+      };
+    };
+
+    const aligned = hierarchy.map(visit);
+    return { hierarchy: aligned, summary: { ...this.summary } };
+  }
+
+  /**
+   * Locate each reference's wording inside its node's span; repeated wording takes successive occurrences
+   */
+  private alignReferences(references: Reference[], span: SourceSpan | undefined): Reference[] {
+    const nextFrom = new Map<string, number>();
+
+    return references.map(reference => {
+      this.summary.references++;
+      const { source: _stale, ...rest } = reference;
+      const wording = reference.text?.trim();
+      if (!span || !wording) return rest;
+
+      const key = wording.toLowerCase();
+      const found = this.findWithin(wording, nextFrom.get(key) ?? span.start, span.end);
+      if (!found) return rest;
+
+      this.summary.referencesAligned++;
+      nextFrom.set(key, found.end);
+      return { ...rest, source: this.withPage(found) };
+    });
+  }
+
+  private findWithin(wording: string, from: number, to: number): { start: number; end: number } | null {
+    if (this.lowerSource) {
+      const start = this.lowerSource.indexOf(wording.toLowerCase(), from);
+      if (start >= 0 && start + wording.length <= to) return { start, end: start + wording.length };
+    }
+
+    // Spacing or punctuation differs from the source ("section 5 (1)" vs "section 5(1)")
+    const range = this.index.find(wording, this.index.indexAt(from));
+    if (!range) return null;
+    const found = this.index.toSourceRange(range);
+    return found.start >= from && found.end <= to ? found : null;
+  }
+
+  private withPage(range: { start: number; end: number }): SourceSpan {
+    if (this.pageStarts.length === 0) return range;
+    // Last page starting at or before the span
+    let page = 0;
+    while (page + 1 < this.pageStarts.length && this.pageStarts[page + 1] <= range.start) page++;
+    return { ...range, page: page + 1 };
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Akoma Ntoso / USLM importer
+ * Legislative XML already marks up its structure, so it is mapped straight onto the HierarchyNode tree
+ * (parts, sections, subsections, paragraphs, <ref href> cross-references) without calling a model.
+ */
+
+import { DocumentData, HierarchyNode, Reference } from '@/store/regulationStore';
+
+export type XmlDialect = 'akn' | 'uslm';
+
+// Hierarchical containers of both vocabularies; everything else is treated as content
+const HIERARCHY_ELEMENTS = new Set([
+  'book', 'part', 'subpart', 'title', 'subtitle', 'chapter', 'subchapter', 'division', 'subdivision',
+  'article', 'section', 'subsection', 'rule', 'subrule', 'paragraph', 'subparagraph', 'clause', 'subclause',
+  'point', 'item', 'subitem', 'subsubitem', 'level', 'hcontainer', 'preamble',
+]);
+
+// Elements whose text belongs to the node's number/heading, not its body
+const LABEL_ELEMENTS = new Set(['num', 'heading', 'subheading']);
+
+// Content containers that start a new line of text
+const BLOCK_ELEMENTS = new Set(['p', 'intro', 'content', 'wrapUp', 'chapeau', 'continuation', 'blockList', 'listIntroduction', 'listWrapUp', 'proviso', 'quotedContent', 'quotedText']);
+
+const AKN_NAMESPACE = /docs\.oasis-open\.org\/legaldocml\/ns\/akn|akomantoso\.org/i;
+const USLM_NAMESPACE = /xml\.house\.gov\/schemas\/uslm/i;
+
+interface PendingReference {
+  node: HierarchyNode;
+  href: string;
+  text: string;
+}
+
+export const isXmlFile = (file: File) =>
+  file.type === 'application/xml' || file.type === 'text/xml' || /\.(xml|akn)$/i.test(file.name);
+
+/**
+ * Dialect of an XML file, read from its opening markup; null for XML the importer does not handle
+ */
+export const detectXmlFileDialect = async (file: File): Promise<XmlDialect | null> =>
+  isXmlFile(file) ? new XmlDocumentImporter().detectDialect(await file.slice(0, 16000).text()) : null;
+
+export class XmlDocumentImporter {
+  /**
+   * Recognise Akoma Ntoso or USLM markup from the root element and namespace
+   */
+  detectDialect(text: string): XmlDialect | null {
+    const head = text.slice(0, 4000);
+    if (!/^\s*(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*</.test(head)) return null;
+    if (/<(?:\w+:)?akomaNtoso\b/.test(head) || AKN_NAMESPACE.test(head)) return 'akn';
+    if (/<(?:\w+:)?(?:lawDoc|uscDoc|bill|resolution|amendment)\b[^>]*uslm/i.test(head) || USLM_NAMESPACE.test(head)) return 'uslm';
+    return null;
+  }
+
+  /**
+   * Parse the XML into DocumentData; throws when the markup is not well-formed
+   */
+  import(xmlText: string, fileName: string): DocumentData {
+    const dialect = this.detectDialect(xmlText);
+    if (!dialect) {
+      throw new Error('Not an Akoma Ntoso or USLM document');
+    }
+
+    const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      throw new Error(`Invalid XML: ${parseError.textContent?.trim().split('\n')[0] ?? 'parse error'}`);
+    }
+
+    const root = doc.documentElement;
+    const usedIds = new Set<string>();
+    const idMap = new Map<string, string>();
+    const pending: PendingReference[] = [];
+
+    const uniqueId = (id: string) => {
+      let candidate = id;
+      let counter = 2;
+      while (usedIds.has(candidate)) {
+        candidate = `${id}_${counter++}`;
+      }
+      usedIds.add(candidate);
+      return candidate;
+    };
+
+    const buildNodes = (parent: Element, level: number, parentId: string): HierarchyNode[] => {
+      const nodes: HierarchyNode[] = [];
+      for (const element of this.hierarchyChildren(parent)) {
+        const type = this.nodeType(element);
+        const number = this.labelText(element, 'num');
+        const sourceIds = ['eId', 'identifier', 'id', 'wId', 'GUID']
+          .map(name => element.getAttribute(name))
+          .filter(Boolean);
+        const fallbackId = `${parentId ? `${parentId}:` : ''}${type}${this.idSuffix(number, nodes.length)}`;
+        const id = uniqueId(sourceIds[0] || fallbackId);
+        sourceIds.forEach(sourceId => idMap.set(sourceId, id));
+
+        const node: HierarchyNode = {
+          id,
+          type,
+          number,
+          title: this.labelText(element, 'heading'),
+          text: this.bodyText(element),
+          level,
+          references: [],
+          children: [],
+        };
+        this.collectReferences(element).forEach(ref => pending.push({ node, ...ref }));
+        node.children = buildNodes(element, level + 1, id);
+        nodes.push(node);
+      }
+      return nodes;
+    };
+
+    const hierarchy = buildNodes(this.findBody(root, dialect), 1, '');
+    this.resolveReferences(pending, idMap);
+
+    console.log(`[DEBUG] XmlImporter - Imported ${usedIds.size} nodes from ${dialect.toUpperCase()} XML`);
+
+    return {
+      metadata: {
+        ...this.readMetadata(root, dialect),
+        source: fileName,
+      },
+      hierarchy,
+    };
+  }
+
+  private elementChildren(element: Element): Element[] {
+    return Array.from(element.childNodes).filter((child): child is Element => child.nodeType === 1);
+  }
+
+  /**
+   * Nearest hierarchical descendants, looking through wrappers such as <body> or <main>
+   */
+  private hierarchyChildren(element: Element): Element[] {
+    return this.elementChildren(element).flatMap(child => {
+      if (HIERARCHY_ELEMENTS.has(child.localName)) return [child];
+      if (LABEL_ELEMENTS.has(child.localName) || BLOCK_ELEMENTS.has(child.localName)) return [];
+      return this.hierarchyChildren(child);
+    });
+  }
+
+  private findBody(root: Element, dialect: XmlDialect): Element {
+    // Listed in the order they appear in a document
+    const names = dialect === 'akn' ? ['preamble', 'body', 'mainBody', 'judgmentBody', 'debateBody'] : ['preface', 'main'];
+    const candidates = names.flatMap(name => Array.from(root.getElementsByTagNameNS('*', name)));
+    // Skip nested matches, e.g. a <body> inside quoted amending text
+    const sections = candidates.filter(element =>
+      !candidates.some(other => other !== element && this.isInside(element, other))
+    );
+    if (sections.length === 0) return root;
+
+    // Wrap preamble and body in one synthetic parent so both are imported in order
+    const wrapper = root.ownerDocument.createElement('wrapper');
+    sections.forEach(section => {
+      if (section.localName === 'preamble') {
+        wrapper.appendChild(section.cloneNode(true));
+      } else {
+        this.elementChildren(section).forEach(child => wrapper.appendChild(child.cloneNode(true)));
+      }
+    });
+    return wrapper;
+  }
+
+  private isInside(element: Node, ancestor: Node): boolean {
+    for (let parent = element.parentNode; parent; parent = parent.parentNode) {
+      if (parent === ancestor) return true;
+    }
+    return false;
+  }
+
+  private nodeType(element: Element): string {
+    if (element.localName === 'hcontainer' || element.localName === 'level') {
+      return element.getAttribute('name') || element.getAttribute('class') || element.localName;
+    }
+    return element.localName;
+  }
+
+  private labelText(element: Element, name: 'num' | 'heading'): string {
+    const label = this.elementChildren(element).find(child => child.localName === name);
+    if (!label) return '';
+    return this.normalize(label.textContent || '');
+  }
+
+  /**
+   * The node's own text: content blocks between its label and its child provisions
+   */
+  private bodyText(element: Element): string {
+    const lines: string[] = [];
+    let current = '';
+
+    const flush = () => {
+      const line = this.normalize(current);
+      if (line) lines.push(line);
+      current = '';
+    };
+
+    // Inside content blocks, list <item>s and <point>s are text rather than child provisions
+    const visit = (node: Node, insideBlock: boolean) => {
+      if (node.nodeType === 3) {
+        current += node.textContent;
+        return;
+      }
+      if (node.nodeType !== 1) return;
+      const child = node as Element;
+      if (!insideBlock && (HIERARCHY_ELEMENTS.has(child.localName) || LABEL_ELEMENTS.has(child.localName))) return;
+      if (child.localName === 'authorialNote' || child.localName === 'note' || child.localName === 'footnote') return;
+
+      const isBlock = insideBlock
+        ? BLOCK_ELEMENTS.has(child.localName) || HIERARCHY_ELEMENTS.has(child.localName)
+        : BLOCK_ELEMENTS.has(child.localName);
+      if (isBlock) flush();
+      Array.from(child.childNodes).forEach(grandchild => visit(grandchild, insideBlock || isBlock));
+      if (isBlock) flush();
+    };
+
+    Array.from(element.childNodes).forEach(child => visit(child, false));
+    flush();
+    return lines.join('\n');
+  }
+
+  /**
+   * <ref href> elements in the node's own text (not in child provisions)
+   */
+  private collectReferences(element: Element): Array<{ href: string; text: string }> {
+    const refs: Array<{ href: string; text: string }> = [];
+    const visit = (parent: Element, insideBlock: boolean) => {
+      for (const child of this.elementChildren(parent)) {
+        if (!insideBlock && HIERARCHY_ELEMENTS.has(child.localName)) continue;
+        if (child.localName === 'ref' && child.getAttribute('href')) {
+          refs.push({ href: child.getAttribute('href'), text: this.normalize(child.textContent || '') });
+          continue;
+        }
+        visit(child, insideBlock || BLOCK_ELEMENTS.has(child.localName));
+      }
+    };
+    visit(element, false);
+    return refs;
+  }
+
+  /**
+   * Point hrefs at imported node ids; anything outside the document stays external
+   */
+  private resolveReferences(pending: PendingReference[], idMap: Map<string, string>): void {
+    for (const { node, href, text } of pending) {
+      const candidates = [href, href.replace(/^#/, ''), href.split('#').pop(), href.split('/').pop()];
+      const target = candidates.map(candidate => idMap.get(candidate)).find(Boolean);
+      const reference: Reference = target
+        ? { target, text: text || href, type: 'internal', confidence: 1, status: 'resolved' }
+        : { target: href, text: text || href, type: 'external', confidence: 1 };
+      if (!node.references.some(ref => ref.target === reference.target && ref.text === reference.text)) {
+        node.references.push(reference);
+      }
+    }
+  }
+
+  private readMetadata(root: Element, dialect: XmlDialect): Omit<DocumentData['metadata'], 'source'> {
+    const meta = root.getElementsByTagNameNS('*', 'meta')[0];
+    const first = (...names: string[]) => {
+      for (const name of names) {
+        // <title> is also a USLM provision, so titles are only read from <meta>
+        const scope = name === 'title' || name === 'type' ? meta : root;
+        const element = scope?.getElementsByTagNameNS('*', name)[0];
+        const value = element?.getAttribute('value') || this.normalize(element?.textContent || '');
+        if (value) return value;
+      }
+      return '';
+    };
+
+    if (dialect === 'akn') {
+      const documentElement = this.elementChildren(root)[0];
+      return {
+        title: first('docTitle', 'shortTitle', 'FRBRname', 'FRBRalias') || 'Untitled Document',
+        jurisdiction: (first('FRBRcountry') || 'Unknown').toUpperCase(),
+        document_type: this.capitalize(documentElement?.getAttribute('name') || documentElement?.localName || 'Document'),
+      };
+    }
+
+    return {
+      title: first('title', 'docTitle', 'officialTitle', 'shortTitle') || 'Untitled Document',
+      jurisdiction: 'United States',
+      document_type: first('type', 'docType') || (root.localName === 'uscDoc' ? 'United States Code' : this.capitalize(root.localName)),
+    };
+  }
+
+  private idSuffix(number: string, position: number): string {
+    return number.replace(/[^A-Za-z0-9]+/g, '').toLowerCase() || String(position + 1);
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
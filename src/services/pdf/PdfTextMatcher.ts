@@ -0,0 +1,208 @@
+/**
+ * Locate hierarchy node text in a PDF's text layer
+ * pdf.js splits page text into positioned items that rarely line up with words, let alone provisions.
+ * Items are flattened into a fuzzy text index that remembers the item behind every character, so a
+ * node's text can be found regardless of line breaks, hyphenation or spacing and mapped back to boxes
+ * on the page.
+ */
+
+import type { HierarchyNode, Reference } from '@/store/regulationStore';
+import { FuzzyTextIndex } from '@/services/parsing/FuzzyTextIndex';
+import { findReferenceOccurrences } from '@/services/viewer/ReferenceLinks';
+
+/** Position of a text item as fractions of the page size, origin top-left */
+export interface PdfTextItem {
+  str: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  items: PdfTextItem[];
+}
+
+/** Highlight box as fractions of the page size */
+export interface PdfHighlightRect {
+  pageNumber: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextMatch {
+  pageNumber: number;
+  rects: PdfHighlightRect[];
+  // Matched range [start, end) in the normalised text
+  start: number;
+  end: number;
+}
+
+/** Where a reference's wording appears on the pages */
+export interface PdfReferenceMatch {
+  nodeId: string;
+  reference: Reference;
+  rects: PdfHighlightRect[];
+}
+
+interface CharSource {
+  page: number;
+  item: number;
+  offset: number;
+}
+
+/** Subset of pdf.js TextItem / PageViewport used to compute item positions */
+interface RawTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+interface ViewportLike {
+  width: number;
+  height: number;
+  transform: number[];
+}
+
+const multiply = (m1: number[], m2: number[]) => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+/**
+ * Page text items with positions relative to the page, from pdf.js getTextContent() and a viewport
+ */
+export function toPageText(pageNumber: number, items: unknown[], viewport: ViewportLike): PdfPageText {
+  const scale = Math.hypot(viewport.transform[0], viewport.transform[1]);
+  const positioned = (items as RawTextItem[])
+    .filter(item => typeof item.str === 'string' && Array.isArray(item.transform))
+    .map(item => {
+      const tx = multiply(viewport.transform, item.transform);
+      const fontHeight = Math.hypot(tx[2], tx[3]);
+      return {
+        str: item.str,
+        left: tx[4] / viewport.width,
+        top: (tx[5] - fontHeight) / viewport.height,
+        width: (item.width * scale) / viewport.width,
+        height: fontHeight / viewport.height,
+      };
+    });
+  return { pageNumber, items: positioned };
+}
+
+export class PdfTextMatcher {
+  private index = new FuzzyTextIndex<CharSource>();
+  // Normalised index at which each page's text begins
+  private pageStarts = new Map<number, number>();
+
+  constructor(private pages: PdfPageText[]) {
+    pages.forEach((page, pageIndex) => {
+      this.pageStarts.set(page.pageNumber, this.index.length);
+      page.items.forEach((item, itemIndex) => {
+        this.index.add(item.str, offset => ({ page: pageIndex, item: itemIndex, offset }));
+      });
+    });
+  }
+
+  /**
+   * Find a passage, preferring the first occurrence at or after `from` (an index into the normalised text)
+   */
+  locate(passage: string, from: number = 0): PdfTextMatch | null {
+    const range = this.index.find(passage, from);
+    if (!range) return null;
+
+    const rects = this.rectsFor(range.start, range.end);
+    return rects.length > 0 ? { pageNumber: rects[0].pageNumber, rects, ...range } : null;
+  }
+
+  /**
+   * Locate every node in document order, so repeated wording resolves to the occurrence that
+   * follows the previous provision. Nodes anchored in the analysed text (`source`) are looked up by
+   * that exact passage, starting on their page.
+   */
+  locateHierarchy(nodes: HierarchyNode[], sourceText?: string): Map<string, PdfTextMatch> {
+    const matches = new Map<string, PdfTextMatch>();
+    let cursor = 0;
+
+    const visit = (node: HierarchyNode) => {
+      const anchored = Boolean(node.source && sourceText);
+      const passage = anchored
+        ? sourceText.slice(node.source.start, node.source.end)
+        : node.text?.trim() || [node.number, node.title].filter(Boolean).join(' ');
+      const from = anchored && node.source.page ? this.pageStarts.get(node.source.page) ?? cursor : cursor;
+      const match = this.locate(passage, from);
+      if (match) {
+        matches.set(node.id, match);
+        // Children start inside or after their parent's text
+        cursor = match.start;
+      }
+      node.children?.forEach(visit);
+    };
+
+    nodes.forEach(visit);
+    return matches;
+  }
+
+  /**
+   * Locate each node's references inside its match from locateHierarchy
+   */
+  locateReferences(nodes: HierarchyNode[], matches: Map<string, PdfTextMatch>): PdfReferenceMatch[] {
+    return findReferenceOccurrences(this.index, nodes, matches)
+      .map(({ nodeId, reference, range }) => ({ nodeId, reference, rects: this.rectsFor(range.start, range.end) }))
+      .filter(match => match.rects.length > 0);
+  }
+
+  /**
+   * Boxes covering normalised characters [start, end), one per text item, partial items trimmed
+   */
+  private rectsFor(start: number, end: number): PdfHighlightRect[] {
+    const sources = this.index.origins;
+    const rects: PdfHighlightRect[] = [];
+    let index = start;
+
+    while (index < end) {
+      const { page, item } = sources[index];
+      let last = index;
+      while (last + 1 < end && sources[last + 1].page === page && sources[last + 1].item === item) {
+        last++;
+      }
+
+      const textItem = this.pages[page].items[item];
+      const length = Math.max(textItem.str.length, 1);
+      const from = sources[index].offset / length;
+      const to = (sources[last].offset + 1) / length;
+      if (textItem.width > 0 && textItem.height > 0) {
+        const rect: PdfHighlightRect = {
+          pageNumber: this.pages[page].pageNumber,
+          left: textItem.left + textItem.width * from,
+          top: textItem.top,
+          width: textItem.width * (to - from),
+          height: textItem.height,
+        };
+        // Items on the same line become one box
+        const previous = rects[rects.length - 1];
+        const sameLine = previous && previous.pageNumber === rect.pageNumber &&
+          Math.abs(previous.top - rect.top) < rect.height * 0.5 &&
+          rect.left >= previous.left && rect.left - (previous.left + previous.width) < rect.height * 2;
+        if (sameLine) {
+          const right = Math.max(previous.left + previous.width, rect.left + rect.width);
+          previous.top = Math.min(previous.top, rect.top);
+          previous.height = Math.max(previous.height, rect.height);
+          previous.width = right - previous.left;
+        } else {
+          rects.push(rect);
+        }
+      }
+      index = last + 1;
+    }
+
+    return rects;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Registry of extraction prompt templates
+ * Each template carries the numbering conventions, reference wording and worked example of one family
+ * of documents (common-law Acts, EU regulations, the US CFR, contracts). A run uses the template picked
+ * on the upload screen, or the one written for the document type and jurisdiction the classifier found.
+ */
+
+import { DocumentData, PromptTemplateRef } from '@/store/regulationStore';
+import type { DocumentClassification, DocumentKind } from '@/services/parsing/DocumentClassifier';
+import { commonLawActTemplate } from './templates/commonLawAct';
+import { euRegulationTemplate } from './templates/euRegulation';
+import { usCfrTemplate } from './templates/usCfr';
+import { contractTemplate } from './templates/contract';
+
+export interface PromptTemplate {
+  /** Stable id, recorded with every analysis */
+  id: string;
+  /** Bump whenever the template's wording or example changes, so cached analyses are not reused */
+  version: number;
+  label: string;
+  description: string;
+  /** What the model is told it is reading, e.g. "regulatory document" */
+  documentKind: string;
+  /** Body of the "Document Structure Detection" instructions (markdown list items) */
+  structure: string;
+  /** Body of the "Reference Extraction" instructions (markdown list items) */
+  references: string;
+  /** Quoted in the output field descriptions */
+  idExamples: string[];
+  typeExamples: string[];
+  numberExamples: string[];
+  titleExample: string;
+  /** Worked example, rendered as nested JSON or as NDJSON lines depending on the output protocol */
+  exampleIntro: string;
+  example: DocumentData;
+  referenceNote: string;
+  /** Document types the template is picked for automatically */
+  documentTypes: DocumentKind[];
+  /** Restricts automatic picking to these jurisdictions; any jurisdiction when absent */
+  jurisdictions?: string[];
+}
+
+// Upload screen choice that lets the document text decide
+export const AUTO_PROMPT_TEMPLATE = 'auto';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  commonLawActTemplate,
+  euRegulationTemplate,
+  usCfrTemplate,
+  contractTemplate,
+];
+
+// Used when nothing in the text points elsewhere; it was the only prompt before the registry
+export const DEFAULT_PROMPT_TEMPLATE = commonLawActTemplate;
+
+export const getPromptTemplate = (id: string): PromptTemplate | undefined =>
+  PROMPT_TEMPLATES.find(template => template.id === id);
+
+export const toTemplateRef = (template: PromptTemplate): PromptTemplateRef => ({
+  id: template.id,
+  version: template.version,
+});
+
+/**
+ * Template for a classified document: one written for its type and jurisdiction, else one for its type
+ * in any jurisdiction, else the default
+ */
+export const selectPromptTemplate = ({ documentType, jurisdiction }: DocumentClassification): PromptTemplate =>
+  PROMPT_TEMPLATES.find(template => template.documentTypes.includes(documentType) && template.jurisdictions?.includes(jurisdiction))
+  ?? PROMPT_TEMPLATES.find(template => template.documentTypes.includes(documentType) && !template.jurisdictions)
+  ?? DEFAULT_PROMPT_TEMPLATE;
+
+/**
+ * Template for a run: the one chosen on the upload screen, or the one selected from the classification
+ * for 'auto' (and for ids no longer in the registry)
+ */
+export const resolvePromptTemplate = (id: string, classification: DocumentClassification): PromptTemplate => {
+  if (id !== AUTO_PROMPT_TEMPLATE) {
+    const chosen = getPromptTemplate(id);
+    if (chosen) return chosen;
+    console.warn(`[DEBUG] PromptRegistry - Unknown prompt template "${id}", selecting one from the classification instead`);
+  }
+  return selectPromptTemplate(classification);
+};
@@ -0,0 +1,124 @@
+/**
+ * Contracts and agreements: parties and recitals, decimal-numbered clauses "4.1" with (a) sub-clauses,
+ * and Schedules, cited as "clause 4.1" or "Schedule 2"
+ */
+
+import type { PromptTemplate } from '../promptRegistry';
+
+export const contractTemplate: PromptTemplate = {
+  id: 'contract',
+  version: 1,
+  label: 'Contract / agreement',
+  description: 'Parties, recitals, 4.1-style clauses with (a) sub-clauses and Schedules; cited as "clause 4.1"',
+  documentKind: 'contract',
+  structure: `    - Keep the **parties** block ("THIS AGREEMENT is dated ... BETWEEN ...") as one element of type "parties".
+    - Keep the **recitals** ("BACKGROUND" or "WHEREAS" paragraphs, e.g. "(A)", "(B)") under one "recitals" element, one child per recital.
+    - Detect the operative **clauses** (e.g., "1. Definitions and interpretation", "4. Fees and payment"), or **Articles** where the agreement uses them.
+    - Decimal numbers nest: "4.1" is a sub-clause of clause 4 and "4.1.1" of clause 4.1; lettered and roman items (e.g., "(a)", "(i)") nest under the clause they appear in.
+    - Keep each defined term of the definitions clause (e.g., ""Fees" means ...") as its own element of type "definition", titled with the term.
+    - Keep **Schedules**, **Annexes** and **Appendices** as top-level elements after the clauses, with their own paragraphs, and the signature block as an element of type "execution".`,
+  references: `    - Find all cross-references in the text, such as:
+        - "in accordance with clause 4.1"
+        - "subject to clauses 9.2 and 9.3"
+        - "as set out in Schedule 2"
+        - "paragraph 3 of Schedule 1"
+        - "the Data Protection Act 2018"
+    - Map each reference to its target using a unique ID system based on the hierarchy (e.g., "cl4" for clause 4, "cl4.1" for clause 4.1, "cl4.1:a" for clause 4.1(a), "sch2" for Schedule 2, "sch1:p3" for paragraph 3 of Schedule 1). A reference to several clauses targets the first one.
+    - Classify references as "internal" (within the agreement) or "external" (to legislation or other agreements).`,
+  idExamples: ['recitals', 'cl4', 'cl4.1', 'cl4.1:a', 'sch2'],
+  typeExamples: ['parties', 'recitals', 'clause', 'definition', 'schedule'],
+  numberExamples: ['4', '4.1', '(a)', '(A)'],
+  titleExample: 'Fees and payment',
+  exampleIntro: 'For the recitals and clause 4 of a services agreement',
+  referenceNote: 'In the example, `cl4.1` refers to `sch2` and `cl4.2` to `cl4.1`. A reference to legislation, like "the Late Payment of Commercial Debts (Interest) Act 1998", is external with target "external".',
+  documentTypes: ['contract'],
+  example: {
+    metadata: {
+      title: 'Master Services Agreement',
+      jurisdiction: 'England and Wales',
+      document_type: 'Contract',
+      source: 'master-services-agreement.pdf',
+    },
+    hierarchy: [
+      {
+        id: 'recitals',
+        type: 'recitals',
+        number: '',
+        title: 'BACKGROUND',
+        text: '',
+        level: 1,
+        references: [],
+        children: [
+          {
+            id: 'recitals:A',
+            type: 'recital',
+            number: '(A)',
+            title: '',
+            text: 'The Supplier provides managed IT services.',
+            level: 2,
+            references: [],
+            children: [],
+          },
+          {
+            id: 'recitals:B',
+            type: 'recital',
+            number: '(B)',
+            title: '',
+            text: 'The Customer wishes to obtain, and the Supplier wishes to provide, the Services on the terms of this Agreement.',
+            level: 2,
+            references: [],
+            children: [],
+          },
+        ],
+      },
+      {
+        id: 'cl4',
+        type: 'clause',
+        number: '4',
+        title: 'Fees and payment',
+        text: '',
+        level: 1,
+        references: [],
+        children: [
+          {
+            id: 'cl4.1',
+            type: 'clause',
+            number: '4.1',
+            title: '',
+            text: 'In consideration of the provision of the Services, the Customer shall pay the Fees in accordance with Schedule 2.',
+            level: 2,
+            references: [
+              {
+                target: 'sch2',
+                text: 'Schedule 2',
+                type: 'internal',
+              },
+            ],
+            children: [],
+          },
+          {
+            id: 'cl4.2',
+            type: 'clause',
+            number: '4.2',
+            title: '',
+            text: 'If the Customer fails to make a payment due under clause 4.1 by the due date, then, without limiting the Supplier\'s other remedies, the Customer shall pay interest on the overdue amount at the rate set by the Late Payment of Commercial Debts (Interest) Act 1998.',
+            level: 2,
+            references: [
+              {
+                target: 'cl4.1',
+                text: 'clause 4.1',
+                type: 'internal',
+              },
+              {
+                target: 'external',
+                text: 'Late Payment of Commercial Debts (Interest) Act 1998',
+                type: 'external',
+              },
+            ],
+            children: [],
+          },
+        ],
+      },
+    ],
+  },
+};
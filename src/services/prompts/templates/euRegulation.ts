@@ -0,0 +1,121 @@
+/**
+ * EU regulations and directives: recitals, Chapters and Sections, Articles, numbered paragraphs
+ * "1." and points "(a)"/"(i)", cited as "Article 5(1)(a)"
+ */
+
+import type { PromptTemplate } from '../promptRegistry';
+
+export const euRegulationTemplate: PromptTemplate = {
+  id: 'eu-regulation',
+  version: 1,
+  label: 'EU regulation / directive',
+  description: 'Recitals, Chapters, Articles, 1. paragraphs and (a) points; cited as "Article 5(1)(a)"',
+  documentKind: 'EU legal act',
+  structure: `    - Keep the **recitals** (the numbered "(1)", "(2)" paragraphs before "HAVE ADOPTED THIS REGULATION") under one "recitals" element, one child per recital.
+    - Identify **Titles**, **Chapters** and **Sections** (e.g., "CHAPTER II - Principles", "Section 2 - Information and access to personal data") where the act has them.
+    - Within them, detect **Articles** (e.g., "Article 6 - Lawfulness of processing"); the Article is the main unit, like a section in national law.
+    - For each Article, extract numbered **paragraphs** (e.g., "1.", "2."), their **points** (e.g., "(a)", "(b)") and sub-points (e.g., "(i)", "(ii)").
+    - Keep **Annexes** as top-level elements after the enacting terms.
+    - Preserve the exact numbering found in the document (e.g., "Article 4", "1.", "(a)", "(i)").`,
+  references: `    - Find all cross-references in the text, such as:
+        - "referred to in Article 9(2)"
+        - "pursuant to Article 5(1)(a)"
+        - "points (c) and (e) of paragraph 1"
+        - "in accordance with Chapter IX"
+        - "Directive 95/46/EC" or "Regulation (EU) No 1093/2010"
+    - Map each reference to its target using a unique ID system based on the hierarchy (e.g., "art9:2" for Article 9(2), "art5:1:a" for Article 5(1)(a), "chap9" for Chapter IX, "annex1" for Annex I). A reference to several points targets the first one.
+    - Resolve "paragraph 1" or "point (a)" without an Article against the Article the reference appears in.
+    - Classify references as "internal" (within the act) or "external" (to other acts, such as other regulations, directives or the Treaties).`,
+  idExamples: ['chap2', 'art6', 'art6:1', 'art6:1:a'],
+  typeExamples: ['chapter', 'section', 'article', 'paragraph', 'point'],
+  numberExamples: ['6', '1.', '(a)'],
+  titleExample: 'Lawfulness of processing',
+  exampleIntro: 'For Article 6 of the General Data Protection Regulation',
+  referenceNote: 'In the example, `art6:2` refers to points of its own Article\'s paragraph 1 (`art6:1:c`) and to `chap9`. A reference to another act, like "Regulation (EU) No 1093/2010", is external with target "external".',
+  documentTypes: ['regulation', 'directive'],
+  jurisdictions: ['European Union'],
+  example: {
+    metadata: {
+      title: 'Regulation (EU) 2016/679 of the European Parliament and of the Council of 27 April 2016 (General Data Protection Regulation)',
+      jurisdiction: 'European Union',
+      document_type: 'Regulation',
+      source: 'CELEX_32016R0679_EN_TXT.pdf',
+    },
+    hierarchy: [
+      {
+        id: 'chap2',
+        type: 'chapter',
+        number: 'II',
+        title: 'Principles',
+        text: '',
+        level: 1,
+        references: [],
+        children: [
+          {
+            id: 'art6',
+            type: 'article',
+            number: '6',
+            title: 'Lawfulness of processing',
+            text: '1. Processing shall be lawful only if and to the extent that at least one of the following applies: (a) the data subject has given consent to the processing of his or her personal data for one or more specific purposes; ... 2. Member States may maintain or introduce more specific provisions to adapt the application of the rules of this Regulation with regard to processing for compliance with points (c) and (e) of paragraph 1 by determining more precisely specific requirements for the processing and other measures to ensure lawful and fair processing including for other specific processing situations as provided for in Chapter IX.',
+            level: 2,
+            references: [],
+            children: [
+              {
+                id: 'art6:1',
+                type: 'paragraph',
+                number: '1.',
+                title: '',
+                text: 'Processing shall be lawful only if and to the extent that at least one of the following applies:',
+                level: 3,
+                references: [],
+                children: [
+                  {
+                    id: 'art6:1:a',
+                    type: 'point',
+                    number: '(a)',
+                    title: '',
+                    text: 'the data subject has given consent to the processing of his or her personal data for one or more specific purposes;',
+                    level: 4,
+                    references: [],
+                    children: [],
+                  },
+                  {
+                    id: 'art6:1:b',
+                    type: 'point',
+                    number: '(b)',
+                    title: '',
+                    text: 'processing is necessary for the performance of a contract to which the data subject is party or in order to take steps at the request of the data subject prior to entering into a contract;',
+                    level: 4,
+                    references: [],
+                    children: [],
+                  },
+                ],
+              },
+              {
+                id: 'art6:2',
+                type: 'paragraph',
+                number: '2.',
+                title: '',
+                text: 'Member States may maintain or introduce more specific provisions to adapt the application of the rules of this Regulation with regard to processing for compliance with points (c) and (e) of paragraph 1 by determining more precisely specific requirements for the processing and other measures to ensure lawful and fair processing including for other specific processing situations as provided for in Chapter IX.',
+                level: 3,
+                references: [
+                  {
+                    target: 'art6:1:c',
+                    text: 'points (c) and (e) of paragraph 1',
+                    type: 'internal',
+                  },
+                  {
+                    target: 'chap9',
+                    text: 'Chapter IX',
+                    type: 'internal',
+                  },
+                ],
+                children: [],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
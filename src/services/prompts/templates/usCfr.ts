@@ -0,0 +1,147 @@
+/**
+ * US Code of Federal Regulations: Parts, Subparts, sections "§ 240.10b-5" and paragraphs
+ * (a) > (1) > (i) > (A), cited as "§ 240.10b-5(b)" or "paragraph (c) of this section"
+ */
+
+import type { PromptTemplate } from '../promptRegistry';
+
+export const usCfrTemplate: PromptTemplate = {
+  id: 'us-cfr',
+  version: 1,
+  label: 'US Code of Federal Regulations',
+  description: 'Parts, Subparts and § sections with (a)/(1)/(i)/(A) paragraphs; cited as "§ 240.10b-5(b)"',
+  documentKind: 'US federal regulation',
+  structure: `    - Identify **Parts** (e.g., "PART 240 - GENERAL RULES AND REGULATIONS, SECURITIES EXCHANGE ACT OF 1934") and **Subparts** (e.g., "Subpart A - Rules and Regulations Under the Securities Exchange Act of 1934").
+    - Keep undesignated center headings (e.g., "Regulation 10B - Manipulative and Deceptive Devices and Contrivances") as grouping elements of type "heading".
+    - Within them, detect **sections** (e.g., "§ 240.10b-5 Employment of manipulative and deceptive devices."); the number is everything after "§" (e.g., "240.10b-5").
+    - Paragraphs nest in the CFR order: "(a)" lower-case letters, then "(1)" numbers, then "(i)" lower-case roman numerals, then "(A)" upper-case letters, then italic "(1)" numbers.
+    - Keep paragraph headings written in italics at the start of a paragraph (e.g., "(a) General.") as the paragraph title.
+    - Keep the "Authority:" and "Source:" notes of a Part as their own elements of type "note".`,
+  references: `    - Find all cross-references in the text, such as:
+        - "§ 240.10b-5" or "§§ 240.10b5-1 and 240.10b5-2"
+        - "paragraph (b)(1) of this section"
+        - "subpart B of this part"
+        - "section 10(b) of the Act (15 U.S.C. 78j)"
+        - "17 CFR 230.144"
+    - Map each reference to its target using a unique ID system based on the hierarchy (e.g., "s240.10b-5" for § 240.10b-5, "s240.10b-5:b" for its paragraph (b), "s240.10b5-1:c:1" for § 240.10b5-1(c)(1), "part240:subpartB" for Subpart B).
+    - Resolve "paragraph (c) of this section" against the section the reference appears in.
+    - Classify references as "internal" (within the document) or "external" (statutes in the U.S.C., other CFR titles or parts not in the document, Federal Register citations).`,
+  idExamples: ['part240', 's240.10b-5', 's240.10b-5:a', 's240.10b5-1:c:1'],
+  typeExamples: ['part', 'subpart', 'heading', 'section', 'paragraph'],
+  numberExamples: ['240', '240.10b-5', '(a)', '(1)'],
+  titleExample: 'Employment of manipulative and deceptive devices.',
+  exampleIntro: 'For §§ 240.10b-5 and 240.10b5-1 of 17 CFR Part 240',
+  referenceNote: 'In the example, `s240.10b5-1:a` refers to `s240.10b-5` in the same Part (internal) and to section 10(b) of the Securities Exchange Act (external); `s240.10b5-1:b` refers to a paragraph of its own section.',
+  documentTypes: ['cfr-part'],
+  example: {
+    metadata: {
+      title: '17 CFR Part 240 - General Rules and Regulations, Securities Exchange Act of 1934',
+      jurisdiction: 'United States (Federal)',
+      document_type: 'Regulation (CFR)',
+      source: 'CFR-2024-title17-vol4-part240.pdf',
+    },
+    hierarchy: [
+      {
+        id: 'part240',
+        type: 'part',
+        number: '240',
+        title: 'GENERAL RULES AND REGULATIONS, SECURITIES EXCHANGE ACT OF 1934',
+        text: '',
+        level: 1,
+        references: [],
+        children: [
+          {
+            id: 'part240:reg10b',
+            type: 'heading',
+            number: '',
+            title: 'Regulation 10B - Manipulative and Deceptive Devices and Contrivances',
+            text: '',
+            level: 2,
+            references: [],
+            children: [
+              {
+                id: 's240.10b-5',
+                type: 'section',
+                number: '240.10b-5',
+                title: 'Employment of manipulative and deceptive devices.',
+                text: 'It shall be unlawful for any person, directly or indirectly, by the use of any means or instrumentality of interstate commerce, or of the mails or of any facility of any national securities exchange,',
+                level: 3,
+                references: [],
+                children: [
+                  {
+                    id: 's240.10b-5:a',
+                    type: 'paragraph',
+                    number: '(a)',
+                    title: '',
+                    text: 'To employ any device, scheme, or artifice to defraud,',
+                    level: 4,
+                    references: [],
+                    children: [],
+                  },
+                  {
+                    id: 's240.10b-5:b',
+                    type: 'paragraph',
+                    number: '(b)',
+                    title: '',
+                    text: 'To make any untrue statement of a material fact or to omit to state a material fact necessary in order to make the statements made, in the light of the circumstances under which they were made, not misleading, or',
+                    level: 4,
+                    references: [],
+                    children: [],
+                  },
+                ],
+              },
+              {
+                id: 's240.10b5-1',
+                type: 'section',
+                number: '240.10b5-1',
+                title: 'Trading "on the basis of" material nonpublic information in insider trading cases.',
+                text: '',
+                level: 3,
+                references: [],
+                children: [
+                  {
+                    id: 's240.10b5-1:a',
+                    type: 'paragraph',
+                    number: '(a)',
+                    title: 'General.',
+                    text: 'The "manipulative and deceptive devices" prohibited by Section 10(b) of the Act (15 U.S.C. 78j) and § 240.10b-5 thereunder include, among other things, the purchase or sale of a security of any issuer, on the basis of material nonpublic information about that security or issuer, in breach of a duty of trust or confidence that is owed directly, indirectly, or derivatively, to the issuer of that security or the shareholders of that issuer, or to any other person who is the source of the material nonpublic information.',
+                    level: 4,
+                    references: [
+                      {
+                        target: 'external',
+                        text: 'Section 10(b) of the Act (15 U.S.C. 78j)',
+                        type: 'external',
+                      },
+                      {
+                        target: 's240.10b-5',
+                        text: '§ 240.10b-5',
+                        type: 'internal',
+                      },
+                    ],
+                    children: [],
+                  },
+                  {
+                    id: 's240.10b5-1:b',
+                    type: 'paragraph',
+                    number: '(b)',
+                    title: 'Definition of "on the basis of."',
+                    text: 'Subject to the affirmative defenses in paragraph (c) of this section, a purchase or sale of a security of an issuer is "on the basis of" material nonpublic information about that security or issuer if the person making the purchase or sale was aware of the material nonpublic information when the person made the purchase or sale.',
+                    level: 4,
+                    references: [
+                      {
+                        target: 's240.10b5-1:c',
+                        text: 'paragraph (c) of this section',
+                        type: 'internal',
+                      },
+                    ],
+                    children: [],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
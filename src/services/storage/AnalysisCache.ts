@@ -0,0 +1,119 @@
+/**
+ * Content-addressed cache of analysis results (IndexedDB)
+ * Whole documents are keyed on the cleaned text, chunking config, prompt version and model, so an
+ * identical upload returns the stored DocumentData instantly. Chunks are keyed on their own text, so
+ * after a small edit to the source only the chunks that changed are analysed again. The chunk entries
+ * also act as the checkpoint that lets an interrupted run resume.
+ */
+
+import { DocumentData } from '@/store/regulationStore';
+import type { ChunkResult } from '@/services/streaming/EnhancedStreamingService';
+import type { ValidationReport } from '@/services/validation/documentSchema';
+import { STORES, StoreName, idbDeleteOldest, idbGet, idbPut } from './indexedDb';
+import { hashText } from './hash';
+
+export interface CachedAnalysis {
+  key: string;
+  data: DocumentData;
+  validation: ValidationReport | null;
+  savedAt: number;
+}
+
+interface CachedChunk {
+  key: string;
+  result: ChunkResult;
+  savedAt: number;
+}
+
+/**
+ * Inputs that change a document's analysis
+ */
+export interface AnalysisCacheKeyParts {
+  text: string;
+  chunkingConfig: object;
+  promptVersion: string;
+  model: string;
+  mode: string;
+  /** Response schema or prompt-only output */
+  outputMode: string;
+}
+
+/**
+ * Inputs that change a single chunk's analysis
+ */
+export interface ChunkCacheKeyParts {
+  content: string;
+  promptVersion: string;
+  model: string;
+  /** Prompt variant, e.g. with or without a preliminary outline */
+  variant: string;
+  outputMode: string;
+  /** Structure the chunk's prompt says it continues, e.g. the previous chunk's open path */
+  context: string;
+}
+
+const MAX_CACHED_ANALYSES = 25;
+const MAX_CACHED_CHUNKS = 2000;
+
+export class AnalysisCache {
+  async createAnalysisKey(parts: AnalysisCacheKeyParts): Promise<string> {
+    return hashText(['doc', parts.text, JSON.stringify(parts.chunkingConfig), parts.promptVersion, parts.model, parts.mode, parts.outputMode].join('\u0000'));
+  }
+
+  async createChunkKey(parts: ChunkCacheKeyParts): Promise<string> {
+    return hashText(['chunk', parts.content, parts.promptVersion, parts.model, parts.variant, parts.outputMode, parts.context].join('\u0000'));
+  }
+
+  async getAnalysis(key: string): Promise<CachedAnalysis | null> {
+    try {
+      return (await idbGet<CachedAnalysis>(STORES.analyses, key)) ?? null;
+    } catch (error) {
+      console.warn('[DEBUG] Cache - Could not read analysis:', error);
+      return null;
+    }
+  }
+
+  async putAnalysis(key: string, data: DocumentData, validation: ValidationReport | null): Promise<void> {
+    try {
+      await idbPut<CachedAnalysis>(STORES.analyses, key, { key, data, validation, savedAt: Date.now() });
+      await this.pruneStore(STORES.analyses, MAX_CACHED_ANALYSES);
+    } catch (error) {
+      console.warn('[DEBUG] Cache - Could not store analysis:', error);
+    }
+  }
+
+  async getChunk(key: string): Promise<ChunkResult | null> {
+    try {
+      const entry = await idbGet<CachedChunk>(STORES.chunks, key);
+      return entry && !entry.result.failed ? entry.result : null;
+    } catch (error) {
+      console.warn('[DEBUG] Cache - Could not read chunk:', error);
+      return null;
+    }
+  }
+
+  async putChunk(key: string, result: ChunkResult): Promise<void> {
+    try {
+      await idbPut<CachedChunk>(STORES.chunks, key, { key, result, savedAt: Date.now() });
+      // Pruned here rather than with the analysis, since stopped or failed runs never store one
+      await this.pruneStore(STORES.chunks, MAX_CACHED_CHUNKS);
+    } catch (error) {
+      console.warn('[DEBUG] Cache - Could not store chunk:', error);
+    }
+  }
+
+  /**
+   * Drop the oldest entries beyond the size limits
+   */
+  async prune(): Promise<void> {
+    await this.pruneStore(STORES.analyses, MAX_CACHED_ANALYSES);
+    await this.pruneStore(STORES.chunks, MAX_CACHED_CHUNKS);
+  }
+
+  private async pruneStore(storeName: StoreName, limit: number): Promise<void> {
+    const deleted = await idbDeleteOldest(storeName, 'savedAt', limit);
+    if (deleted > 0) {
+      console.log('[DEBUG] Cache - Pruned', deleted, 'entries from', storeName);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Document library (IndexedDB)
+ * Each saved document keeps the original file, its analysis and the chat history. Summaries live in a
+ * separate store so the library screen can list documents without reading every file into memory.
+ */
+
+import type { DocumentData, HierarchyNode, RawDocumentContent } from '@/store/regulationStore';
+import type { ChatMessage } from '@/services/geminiChatService';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from './indexedDb';
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  fileName?: string;
+  fileType: RawDocumentContent['fileType'];
+  jurisdiction?: string;
+  documentType?: string;
+  nodeCount: number;
+  sizeBytes: number;
+  /** False for documents migrated from localStorage, which only kept the analysis */
+  hasOriginal: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryContent {
+  id: string;
+  raw: RawDocumentContent;
+  data: DocumentData | null;
+  chatHistory: ChatMessage[];
+}
+
+export interface LibraryDocument extends LibraryEntry {
+  content: LibraryContent;
+}
+
+export interface SaveLibraryDocumentInput {
+  /** Existing id to update in place; a new entry is created when omitted */
+  id?: string;
+  /** Explicit title; when omitted an existing entry keeps its (possibly renamed) title */
+  title?: string;
+  raw: RawDocumentContent;
+  data: DocumentData | null;
+  chatHistory: ChatMessage[];
+}
+
+/** Shape of the old localStorage list */
+interface LegacySavedDocument {
+  id: string;
+  title: string;
+  timestamp: number;
+  data: DocumentData;
+}
+
+const LEGACY_STORAGE_KEY = 'regulation_documents';
+
+const countNodes = (nodes: HierarchyNode[] = []): number =>
+  nodes.reduce((total, node) => total + 1 + countNodes(node.children), 0);
+
+const measureContent = (content: RawDocumentContent['content']): number => {
+  if (!content) return 0;
+  if (content instanceof ArrayBuffer) return content.byteLength;
+  return new Blob([content]).size;
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? `doc_${crypto.randomUUID()}`
+    : `doc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export class DocumentLibrary {
+  private migration: Promise<void> | null = null;
+
+  /**
+   * All entries, newest first
+   */
+  async list(): Promise<LibraryEntry[]> {
+    await this.migrateFromLocalStorage();
+    const entries = await idbGetAll<LibraryEntry>(STORES.library);
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<LibraryDocument | null> {
+    const [entry, content] = await Promise.all([
+      idbGet<LibraryEntry>(STORES.library, id),
+      idbGet<LibraryContent>(STORES.libraryContent, id),
+    ]);
+    return entry && content ? { ...entry, content } : null;
+  }
+
+  async save(input: SaveLibraryDocumentInput): Promise<LibraryEntry> {
+    const existing = input.id ? await idbGet<LibraryEntry>(STORES.library, input.id) : undefined;
+    const id = existing?.id ?? createId();
+    const now = Date.now();
+
+    const entry: LibraryEntry = {
+      id,
+      title: input.title || existing?.title || input.data?.metadata.title || input.raw.fileName || 'Untitled Document',
+      fileName: input.raw.fileName,
+      fileType: input.raw.fileType,
+      jurisdiction: input.data?.metadata.jurisdiction,
+      documentType: input.data?.metadata.document_type,
+      nodeCount: countNodes(input.data?.hierarchy),
+      sizeBytes: measureContent(input.raw.content),
+      hasOriginal: Boolean(input.raw.content),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    // Content first, so an entry never points at a missing payload
+    await idbPut<LibraryContent>(STORES.libraryContent, id, {
+      id,
+      raw: input.raw,
+      data: input.data,
+      chatHistory: input.chatHistory,
+    });
+    await idbPut<LibraryEntry>(STORES.library, id, entry);
+    return entry;
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const entry = await idbGet<LibraryEntry>(STORES.library, id);
+    if (!entry) return;
+    await idbPut<LibraryEntry>(STORES.library, id, { ...entry, title, updatedAt: Date.now() });
+  }
+
+  async updateChatHistory(id: string, chatHistory: ChatMessage[]): Promise<void> {
+    const content = await idbGet<LibraryContent>(STORES.libraryContent, id);
+    if (!content) return;
+    await idbPut<LibraryContent>(STORES.libraryContent, id, { ...content, chatHistory });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await idbDelete(STORES.library, id);
+      await idbDelete(STORES.libraryContent, id);
+    }
+  }
+
+  /**
+   * Move documents saved by earlier versions (a single localStorage key) into the library, once
+   */
+  private migrateFromLocalStorage(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.runMigration().catch((error) => {
+        console.warn('[DEBUG] Library - Could not migrate saved documents:', error);
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  private async runMigration(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+
+    let legacy: LegacySavedDocument[];
+    try {
+      legacy = JSON.parse(saved);
+    } catch (error) {
+      console.warn('[DEBUG] Library - Dropping unreadable saved documents:', error);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    for (const doc of Array.isArray(legacy) ? legacy : []) {
+      if (!doc?.id || !doc.data) continue;
+      const timestamp = doc.timestamp || Date.now();
+      await idbPut<LibraryContent>(STORES.libraryContent, doc.id, {
+        id: doc.id,
+        raw: { content: null, fileType: null, fileName: doc.data.metadata?.source },
+        data: doc.data,
+        chatHistory: [],
+      });
+      await idbPut<LibraryEntry>(STORES.library, doc.id, {
+        id: doc.id,
+        title: doc.title || doc.data.metadata?.title || 'Untitled Document',
+        fileName: doc.data.metadata?.source,
+        fileType: null,
+        jurisdiction: doc.data.metadata?.jurisdiction,
+        documentType: doc.data.metadata?.document_type,
+        nodeCount: countNodes(doc.data.hierarchy),
+        sizeBytes: 0,
+        hasOriginal: false,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`[DEBUG] Library - Migrated ${legacy.length} document(s) from localStorage`);
+  }
+}
+
+export const documentLibrary = new DocumentLibrary();
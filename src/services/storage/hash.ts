@@ -0,0 +1,24 @@
+/**
+ * Content hashing for cache keys
+ */
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the text as hex. Falls back to a 64-bit FNV-1a hash where SubtleCrypto
+ * is unavailable (pages served over plain http from another host).
+ */
+export async function hashText(text: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return toHex(digest);
+  }
+
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return `fnv-${hash.toString(16).padStart(16, '0')}`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ * The app uses a single database; every feature that persists data owns one object store listed in STORES.
+ */
+
+const DB_NAME = 'regulation-graph';
+const DB_VERSION = 4;
+
+export const STORES = {
+  /** Final DocumentData of completed analyses, keyed by document cache key */
+  analyses: 'analysisCache',
+  /** Per-chunk analysis results, keyed by chunk cache key; doubles as the checkpoint for resuming */
+  chunks: 'chunkCache',
+  /** Document library summaries, keyed by document id; small enough to list in one read */
+  library: 'libraryIndex',
+  /** Document library payloads (original file, analysis, chat), keyed by document id */
+  libraryContent: 'libraryContent',
+} as const;
+
+// Indexes per store; the cache entries carry a numeric savedAt so the oldest can be found without reading payloads
+const STORE_INDEXES: Partial<Record<StoreName, string[]>> = {
+  [STORES.analyses]: ['savedAt'],
+  [STORES.chunks]: ['savedAt'],
+};
+
+// Stores from earlier versions that are no longer used
+const OBSOLETE_STORES = ['analysisCheckpoints'];
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Open (and upgrade) the database once per page load
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OBSOLETE_STORES.forEach(name => {
+          if (db.objectStoreNames.contains(name)) {
+            db.deleteObjectStore(name);
+          }
+        });
+        Object.values(STORES).forEach(name => {
+          const store = db.objectStoreNames.contains(name)
+            ? request.transaction!.objectStore(name)
+            : db.createObjectStore(name);
+          (STORE_INDEXES[name] ?? []).forEach(index => {
+            if (!store.indexNames.contains(index)) {
+              store.createIndex(index, index);
+            }
+          });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(run(transaction.objectStore(storeName)));
+  await transactionDone(transaction);
+  return result;
+};
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const idbPut = async <T>(storeName: StoreName, key: IDBValidKey, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = async (storeName: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const idbGetAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+/**
+ * Delete entries in ascending order of an index until at most `keep` remain. Walks index keys only,
+ * so no payload is read. Returns the number of entries deleted.
+ */
+export const idbDeleteOldest = async (storeName: StoreName, indexName: string, keep: number): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  let deleted = 0;
+
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    const excess = countRequest.result - keep;
+    if (excess <= 0) return;
+    const cursorRequest = store.index(indexName).openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || deleted >= excess) return;
+      store.delete(cursor.primaryKey);
+      deleted++;
+      cursor.continue();
+    };
+  };
+
+  await transactionDone(transaction);
+  return deleted;
+};
@@ -1,101 +1,406 @@
 /**
- * Document chunking service using LangChain's RecursiveCharacterTextSplitter
- * Handles large documents by splitting them into manageable chunks while preserving context
+ * Structure-aware document chunker
+ * Detects Part / Section / Article / Schedule headings and packs whole sections into chunks up to a
+ * token budget, splitting at sentence boundaries only when a single section is too large.
+ * Which headings count depends on the chunking style of the document (statute, EU act, CFR part, contract).
+ * Every chunk records its exact offsets in the source text, and the plan can be built up front for preview.
  */
 
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { RuleBasedParser } from '@/services/parsing/RuleBasedParser';
 
 export interface ChunkingConfig {
-  chunkSize: number;
-  chunkOverlap: number;
-  separators?: string[];
+  /** Token budget for a single chunk */
+  maxChunkTokens: number;
+  /** Tokens repeated from the previous chunk when a section has to be split */
+  overlapTokens: number;
+  /** Documents up to this size are sent in a single request */
+  singlePassTokenLimit: number;
 }
 
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  maxChunkTokens: 2000,
+  overlapTokens: 250,
+  singlePassTokenLimit: 30000,
+};
+
 export interface DocumentChunk {
   content: string;
   index: number;
   metadata: {
+    /** Offset of the first character in the source text */
     startChar: number;
+    /** Offset one past the last character in the source text */
     endChar: number;
     totalChunks: number;
+    estimatedTokens: number;
+    /** Leading characters repeated from the previous chunk */
+    overlapChars: number;
+    /** Headings that start inside this chunk, e.g. "Part II", "Section 12" */
+    headings: string[];
+    /** The chunk starts or ends part-way through a section */
+    splitsSection: boolean;
+    /** Headings still open where the chunk starts, outermost first, e.g. ["Part II", "Section 12"] */
+    openHeadings: string[];
   };
 }
 
+export type ChunkingStrategy = 'single' | 'structure' | 'character';
+
+/** Which headings the document is cut at: statute Parts and sections, EU Chapters and Articles, CFR § sections or contract clauses */
+export type ChunkingStyle = 'statute' | 'article' | 'cfr' | 'clause';
+
+export interface ChunkingPlan {
+  strategy: ChunkingStrategy;
+  style: ChunkingStyle;
+  chunks: DocumentChunk[];
+  totalTokens: number;
+  headingCount: number;
+  config: ChunkingConfig;
+}
+
+type ChunkRange = Omit<DocumentChunk['metadata'], 'totalChunks' | 'estimatedTokens' | 'openHeadings'>;
+
+interface ChunkBoundary {
+  start: number;
+  label: string;
+  kind: 'part' | 'section' | 'article' | 'schedule';
+}
+
+interface TextSegment {
+  start: number;
+  end: number;
+  headings: string[];
+  opensPart: boolean;
+}
+
+// "Article 5 Definitions" - only accepted when numbering continues
+const ARTICLE_PATTERN = /\bArticle\s+(\d{1,3})([a-z]?)\b(?=\s+[A-Z])/g;
+
+// EU acts: "CHAPTER II", "TITLE III", "ANNEX I" (upper case, unlike references to them)
+const EU_DIVISION_PATTERN = /\b(CHAPTER|TITLE)\s+([IVXLC]+|\d{1,3})\b/g;
+const ANNEX_PATTERN = /\bANNEX(?:\s+([IVXLC]+|\d{1,2}))?\b/g;
+
+// CFR: "PART 240", "Subpart A—", and "§ 240.10b-5 Employment of ..." (first occurrence of each number)
+const CFR_PART_PATTERN = /\bPART\s+(\d{1,4})\b/g;
+const CFR_SUBPART_PATTERN = /\bSubpart\s+([A-Z]{1,2})\s*[-—–]/g;
+const CFR_SECTION_PATTERN = /§\s*(\d+\.[\w-]+)\s+(?=[A-Z])/g;
+
+// Contracts: top-level "4. Fees and payment" clauses in sequence, and "SCHEDULE 2"
+const CLAUSE_PATTERN = /(?<=^|\s)(\d{1,2})\.\s+(?=[A-Z])/g;
+const CONTRACT_SCHEDULE_PATTERN = /\bSCHEDULE\s+(\d{1,2}|[IVX]+)\b/g;
+
+// Approximate characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+// A new Part starts a new chunk once the current one is this full
+const PART_BREAK_FILL = 0.6;
+
 export class DocumentChunker {
-  private textSplitter: RecursiveCharacterTextSplitter;
   private config: ChunkingConfig;
+  private headingParser = new RuleBasedParser();
 
-  constructor(config: ChunkingConfig = {
-    chunkSize: 8000,  // Conservative chunk size for token limits
-    chunkOverlap: 1000, // Preserve context between chunks
-    separators: ['\n\n', '\n', '. ', ' ', ''] // Prioritize semantic breaks
-  }) {
-    this.config = config;
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: config.chunkSize,
-      chunkOverlap: config.chunkOverlap,
-      separators: config.separators,
-    });
+  constructor(config: Partial<ChunkingConfig> = {}) {
+    this.config = { ...DEFAULT_CHUNKING_CONFIG, ...config };
+  }
+
+  getConfig(): ChunkingConfig {
+    return { ...this.config };
   }
 
   /**
    * Split large document into manageable chunks
    */
-  async chunkDocument(documentText: string): Promise<DocumentChunk[]> {
+  async chunkDocument(documentText: string, style: ChunkingStyle = 'statute'): Promise<DocumentChunk[]> {
     try {
-      // Check if document needs chunking
-      if (documentText.length <= this.config.chunkSize) {
-        return [{
-          content: documentText,
-          index: 0,
-          metadata: {
-            startChar: 0,
-            endChar: documentText.length,
-            totalChunks: 1
-          }
-        }];
-      }
+      return this.planChunks(documentText, style).chunks;
+    } catch (error) {
+      console.error('Document chunking failed:', error);
+      throw new Error(`Failed to chunk document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Split into chunks
-      const chunks = await this.textSplitter.splitText(documentText);
-      
-      // Create chunk objects with metadata
-      let currentPosition = 0;
-      const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => {
-        const startChar = currentPosition;
-        const endChar = startChar + chunk.length;
-        currentPosition = endChar - this.config.chunkOverlap; // Account for overlap
-        
+  /**
+   * Build the chunking plan without calling any model, so it can be previewed
+   */
+  planChunks(documentText: string, style: ChunkingStyle = 'statute'): ChunkingPlan {
+    const totalTokens = this.estimateTokenCount(documentText);
+    const plan = (strategy: ChunkingStrategy, ranges: ChunkRange[], boundaries: ChunkBoundary[]): ChunkingPlan => ({
+      strategy,
+      style,
+      totalTokens,
+      headingCount: boundaries.length,
+      config: this.getConfig(),
+      chunks: ranges.map((range, index) => {
+        const content = documentText.slice(range.startChar, range.endChar);
         return {
-          content: chunk,
+          content,
           index,
           metadata: {
-            startChar,
-            endChar,
-            totalChunks: chunks.length
-          }
+            ...range,
+            totalChunks: ranges.length,
+            estimatedTokens: this.estimateTokenCount(content),
+            openHeadings: this.openHeadingsAt(range.startChar, boundaries),
+          },
         };
-      });
+      }),
+    });
 
-      return documentChunks;
-    } catch (error) {
-      console.error('Document chunking failed:', error);
-      throw new Error(`Failed to chunk document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!this.exceedsTokenLimit(documentText)) {
+      return plan('single', [{ startChar: 0, endChar: documentText.length, overlapChars: 0, headings: [], splitsSection: false }], []);
+    }
+
+    const boundaries = this.findBoundaries(documentText, style);
+    if (boundaries.length === 0) {
+      return plan('character', this.splitRange(documentText, 0, documentText.length, []), boundaries);
     }
+
+    return plan('structure', this.packSegments(documentText, this.buildSegments(documentText, boundaries)), boundaries);
   }
 
   /**
    * Estimate token count for a text (rough approximation)
    */
   estimateTokenCount(text: string): number {
-    // Rough approximation: ~4 characters per token for English text
-    return Math.ceil(text.length / 4);
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
   }
 
   /**
    * Check if text exceeds safe token limits
    */
-  exceedsTokenLimit(text: string, maxTokens: number = 30000): boolean {
+  exceedsTokenLimit(text: string, maxTokens: number = this.config.singlePassTokenLimit): boolean {
     return this.estimateTokenCount(text) > maxTokens;
   }
-}
\ No newline at end of file
+
+  /**
+   * Headings to cut at for the document's style, in text order
+   */
+  private findBoundaries(text: string, style: ChunkingStyle): ChunkBoundary[] {
+    const boundaries = style === 'article'
+      ? this.findEuBoundaries(text)
+      : style === 'cfr'
+        ? this.findCfrBoundaries(text)
+        : style === 'clause' ? this.findClauseBoundaries(text) : this.findStatuteBoundaries(text);
+    return boundaries.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Part / Section / Schedule headings from the rule-based parser, plus sequentially numbered Articles
+   */
+  private findStatuteBoundaries(text: string): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = this.headingParser.findHeadings(text).map(heading => ({
+      start: heading.start,
+      kind: heading.kind,
+      label: heading.kind === 'part'
+        ? `Part ${heading.number}`
+        : heading.kind === 'section' ? `Section ${heading.number}` : heading.title,
+    }));
+    return [...boundaries, ...this.findArticles(text)];
+  }
+
+  /**
+   * Chapters and Titles, sequentially numbered Articles and Annexes of an EU act
+   */
+  private findEuBoundaries(text: string): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = [];
+    for (const match of text.matchAll(EU_DIVISION_PATTERN)) {
+      const label = `${match[1].charAt(0)}${match[1].slice(1).toLowerCase()} ${match[2]}`;
+      boundaries.push({ start: match.index!, kind: 'part', label });
+    }
+    for (const match of text.matchAll(ANNEX_PATTERN)) {
+      boundaries.push({ start: match.index!, kind: 'schedule', label: match[1] ? `Annex ${match[1]}` : 'Annex' });
+    }
+    return [...boundaries, ...this.findArticles(text)];
+  }
+
+  /**
+   * Parts, Subparts and § sections of a CFR part; a section number seen before is a reference
+   */
+  private findCfrBoundaries(text: string): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = [];
+    for (const match of text.matchAll(CFR_PART_PATTERN)) {
+      boundaries.push({ start: match.index!, kind: 'part', label: `Part ${match[1]}` });
+    }
+    for (const match of text.matchAll(CFR_SUBPART_PATTERN)) {
+      boundaries.push({ start: match.index!, kind: 'part', label: `Subpart ${match[1]}` });
+    }
+
+    const seen = new Set<string>();
+    for (const match of text.matchAll(CFR_SECTION_PATTERN)) {
+      if (seen.has(match[1])) continue;
+      seen.add(match[1]);
+      boundaries.push({ start: match.index!, kind: 'section', label: `§ ${match[1]}` });
+    }
+    return boundaries;
+  }
+
+  /**
+   * Top-level clauses numbered 1, 2, 3... in sequence, and Schedules
+   */
+  private findClauseBoundaries(text: string): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = [];
+    let lastClause = 0;
+    for (const match of text.matchAll(CLAUSE_PATTERN)) {
+      const value = parseInt(match[1], 10);
+      if (value !== lastClause + 1) continue;
+      lastClause = value;
+      boundaries.push({ start: match.index!, kind: 'section', label: `Clause ${value}` });
+    }
+    for (const match of text.matchAll(CONTRACT_SCHEDULE_PATTERN)) {
+      boundaries.push({ start: match.index!, kind: 'schedule', label: `Schedule ${match[1]}` });
+    }
+    return boundaries;
+  }
+
+  /**
+   * Articles whose numbering continues from the previous one (inserted "5a" articles included)
+   */
+  private findArticles(text: string): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = [];
+    let lastArticle = 0;
+    for (const match of text.matchAll(ARTICLE_PATTERN)) {
+      const value = parseInt(match[1], 10);
+      const inserted = match[2] && value === lastArticle;
+      if (!inserted && (value <= lastArticle || value > lastArticle + 3)) continue;
+      lastArticle = value;
+      boundaries.push({ start: match.index!, kind: 'article', label: `Article ${match[1]}${match[2]}` });
+    }
+    return boundaries;
+  }
+
+  /**
+   * The enclosing Part, and the section being continued when the chunk starts mid-section
+   */
+  private openHeadingsAt(position: number, boundaries: ChunkBoundary[]): string[] {
+    const before = boundaries.filter(boundary => boundary.start < position);
+    if (boundaries.some(boundary => boundary.start === position && boundary.kind === 'part')) return [];
+
+    const open: string[] = [];
+    const lastPart = [...before].reverse().find(boundary => boundary.kind === 'part' || boundary.kind === 'schedule');
+    if (lastPart?.kind === 'part') open.push(lastPart.label);
+
+    const last = before[before.length - 1];
+    const startsOnBoundary = boundaries.some(boundary => boundary.start === position);
+    if (!startsOnBoundary && last && last.kind !== 'part') open.push(last.label);
+
+    return open;
+  }
+
+  /**
+   * Cut the text at every boundary; text before the first heading becomes its own segment
+   */
+  private buildSegments(text: string, boundaries: ChunkBoundary[]): TextSegment[] {
+    const segments: TextSegment[] = [];
+    if (boundaries[0].start > 0) {
+      segments.push({ start: 0, end: boundaries[0].start, headings: [], opensPart: false });
+    }
+
+    boundaries.forEach((boundary, index) => {
+      const end = index + 1 < boundaries.length ? boundaries[index + 1].start : text.length;
+      const previous = segments[segments.length - 1];
+      // A Part heading and its first section travel together
+      if (previous && previous.end === boundary.start && previous.opensPart && previous.headings.length === 1 && previous.end - previous.start < 500) {
+        previous.end = end;
+        previous.headings.push(boundary.label);
+        return;
+      }
+      segments.push({ start: boundary.start, end, headings: [boundary.label], opensPart: boundary.kind === 'part' });
+    });
+
+    return segments;
+  }
+
+  /**
+   * Greedily pack whole segments up to the token budget
+   */
+  private packSegments(text: string, segments: TextSegment[]): ChunkRange[] {
+    const budget = this.config.maxChunkTokens * CHARS_PER_TOKEN;
+    const ranges: ChunkRange[] = [];
+    let current: { startChar: number; endChar: number; headings: string[] } | null = null;
+
+    const flush = () => {
+      if (current) {
+        ranges.push({ ...current, overlapChars: 0, splitsSection: false });
+        current = null;
+      }
+    };
+
+    segments.forEach(segment => {
+      const length = segment.end - segment.start;
+
+      if (length > budget) {
+        flush();
+        ranges.push(...this.splitRange(text, segment.start, segment.end, segment.headings));
+        return;
+      }
+
+      if (current) {
+        const size = current.endChar - current.startChar;
+        const full = size + length > budget || (segment.opensPart && size >= budget * PART_BREAK_FILL);
+        if (full) flush();
+      }
+
+      if (current) {
+        current.endChar = segment.end;
+        current.headings.push(...segment.headings);
+      } else {
+        current = { startChar: segment.start, endChar: segment.end, headings: [...segment.headings] };
+      }
+    });
+    flush();
+
+    return ranges;
+  }
+
+  /**
+   * Split an oversized range at sentence boundaries, repeating a little text between pieces
+   */
+  private splitRange(text: string, start: number, end: number, headings: string[]): ChunkRange[] {
+    const budget = this.config.maxChunkTokens * CHARS_PER_TOKEN;
+    const overlap = Math.min(this.config.overlapTokens * CHARS_PER_TOKEN, Math.floor(budget / 2));
+    const ranges: ChunkRange[] = [];
+    let pieceStart = start;
+    let overlapChars = 0;
+
+    while (pieceStart < end) {
+      let pieceEnd = Math.min(end, pieceStart + budget);
+      if (pieceEnd < end) {
+        pieceEnd = this.findBreak(text, pieceStart + overlapChars + Math.floor(budget / 2), pieceEnd);
+      }
+
+      ranges.push({
+        startChar: pieceStart,
+        endChar: pieceEnd,
+        overlapChars,
+        headings: ranges.length === 0 ? headings : [],
+        splitsSection: true,
+      });
+
+      if (pieceEnd >= end) break;
+
+      // Next piece starts a little earlier, on a word boundary
+      const spaceAfter = text.indexOf(' ', pieceEnd - overlap);
+      const nextStart = spaceAfter >= 0 && spaceAfter < pieceEnd ? spaceAfter + 1 : pieceEnd;
+      overlapChars = pieceEnd - nextStart;
+      pieceStart = nextStart;
+    }
+
+    // A range that fits in one piece is not really split
+    if (ranges.length === 1) ranges[0].splitsSection = false;
+    return ranges;
+  }
+
+  /**
+   * Last sentence (or clause, or word) break in [from, to); falls back to `to`
+   */
+  private findBreak(text: string, from: number, to: number): number {
+    const window = text.slice(from, to);
+    for (const pattern of [/[.:]\s(?=\S)/g, /;\s(?=\S)/g, /\s/g]) {
+      let last = -1;
+      for (const match of window.matchAll(pattern)) {
+        last = match.index! + match[0].length;
+      }
+      if (last > 0) return from + last;
+    }
+    return to;
+  }
+}
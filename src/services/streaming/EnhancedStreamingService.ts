@@ -3,14 +3,19 @@
  * Handles large documents by processing them in chunks and streaming responses progressively
  */
 
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import { GEMINI_API_KEY } from '@/config/api';
-import { DocumentChunker, DocumentChunk } from './DocumentChunker';
-import { StreamingParser, ParsedChunk } from './StreamingParser';
-import { HierarchyNode } from '@/store/regulationStore';
-import { buildRegulatoryPromptStructure } from '@/services/prompts/systemPrompt';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { resolveProvider, getModelKey, getDocumentResponseSchema, resolveOutputMode, LLMProvider, LLMProviderId } from '@/services/llm';
+import { DocumentChunker, DocumentChunk, ChunkingPlan, ChunkingStyle } from './DocumentChunker';
+import { StreamingParser, ParsedChunk, OutputParser } from './StreamingParser';
+import { NdjsonStreamingParser } from './NdjsonStreamingParser';
+import { HierarchyStitcher, OpenAncestor, openPathAfter } from './HierarchyStitcher';
+import { ExtractionOutputMode, HierarchyNode } from '@/store/regulationStore';
+import { buildRegulatoryPromptStructure, PromptOptions, promptVersionFor } from '@/services/prompts/systemPrompt';
+import { ValidationReport, createValidationReport } from '@/services/validation/documentSchema';
+import { AIMessageChunk, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { EXTRACTION_CONCURRENCY, EXTRACTION_MAX_RETRIES, EXTRACTION_RETRY_BASE_MS } from '@/config/api';
+import { RetryPolicy, classifyLLMError, computeBackoff, createAbortError, sleep } from '@/services/llm/retry';
+import { AnalysisCache } from '@/services/storage/AnalysisCache';
 
 export interface StreamingChunk {
   type: 'metadata' | 'hierarchy_start' | 'node' | 'complete' | 'error' | 'chunk_complete';
@@ -18,6 +23,23 @@ export interface StreamingChunk {
   isPartial?: boolean;
   chunkIndex?: number;
   totalChunks?: number;
+  // Nodes placed by the parser: parent node id, null at the top level (see StreamingParser)
+  parentId?: string | null;
+}
+
+export type ChunkState = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+/**
+ * Progress of one chunk request in a chunked run
+ */
+export interface ChunkStatus {
+  chunkIndex: number;
+  totalChunks: number;
+  state: ChunkState;
+  attempt: number;
+  nodeCount: number;
+  error?: string;
+  retryInMs?: number;
 }
 
 export interface StreamingCallbacks {
@@ -25,40 +47,67 @@ export interface StreamingCallbacks {
   onProgress: (progress: number, message: string) => void;
   onComplete: (finalData: any) => void;
   onError: (error: Error) => void;
+  onChunkStatus?: (status: ChunkStatus) => void;
+}
+
+export interface StreamingOptions extends PromptOptions {
+  /**
+   * Chunk requests in flight at once (defaults to VITE_EXTRACTION_CONCURRENCY); a chunk that starts
+   * inside open structure still waits for the previous chunk's result
+   */
+  concurrency?: number;
+  /** Retries per chunk for rate limits and transient errors */
+  maxRetries?: number;
+  /** Stops the run, including in-flight model requests */
+  signal?: AbortSignal;
+  /** Reuse cached chunk results, including chunks finished by an interrupted run (default true) */
+  useCache?: boolean;
+  /** Hold the model to the document schema when the provider has structured output (default true) */
+  responseSchema?: boolean;
+  /** Headings large documents are split at (default 'statute') */
+  chunkingStyle?: ChunkingStyle;
+}
+
+/**
+ * Nodes, metadata and validation issues produced for one chunk
+ */
+export interface ChunkResult {
+  nodes: HierarchyNode[];
+  metadata: any;
+  report: ValidationReport;
+  failed: boolean;
 }
 
 export class EnhancedStreamingService {
-  private llm: ChatGoogleGenerativeAI;
+  private llm: BaseChatModel;
   private chunker: DocumentChunker;
-  private parser: StreamingParser;
+  private parser: OutputParser;
+  private stitcher = new HierarchyStitcher();
   private mergedHierarchy: HierarchyNode[] = [];
   private mergedMetadata: any = null;
   private rawStreamBuffer = ''; // For debug logging
-
-  constructor() {
-    this.llm = new ChatGoogleGenerativeAI({
-      apiKey: GEMINI_API_KEY,
-      model: 'gemini-2.5-flash',
+  private validationReport: ValidationReport = createValidationReport();
+  private failedChunks: number[] = [];
+  // Shared across workers so one rate limit pauses all of them
+  private rateLimitedUntil = 0;
+  private cache = new AnalysisCache();
+  private modelKey: string;
+  private provider: LLMProvider;
+  private outputMode: ExtractionOutputMode = 'text';
+
+  constructor(providerOverride?: { provider?: LLMProviderId; model?: string }) {
+    const resolved = resolveProvider('extraction', providerOverride);
+    const { provider, model } = resolved;
+    console.log('[DEBUG] Enhanced - Using', provider.label, 'model', model, 'for extraction');
+    this.modelKey = getModelKey(resolved);
+    this.provider = provider;
+
+    this.llm = provider.createChatModel({
+      model,
       temperature: 0.1,
       streaming: true,
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_NONE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_NONE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_NONE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_NONE,
-        },
-      ],
+      // Retries are handled per chunk by processChunkWithRetry
+      maxRetries: 0,
     });
     
     this.chunker = new DocumentChunker();
@@ -70,66 +119,181 @@ export class EnhancedStreamingService {
    */
   async streamDocumentParsing(
     documentText: string,
-    callbacks: StreamingCallbacks
+    callbacks: StreamingCallbacks,
+    options: StreamingOptions = {}
   ): Promise<void> {
     try {
       // Reset state for new document
-      this.parser.resetState();
+      this.parser = this.createParser(options);
+      this.outputMode = resolveOutputMode(this.provider, options.protocol, options.responseSchema);
+      console.log('[DEBUG] Enhanced - Output mode:', this.outputMode === 'schema' ? 'response schema' : 'prompt only');
       this.mergedHierarchy = [];
+      this.stitcher.reset();
       this.mergedMetadata = null;
       this.rawStreamBuffer = '';
+      this.validationReport = createValidationReport();
+      this.failedChunks = [];
+      this.rateLimitedUntil = 0;
 
       callbacks.onProgress(5, 'Analyzing document size...');
 
       // Check if document needs chunking
-      if (this.chunker.exceedsTokenLimit(documentText)) {
-        await this.processLargeDocument(documentText, callbacks);
+      const plan = this.chunker.planChunks(documentText, options.chunkingStyle);
+      if (plan.chunks.length > 1) {
+        await this.processLargeDocument(plan, callbacks, options);
       } else {
-        await this.processSingleDocument(documentText, callbacks);
+        await this.processSingleDocument(documentText, callbacks, options);
       }
 
     } catch (error) {
+      if (options.signal?.aborted) {
+        console.log('[DEBUG] Enhanced - Analysis stopped');
+        callbacks.onError(createAbortError());
+        return;
+      }
       console.error('Enhanced streaming error:', error);
       callbacks.onError(error instanceof Error ? error : new Error('Streaming failed'));
     }
   }
 
   /**
-   * Process large document in chunks
+   * Process large document in chunks: a bounded pool of workers sends chunk requests in parallel,
+   * and finished chunks are stitched and emitted in document order
    */
   private async processLargeDocument(
-    documentText: string,
-    callbacks: StreamingCallbacks
+    plan: ChunkingPlan,
+    callbacks: StreamingCallbacks,
+    options: StreamingOptions
   ): Promise<void> {
     callbacks.onProgress(10, 'Splitting large document into chunks...');
     
-    const chunks = await this.chunker.chunkDocument(documentText);
+    const chunks = plan.chunks;
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? EXTRACTION_CONCURRENCY, chunks.length));
+    const retryPolicy = this.getRetryPolicy(options);
     callbacks.onProgress(15, `Processing ${chunks.length} chunks...`);
 
-    console.log('[DEBUG] Enhanced - Processing', chunks.length, 'chunks');
+    console.log('[DEBUG] Enhanced - Processing', chunks.length, 'chunks using', plan.strategy, 'chunking (' + plan.style + ' headings),', concurrency, 'at a time');
+
+    const statuses: ChunkStatus[] = chunks.map(chunk => ({
+      chunkIndex: chunk.index,
+      totalChunks: chunks.length,
+      state: 'queued',
+      attempt: 0,
+      nodeCount: 0,
+    }));
+    const updateStatus = (index: number, update: Partial<ChunkStatus>) => {
+      statuses[index] = { ...statuses[index], ...update };
+      callbacks.onChunkStatus?.(statuses[index]);
+    };
+    statuses.forEach(status => callbacks.onChunkStatus?.(status));
+
+    const results: Array<ChunkResult | null> = chunks.map(() => null);
+    const failures: Error[] = [];
+    let nextToStitch = 0;
+    let settledCount = 0;
+    let cursor = 0;
+    let cacheHits = 0;
+
+    // Each chunk's result (null when the run stopped first), awaited by the chunk after it
+    const settled = chunks.map(() => {
+      let resolve: (result: ChunkResult | null) => void = () => {};
+      const promise = new Promise<ChunkResult | null>(done => { resolve = done; });
+      return { promise, resolve };
+    });
+    const openPaths: OpenAncestor[][] = [];
+
+    // A chunk that starts inside open structure waits for the previous chunk's result, not for the
+    // in-order stitch, and continues from the path that result leaves open. Other chunks start at once.
+    const resolveOpenPath = async (chunk: DocumentChunk): Promise<OpenAncestor[] | null> => {
+      if (chunk.index === 0 || chunk.metadata.openHeadings.length === 0) return [];
+      const previous = await settled[chunk.index - 1].promise;
+      return previous ? openPathAfter(openPaths[chunk.index - 1], previous.nodes) : null;
+    };
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const baseProgress = 15 + (i / chunks.length) * 75;
-      
-      callbacks.onProgress(
-        baseProgress, 
-        `Processing chunk ${i + 1} of ${chunks.length}...`
-      );
+    // Chunks analysed before with the same text and context (unchanged chunks, or an interrupted run) come from the cache
+    const useCache = options.useCache !== false;
 
-      console.log('[DEBUG] Enhanced - Starting chunk', i + 1, 'of', chunks.length);
-      await this.processChunk(chunk, callbacks);
-      
-      callbacks.onChunk({
-        type: 'chunk_complete',
-        data: { chunkIndex: i, totalChunks: chunks.length },
-        chunkIndex: i,
-        totalChunks: chunks.length
-      });
+    // Stitch and emit every finished chunk at the head of the queue
+    const flushInOrder = () => {
+      while (nextToStitch < chunks.length && results[nextToStitch]) {
+        const result = results[nextToStitch]!;
+        this.stitchChunkResult(chunks[nextToStitch], result, callbacks);
+        nextToStitch++;
+      }
+    };
+
+    const worker = async () => {
+      while (cursor < chunks.length && !options.signal?.aborted) {
+        const chunk = chunks[cursor++];
+
+        try {
+          const openPath = await resolveOpenPath(chunk);
+          if (!openPath || options.signal?.aborted) break;
+          openPaths[chunk.index] = openPath;
+
+          // The open path changes the prompt, so it is part of the key
+          const chunkKey = await this.cache.createChunkKey({
+            content: chunk.content,
+            promptVersion: promptVersionFor(options.protocol, options.template),
+            model: this.modelKey,
+            variant: options.outlineHint ? 'outline' : 'plain',
+            outputMode: this.outputMode,
+            context: JSON.stringify({ openPath, openHeadings: chunk.metadata.openHeadings }),
+          });
+          const cached = useCache ? await this.cache.getChunk(chunkKey) : null;
+
+          if (cached) {
+            cacheHits++;
+            results[chunk.index] = cached;
+            updateStatus(chunk.index, { state: 'done', nodeCount: cached.nodes.length });
+          } else {
+            console.log('[DEBUG] Enhanced - Starting chunk', chunk.index + 1, 'of', chunks.length);
+            results[chunk.index] = await this.processChunkWithRetry(chunk, options, retryPolicy, openPath, (update) => updateStatus(chunk.index, update));
+            updateStatus(chunk.index, { state: 'done', nodeCount: results[chunk.index]!.nodes.length, error: undefined, retryInMs: undefined });
+            void this.cache.putChunk(chunkKey, results[chunk.index]!);
+            console.log('[DEBUG] Enhanced - Completed chunk', chunk.index + 1, 'of', chunks.length);
+          }
+        } catch (error) {
+          if (options.signal?.aborted) {
+            updateStatus(chunk.index, { state: 'queued', error: undefined, retryInMs: undefined });
+            break;
+          }
+          const failure = error instanceof Error ? error : new Error('Chunk processing failed');
+          console.error('[DEBUG] Enhanced - Chunk', chunk.index + 1, 'failed:', failure);
+          failures.push(failure);
+          results[chunk.index] = { nodes: [], metadata: null, report: createValidationReport(), failed: true };
+          updateStatus(chunk.index, { state: 'failed', error: failure.message, retryInMs: undefined });
+        } finally {
+          settled[chunk.index].resolve(results[chunk.index]);
+        }
+
+        settledCount++;
+        callbacks.onProgress(
+          15 + (settledCount / chunks.length) * 75,
+          `Processed ${settledCount} of ${chunks.length} chunks...`
+        );
+        flushInOrder();
+      }
+    };
 
-      console.log('[DEBUG] Enhanced - Completed chunk', i + 1, 'of', chunks.length);
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+    if (cacheHits > 0) {
+      console.log('[DEBUG] Enhanced - Reused', cacheHits, 'of', chunks.length, 'chunks from cache');
+    }
+
+    if (failures.length === chunks.length) {
+      throw failures[failures.length - 1];
+    }
+    if (failures.length > 0) {
+      callbacks.onProgress(90, `${failures.length} of ${chunks.length} chunks failed; continuing with the rest`);
     }
 
+    this.failedChunks = statuses.filter(status => status.state === 'failed').map(status => status.chunkIndex);
+    this.mergedHierarchy = this.stitcher.getHierarchy();
+
     console.log('[DEBUG] Enhanced - All chunks processed, finalizing results...');
     console.log('[DEBUG] Enhanced - Final hierarchy length:', this.mergedHierarchy.length);
     console.log('[DEBUG] Enhanced - Final metadata:', this.mergedMetadata);
@@ -138,16 +302,92 @@ export class EnhancedStreamingService {
     this.finalizeMergedResults(callbacks);
   }
 
+  /**
+   * Add a finished chunk's nodes to the merged tree and forward them to the callbacks
+   */
+  private stitchChunkResult(chunk: DocumentChunk, result: ChunkResult, callbacks: StreamingCallbacks): void {
+    if (result.metadata && !this.mergedMetadata) {
+      console.log('[DEBUG] Enhanced - Chunk', chunk.index, 'metadata:', result.metadata);
+      this.mergedMetadata = result.metadata;
+      callbacks.onChunk({
+        type: 'metadata',
+        data: result.metadata,
+        chunkIndex: chunk.index,
+        totalChunks: chunk.metadata.totalChunks
+      });
+    }
+
+    this.stitcher.beginChunk();
+    result.nodes.forEach(node => {
+      this.stitcher.addNode(node);
+      callbacks.onChunk({
+        type: 'node',
+        data: node,
+        chunkIndex: chunk.index,
+        totalChunks: chunk.metadata.totalChunks
+      });
+    });
+
+    const summary = this.stitcher.getChunkSummary();
+    console.log('[DEBUG] Enhanced - Chunk', chunk.index + 1, 'stitched', result.nodes.length, 'nodes:', summary.added, 'new,', summary.merged, 'merged,', summary.reattached, 'reattached');
+
+    // Collect validation issues from this chunk's parser
+    this.validationReport.checkedNodes += result.report.checkedNodes;
+    this.validationReport.rejected.push(...result.report.rejected);
+    this.validationReport.coerced.push(...result.report.coerced);
+
+    callbacks.onChunk({
+      type: 'chunk_complete',
+      data: { chunkIndex: chunk.index, totalChunks: chunk.metadata.totalChunks, failed: result.failed },
+      chunkIndex: chunk.index,
+      totalChunks: chunk.metadata.totalChunks
+    });
+  }
+
+  /**
+   * Run one chunk, retrying transient failures with exponential backoff.
+   * A rate limit pauses every worker until the provider's retry delay has passed.
+   */
+  private async processChunkWithRetry(
+    chunk: DocumentChunk,
+    options: StreamingOptions,
+    policy: RetryPolicy,
+    openPath: OpenAncestor[],
+    onStatus: (update: Partial<ChunkStatus>) => void
+  ): Promise<ChunkResult> {
+    for (let attempt = 1; ; attempt++) {
+      const waitMs = this.rateLimitedUntil - Date.now();
+      if (waitMs > 0) await sleep(waitMs, options.signal);
+
+      onStatus({ state: 'running', attempt, error: undefined, retryInMs: undefined });
+      try {
+        return await this.processChunk(chunk, options, openPath);
+      } catch (error) {
+        const info = classifyLLMError(error);
+        if (options.signal?.aborted || !info.retryable || attempt > policy.maxRetries) throw error;
+
+        const delay = computeBackoff(attempt, policy, info.retryAfterMs);
+        if (info.rateLimited) {
+          this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay);
+        }
+        console.warn('[DEBUG] Enhanced - Chunk', chunk.index + 1, 'attempt', attempt, 'failed, retrying in', delay, 'ms:', info.message);
+        onStatus({ state: 'retrying', attempt, error: info.message, retryInMs: delay });
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
   /**
    * Process single document (fits within token limits)
    */
   private async processSingleDocument(
     documentText: string,
-    callbacks: StreamingCallbacks
+    callbacks: StreamingCallbacks,
+    options: StreamingOptions
   ): Promise<void> {
     callbacks.onProgress(10, 'Starting AI analysis...');
 
-    const promptStructure = buildRegulatoryPromptStructure(documentText);
+    const promptStructure = buildRegulatoryPromptStructure(documentText, options);
     
     console.log('[DEBUG] Enhanced - System message length:', promptStructure.systemMessage.length);
     console.log('[DEBUG] Enhanced - User message length:', promptStructure.userMessage.length);
@@ -159,7 +399,7 @@ export class EnhancedStreamingService {
       new HumanMessage(promptStructure.userMessage)
     ];
 
-    const stream = await this.llm.stream(messages);
+    const stream = await this.openSingleStream(messages, options);
     let chunkCount = 0;
     let firstChunkLogged = false;
 
@@ -180,22 +420,7 @@ export class EnhancedStreamingService {
         
         console.log('[DEBUG] Enhanced - Parser returned', parsedChunks.length, 'chunks');
         
-        // Forward parsed chunks to callbacks
-        parsedChunks.forEach(parsedChunk => {
-          if (parsedChunk.type === 'metadata' && !this.mergedMetadata) {
-            console.log('[DEBUG] Enhanced - Merged metadata:', parsedChunk.data);
-            this.mergedMetadata = parsedChunk.data;
-          } else if (parsedChunk.type === 'node') {
-            console.log('[DEBUG] Enhanced - Merged node:', parsedChunk.data.id, parsedChunk.data.type);
-            this.mergedHierarchy.push(parsedChunk.data);
-          }
-          
-          callbacks.onChunk({
-            type: parsedChunk.type as any,
-            data: parsedChunk.data,
-            isPartial: parsedChunk.isPartial
-          });
-        });
+        this.forwardParsedChunks(parsedChunks, callbacks);
 
         // Update progress
         const progress = Math.min(90, 15 + (chunkCount * 2));
@@ -203,17 +428,76 @@ export class EnhancedStreamingService {
       }
     }
 
+    this.forwardParsedChunks(this.parser.finish(), callbacks);
+    // The parser's top-level nodes carry their complete subtrees
+    this.mergedHierarchy = this.parser.getState().parsedNodes;
+    this.validationReport = this.parser.getValidationReport();
     this.finalizeMergedResults(callbacks);
   }
 
   /**
-   * Process individual document chunk
+   * Forward parsed chunks of the single-request stream to callbacks
+   */
+  private forwardParsedChunks(parsedChunks: ParsedChunk[], callbacks: StreamingCallbacks): void {
+    parsedChunks.forEach(parsedChunk => {
+      if (parsedChunk.type === 'metadata' && !this.mergedMetadata) {
+        console.log('[DEBUG] Enhanced - Merged metadata:', parsedChunk.data);
+        this.mergedMetadata = parsedChunk.data;
+      }
+
+      callbacks.onChunk({
+        type: parsedChunk.type as any,
+        data: parsedChunk.data,
+        isPartial: parsedChunk.isPartial,
+        parentId: parsedChunk.parentId
+      });
+    });
+  }
+
+  /**
+   * Model call options; in schema mode they carry the provider's structured-output settings
+   */
+  private getCallOptions(options: StreamingOptions) {
+    return {
+      signal: options.signal,
+      ...(this.outputMode === 'schema' ? this.provider.responseSchemaOptions(getDocumentResponseSchema()) : {}),
+    };
+  }
+
+  /**
+   * Parser for the run's output protocol
+   */
+  private createParser(options: StreamingOptions): OutputParser {
+    return options.protocol === 'ndjson' ? new NdjsonStreamingParser() : new StreamingParser();
+  }
+
+  /**
+   * Open the single-request stream, retrying transient failures; nothing has been emitted yet at this point
+   */
+  private async openSingleStream(messages: BaseMessage[], options: StreamingOptions): Promise<AsyncIterable<AIMessageChunk>> {
+    const policy = this.getRetryPolicy(options);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.llm.stream(messages, this.getCallOptions(options));
+      } catch (error) {
+        const info = classifyLLMError(error);
+        if (options.signal?.aborted || !info.retryable || attempt > policy.maxRetries) throw error;
+        const delay = computeBackoff(attempt, policy, info.retryAfterMs);
+        console.warn('[DEBUG] Enhanced - Request attempt', attempt, 'failed, retrying in', delay, 'ms:', info.message);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Process individual document chunk; nodes are collected, not emitted, so a failed attempt leaves no trace
    */
   private async processChunk(
     chunk: DocumentChunk,
-    callbacks: StreamingCallbacks
-  ): Promise<void> {
-    const promptStructure = this.buildChunkPromptStructure(chunk);
+    options: StreamingOptions,
+    openPath: OpenAncestor[]
+  ): Promise<ChunkResult> {
+    const promptStructure = this.buildChunkPromptStructure(chunk, options, openPath);
     
     console.log('[DEBUG] Enhanced - Chunk', chunk.index, 'system message length:', promptStructure.systemMessage.length);
     
@@ -222,84 +506,38 @@ export class EnhancedStreamingService {
       new HumanMessage(promptStructure.userMessage)
     ];
     
-    const stream = await this.llm.stream(messages);
-    const parser = new StreamingParser(); // Fresh parser for each chunk
+    const stream = await this.llm.stream(messages, this.getCallOptions(options));
+    const parser = this.createParser(options); // Fresh parser for each chunk
+    const result: ChunkResult = { nodes: [], metadata: null, report: createValidationReport(), failed: false };
     
     for await (const streamChunk of stream) {
       const content = streamChunk.content || '';
       
       if (typeof content === 'string') {
         const parsedChunks = parser.processChunk(content, chunk.index);
-        
-        console.log('[DEBUG] Enhanced - Chunk', chunk.index, 'parser returned', parsedChunks.length, 'chunks');
-        
-        // Process each parsed chunk
         parsedChunks.forEach(parsedChunk => {
-          if (parsedChunk.type === 'metadata' && !this.mergedMetadata) {
-            console.log('[DEBUG] Enhanced - Chunk', chunk.index, 'metadata:', parsedChunk.data);
-            this.mergedMetadata = parsedChunk.data;
-          } else if (parsedChunk.type === 'node') {
-            // Merge nodes from different chunks
-            console.log('[DEBUG] Enhanced - Chunk', chunk.index, 'merging node:', parsedChunk.data.id, parsedChunk.data.type);
-            this.mergeHierarchyNode(parsedChunk.data);
+          if (parsedChunk.type === 'metadata' && !result.metadata) {
+            result.metadata = parsedChunk.data;
           }
-          
-          callbacks.onChunk({
-            type: parsedChunk.type as any,
-            data: parsedChunk.data,
-            isPartial: parsedChunk.isPartial,
-            chunkIndex: chunk.index,
-            totalChunks: chunk.metadata.totalChunks
-          });
         });
       }
     }
-  }
 
-  /**
-   * Merge hierarchy nodes from different chunks
-   */
-  private mergeHierarchyNode(node: HierarchyNode): void {
-    const existingIndex = this.mergedHierarchy.findIndex(n => n.id === node.id);
-    
-    if (existingIndex >= 0) {
-      // Merge with existing node
-      const existing = this.mergedHierarchy[existingIndex];
-      console.log('[DEBUG] Enhanced - Merging existing node:', node.id, 'text length:', node.text?.length || 0);
-      this.mergedHierarchy[existingIndex] = {
-        ...existing,
-        text: existing.text + ' ' + node.text,
-        references: [...existing.references, ...node.references],
-        children: this.mergeChildren(existing.children, node.children)
-      };
-    } else {
-      // Add new node
-      console.log('[DEBUG] Enhanced - Adding new node:', node.id, node.type, 'text length:', node.text?.length || 0);
-      this.mergedHierarchy.push(node);
-    }
+    parser.finish().forEach(parsedChunk => {
+      if (parsedChunk.type === 'metadata' && !result.metadata) result.metadata = parsedChunk.data;
+    });
+    // Top-level nodes carry their subtrees; nested ones only matter to the live tree
+    result.nodes = parser.getState().parsedNodes;
+    result.report = parser.getValidationReport();
+    return result;
   }
 
-  /**
-   * Merge children arrays from different chunks
-   */
-  private mergeChildren(existing: HierarchyNode[], incoming: HierarchyNode[]): HierarchyNode[] {
-    const merged = [...existing];
-    
-    incoming.forEach(incomingChild => {
-      const existingIndex = merged.findIndex(e => e.id === incomingChild.id);
-      if (existingIndex >= 0) {
-        merged[existingIndex] = {
-          ...merged[existingIndex],
-          text: merged[existingIndex].text + ' ' + incomingChild.text,
-          references: [...merged[existingIndex].references, ...incomingChild.references],
-          children: this.mergeChildren(merged[existingIndex].children, incomingChild.children)
-        };
-      } else {
-        merged.push(incomingChild);
-      }
-    });
-    
-    return merged;
+  private getRetryPolicy(options: StreamingOptions): RetryPolicy {
+    return {
+      maxRetries: options.maxRetries ?? EXTRACTION_MAX_RETRIES,
+      baseDelayMs: EXTRACTION_RETRY_BASE_MS,
+      maxDelayMs: 60000,
+    };
   }
 
   /**
@@ -315,7 +553,10 @@ export class EnhancedStreamingService {
         document_type: "Document",
         source: "Streaming Parse"
       },
-      hierarchy: this.mergedHierarchy
+      hierarchy: this.mergedHierarchy,
+      validation: this.validationReport,
+      failedChunks: this.failedChunks,
+      outputMode: this.outputMode
     };
 
     console.log('[DEBUG] Enhanced - Final merged data:', {
@@ -324,9 +565,6 @@ export class EnhancedStreamingService {
       rawStreamBufferLength: this.rawStreamBuffer.length
     });
 
-    // Save JSON file to system
-    this.saveJsonToFile(finalData);
-
     callbacks.onProgress(98, 'Saving analysis results...');
     
     // Send completion signal
@@ -334,35 +572,6 @@ export class EnhancedStreamingService {
     callbacks.onProgress(100, 'Analysis complete!');
   }
 
-  /**
-   * Save the final JSON to a downloadable file
-   */
-  private saveJsonToFile(data: any): void {
-    try {
-      const jsonString = JSON.stringify(data, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `regulatory-analysis-${timestamp}.json`;
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      link.style.display = 'none';
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      URL.revokeObjectURL(url);
-      
-      console.log('[DEBUG] Enhanced - JSON file saved:', filename);
-    } catch (error) {
-      console.error('[DEBUG] Enhanced - Failed to save JSON file:', error);
-    }
-  }
-
   /**
    * Build analysis prompt for full document (legacy)
    */
@@ -374,12 +583,39 @@ export class EnhancedStreamingService {
   /**
    * Build chunk prompt structure for system/user messages
    */
-  private buildChunkPromptStructure(chunk: DocumentChunk): { systemMessage: string; userMessage: string } {
-    const basePromptStructure = buildRegulatoryPromptStructure('');
+  private buildChunkPromptStructure(
+    chunk: DocumentChunk,
+    options: StreamingOptions = {},
+    openPath: OpenAncestor[] = []
+  ): { systemMessage: string; userMessage: string } {
+    const basePromptStructure = buildRegulatoryPromptStructure('', options);
     
-    const systemMessage = `${basePromptStructure.systemMessage}
+    let systemMessage = `${basePromptStructure.systemMessage}
 
-**IMPORTANT**: This is chunk ${chunk.index + 1} of ${chunk.metadata.totalChunks} from a larger document. Parse only this chunk following the same JSON structure, but note this is a partial document.`;
+**IMPORTANT**: This is chunk ${chunk.index + 1} of ${chunk.metadata.totalChunks} from a larger document. Parse only this chunk following the same output format, but note this is a partial document.`;
+
+    if (chunk.metadata.overlapChars > 0) {
+      systemMessage += `
+
+**Chunk overlap**: The first ${chunk.metadata.overlapChars} characters of this chunk repeat the end of the previous chunk. Keep the ids of any nodes you recognise from that repeated text exactly as they would be in the full document.`;
+    }
+
+    if (openPath.length > 0) {
+      const pathLines = openPath
+        .map(ancestor => `${'  '.repeat(Math.max(0, ancestor.level - 1))}${ancestor.id} | level ${ancestor.level} | ${ancestor.type} ${ancestor.number}${ancestor.title ? ` - ${ancestor.title}` : ''}`)
+        .join('\n');
+      systemMessage += `
+
+**Open structure from the previous chunk** (outermost first):
+${pathLines}
+
+If this chunk starts part-way through any of these, emit those ancestors with the same id, type, number and level, containing only the content found in this chunk, and nest the continuation under them.`;
+    } else if (chunk.metadata.openHeadings.length > 0) {
+      // The previous chunk left nothing open (e.g. it failed); fall back to the headings found by the chunker
+      systemMessage += `
+
+**Structural context**: This chunk begins inside ${chunk.metadata.openHeadings.join(' > ')}. If it starts part-way through these, emit those ancestors (using the document's usual id scheme) containing only the content found in this chunk, and nest the continuation under them.`;
+    }
     
     const userMessage = `Document chunk to parse:
 ${chunk.content}`;
@@ -0,0 +1,287 @@
+/**
+ * Cross-chunk hierarchy stitching
+ * Merges the top-level nodes produced for each chunk into one hierarchy: nodes seen again in the
+ * overlap are merged (with the overlapping text removed), continuation nodes are reattached under
+ * the ancestor that was still open at the end of the previous chunk, and references are de-duplicated.
+ */
+
+import { HierarchyNode, Reference } from '@/store/regulationStore';
+
+/**
+ * An ancestor that was still open when a chunk ended
+ */
+export interface OpenAncestor {
+  id: string;
+  type: string;
+  number: string;
+  title: string;
+  level: number;
+}
+
+// Shortest shared run of text treated as chunk overlap rather than coincidence
+const MIN_TEXT_OVERLAP = 20;
+
+const normalizeText = (text: string) => (text || '').replace(/\s+/g, ' ').trim();
+
+const structuralKey = (node: Pick<HierarchyNode, 'type' | 'number'>) =>
+  `${(node.type || '').toLowerCase()}|${normalizeText(node.number).replace(/\s+/g, '').toLowerCase()}`;
+
+/**
+ * Join two pieces of text, dropping the part of `incoming` that repeats the end of `existing`
+ */
+export const mergeOverlappingText = (existing: string, incoming: string): string => {
+  const a = normalizeText(existing);
+  const b = normalizeText(incoming);
+
+  if (!a) return b;
+  if (!b || a.includes(b)) return a;
+  if (b.includes(a)) return b;
+
+  for (let length = Math.min(a.length, b.length); length >= MIN_TEXT_OVERLAP; length--) {
+    if (a.endsWith(b.slice(0, length))) {
+      return `${a}${b.slice(length)}`;
+    }
+  }
+
+  return `${a} ${b}`;
+};
+
+const toOpenAncestor = (node: HierarchyNode): OpenAncestor => ({
+  id: node.id,
+  type: node.type,
+  number: node.number,
+  title: node.title,
+  level: node.level,
+});
+
+/**
+ * A node followed by its last descendants, outermost first
+ */
+const trailingPath = (node: HierarchyNode): OpenAncestor[] => {
+  const path = [toOpenAncestor(node)];
+  let last = node;
+  while (last.children?.length) {
+    last = last.children[last.children.length - 1];
+    path.push(toOpenAncestor(last));
+  }
+  return path;
+};
+
+/**
+ * Open path after one chunk's top-level nodes, worked out from that chunk's result and the path it
+ * started with rather than the stitched tree; follows the stitcher's merge and reattach rules
+ */
+export const openPathAfter = (openPath: OpenAncestor[], nodes: HierarchyNode[]): OpenAncestor[] => {
+  let path = openPath;
+  let continuing = path.length > 0;
+
+  nodes.forEach(node => {
+    const matchIndex = path.findIndex(ancestor =>
+      ancestor.id === node.id || (!!node.number && structuralKey(ancestor) === structuralKey(node))
+    );
+    if (matchIndex >= 0) {
+      // A merged node keeps the earlier chunk's children unless this one adds more
+      if (node.children?.length) path = [...path.slice(0, matchIndex), ...trailingPath(node)];
+      return;
+    }
+
+    let parentIndex = -1;
+    if (continuing && typeof node.level === 'number') {
+      for (let i = path.length - 1; i >= 0 && parentIndex < 0; i--) {
+        if (path[i].level < node.level) parentIndex = i;
+      }
+    }
+    if (parentIndex >= 0) {
+      path = [...path.slice(0, parentIndex + 1), ...trailingPath(node)];
+      return;
+    }
+
+    path = trailingPath(node);
+    continuing = false;
+  });
+
+  return path;
+};
+
+/**
+ * Merge reference lists, keeping one entry per target and citation text
+ */
+export const dedupeReferences = (references: Reference[]): Reference[] => {
+  const byKey = new Map<string, Reference>();
+
+  references.forEach(ref => {
+    const key = `${ref.target}|${normalizeText(ref.text).toLowerCase()}`;
+    const existing = byKey.get(key);
+    if (!existing || (ref.confidence ?? 0) > (existing.confidence ?? 0)) {
+      byKey.set(key, existing ? { ...existing, ...ref } : ref);
+    }
+  });
+
+  return Array.from(byKey.values());
+};
+
+export class HierarchyStitcher {
+  private roots: HierarchyNode[] = [];
+  private openPath: HierarchyNode[] = [];
+  // True from the start of a chunk until it produces a node that is a genuine new root
+  private continuing = false;
+  // What happened to the current chunk's nodes, for the per-chunk log line
+  private chunkSummary = { added: 0, merged: 0, reattached: 0 };
+
+  reset(): void {
+    this.roots = [];
+    this.openPath = [];
+    this.continuing = false;
+    this.chunkSummary = { added: 0, merged: 0, reattached: 0 };
+  }
+
+  /**
+   * Mark the start of the next chunk's nodes
+   */
+  beginChunk(): void {
+    this.continuing = this.openPath.length > 0;
+    this.chunkSummary = { added: 0, merged: 0, reattached: 0 };
+  }
+
+  /**
+   * Nodes of the current chunk added as new roots, merged into earlier ones, or reattached under an open ancestor
+   */
+  getChunkSummary(): { added: number; merged: number; reattached: number } {
+    return { ...this.chunkSummary };
+  }
+
+  getHierarchy(): HierarchyNode[] {
+    return this.roots;
+  }
+
+  /**
+   * Ancestors still open at the end of the chunks stitched so far, outermost first
+   */
+  getOpenPath(): OpenAncestor[] {
+    return this.openPath.map(toOpenAncestor);
+  }
+
+  /**
+   * Add a top-level node produced for a chunk
+   */
+  addNode(node: HierarchyNode): void {
+    const match = this.findExisting(node);
+
+    if (match) {
+      this.chunkSummary.merged++;
+      const merged = this.mergeNodes(match, node);
+      this.replaceNode(match.id, merged);
+      this.updateOpenPath(this.pathTo(merged.id));
+      return;
+    }
+
+    // A leading root that sits below the open ancestors continues one of them
+    const parentIndex = this.continuing ? this.findOpenParentIndex(node) : -1;
+    if (parentIndex >= 0) {
+      const parent = this.openPath[parentIndex];
+      this.chunkSummary.reattached++;
+      this.replaceNode(parent.id, { ...parent, children: [...(parent.children || []), node] });
+      this.updateOpenPath([...this.pathTo(parent.id), node]);
+      return;
+    }
+
+    this.chunkSummary.added++;
+    this.roots = [...this.roots, node];
+    this.continuing = false;
+    this.updateOpenPath([node]);
+  }
+
+  /**
+   * Find an already stitched node that the incoming one duplicates: same id anywhere in the tree,
+   * or the same type and number among the children of the open ancestors
+   */
+  private findExisting(node: HierarchyNode): HierarchyNode | null {
+    const byId = this.pathTo(node.id);
+    if (byId.length > 0) return byId[byId.length - 1];
+
+    if (!node.number) return null;
+    const key = structuralKey(node);
+    const scopes = [this.roots, ...this.openPath.map(ancestor => ancestor.children || [])];
+    for (const siblings of scopes.reverse()) {
+      const sibling = siblings.find(candidate => structuralKey(candidate) === key);
+      if (sibling) return sibling;
+    }
+    return null;
+  }
+
+  /**
+   * Deepest open ancestor that the node can be nested under, by level
+   */
+  private findOpenParentIndex(node: HierarchyNode): number {
+    if (typeof node.level !== 'number') return -1;
+    for (let i = this.openPath.length - 1; i >= 0; i--) {
+      if (this.openPath[i].level < node.level) return i;
+    }
+    return -1;
+  }
+
+  private mergeNodes(existing: HierarchyNode, incoming: HierarchyNode): HierarchyNode {
+    return {
+      ...existing,
+      title: existing.title || incoming.title,
+      text: mergeOverlappingText(existing.text, incoming.text),
+      references: dedupeReferences([...(existing.references || []), ...(incoming.references || [])]),
+      children: this.mergeChildren(existing.children || [], incoming.children || []),
+    };
+  }
+
+  private mergeChildren(existing: HierarchyNode[], incoming: HierarchyNode[]): HierarchyNode[] {
+    const merged = [...existing];
+
+    incoming.forEach(child => {
+      const index = merged.findIndex(candidate =>
+        candidate.id === child.id || (child.number && structuralKey(candidate) === structuralKey(child))
+      );
+      if (index >= 0) {
+        merged[index] = this.mergeNodes(merged[index], child);
+      } else {
+        merged.push(child);
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Replace a node (by id) with a new version, rebuilding its ancestors
+   */
+  private replaceNode(id: string, replacement: HierarchyNode): void {
+    const replaceIn = (nodes: HierarchyNode[]): HierarchyNode[] =>
+      nodes.map(node => {
+        if (node.id === id) return replacement;
+        return node.children?.length ? { ...node, children: replaceIn(node.children) } : node;
+      });
+    this.roots = replaceIn(this.roots);
+  }
+
+  private pathTo(id: string): HierarchyNode[] {
+    const search = (nodes: HierarchyNode[], trail: HierarchyNode[]): HierarchyNode[] | null => {
+      for (const node of nodes) {
+        const path = [...trail, node];
+        if (node.id === id) return path;
+        const found = search(node.children || [], path);
+        if (found) return found;
+      }
+      return null;
+    };
+    return search(this.roots, []) || [];
+  }
+
+  /**
+   * The open path runs from the given node down its last descendants
+   */
+  private updateOpenPath(path: HierarchyNode[]): void {
+    const open = [...path];
+    let last = open[open.length - 1];
+    while (last?.children?.length) {
+      last = last.children[last.children.length - 1];
+      open.push(last);
+    }
+    this.openPath = open;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Incremental JSON structure scanner
+ * Scans model output as it streams in, keeping its position and container stack between writes, so
+ * each character is looked at once however long the output grows. It does not build values; it reports
+ * containers opening and closing (with their offsets in the accumulated text), object keys and string
+ * values, and callers parse the slices they care about. Text before the first container (prose, code
+ * fences) and after the root container closes is ignored.
+ */
+
+export interface JsonFrame<T> {
+  kind: 'object' | 'array';
+  // Offset of the opening bracket in the accumulated text
+  start: number;
+  depth: number;
+  // Key this container is the value of, when its parent is an object
+  key: string | null;
+  // Position in the parent array, when its parent is an array
+  index: number;
+  // Caller data attached when the container opened
+  data: T;
+}
+
+interface ScanFrame<T> extends JsonFrame<T> {
+  // Last key read in an object
+  currentKey: string | null;
+  expectingKey: boolean;
+  // Array items seen so far, and whether the next non-space character starts one
+  itemCount: number;
+  expectingItem: boolean;
+}
+
+export interface JsonScannerHandlers<T> {
+  /** A container opened; the return value is attached to it as `data` */
+  onOpen: (frame: JsonFrame<T>, parent: JsonFrame<T> | null) => T;
+  /** A container closed; `end` is the offset just past its closing bracket */
+  onClose?: (frame: JsonFrame<T>, end: number, parent: JsonFrame<T> | null) => void;
+  /** An object key was read; `keyStart` is the offset of its opening quote */
+  onKey?: (frame: JsonFrame<T>, key: string, keyStart: number) => void;
+  /** A string value was read inside a container */
+  onString?: (frame: JsonFrame<T>, key: string | null, value: string) => void;
+}
+
+const WHITESPACE = /\s/;
+
+export class IncrementalJsonScanner<T> {
+  private buffer = '';
+  // Offset of the character being scanned
+  private position = 0;
+  private stack: ScanFrame<T>[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Text of the string being read that arrived in earlier writes
+  private stringHead = '';
+  private started = false;
+  private finished = false;
+
+  constructor(private handlers: JsonScannerHandlers<T>) {}
+
+  /** Everything written so far */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Append streamed text and scan it
+   */
+  write(text: string): void {
+    // Work on the new text itself: reading the appended buffer would copy all of it on every write
+    const base = this.buffer.length;
+    this.buffer += text;
+    let stringFrom = 0;
+
+    for (let i = 0; i < text.length && !this.finished; i++) {
+      this.position = base + i;
+      const char = text[i];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.endString(this.stringHead + text.slice(stringFrom, i + 1));
+        continue;
+      }
+
+      if (!this.started) {
+        if (char === '{' || char === '[') this.open(char);
+        continue;
+      }
+
+      const frame = this.stack[this.stack.length - 1];
+      if (frame.kind === 'array' && frame.expectingItem && char !== ']' && !WHITESPACE.test(char)) {
+        frame.expectingItem = false;
+        frame.itemCount++;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          this.stringHead = '';
+          stringFrom = i;
+          break;
+        case '{':
+        case '[':
+          this.open(char);
+          break;
+        case '}':
+        case ']':
+          this.close();
+          break;
+        case ':':
+          frame.expectingKey = false;
+          break;
+        case ',':
+          if (frame.kind === 'object') frame.expectingKey = true;
+          else frame.expectingItem = true;
+          break;
+      }
+    }
+
+    if (this.inString) this.stringHead += text.slice(stringFrom);
+  }
+
+  private open(char: string): void {
+    const parent = this.stack[this.stack.length - 1] ?? null;
+    const frame: ScanFrame<T> = {
+      kind: char === '{' ? 'object' : 'array',
+      start: this.position,
+      depth: this.stack.length,
+      key: parent?.kind === 'object' ? parent.currentKey : null,
+      index: parent?.kind === 'array' ? parent.itemCount - 1 : -1,
+      data: undefined as T,
+      currentKey: null,
+      expectingKey: char === '{',
+      itemCount: 0,
+      expectingItem: char === '[',
+    };
+    frame.data = this.handlers.onOpen(frame, parent);
+    this.stack.push(frame);
+    this.started = true;
+  }
+
+  private close(): void {
+    const frame = this.stack.pop();
+    if (!frame) return;
+    const parent = this.stack[this.stack.length - 1] ?? null;
+    this.handlers.onClose?.(frame, this.position + 1, parent);
+    if (!parent) this.finished = true;
+  }
+
+  private endString(raw: string): void {
+    this.inString = false;
+    this.stringHead = '';
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) return;
+
+    let value: string;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      value = raw.slice(1, -1);
+    }
+
+    if (frame.kind === 'object' && frame.expectingKey) {
+      frame.currentKey = value;
+      this.handlers.onKey?.(frame, value, this.stringStart);
+    } else {
+      this.handlers.onString?.(frame, frame.kind === 'object' ? frame.currentKey : null, value);
+    }
+  }
+}
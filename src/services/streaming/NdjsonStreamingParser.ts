@@ -0,0 +1,144 @@
+/**
+ * Line-based parser for the NDJSON output protocol
+ * The model writes the metadata and then one flat node per line, linked to its parent by parentId.
+ * Each complete line is validated and emitted at once, and the tree is rebuilt as lines arrive. A cut-off
+ * response only loses its unfinished last line, which is recorded in the validation report.
+ */
+
+import { HierarchyNode } from '@/store/regulationStore';
+import {
+  ValidationReport,
+  createValidationReport,
+  validateHierarchyNode
+} from '@/services/validation/documentSchema';
+import { OutputParser, ParsedChunk, StreamingParseState } from './StreamingParser';
+
+export class NdjsonStreamingParser implements OutputParser {
+  private state: StreamingParseState;
+  // Text after the last line break, not yet a complete line
+  private partialLine = '';
+  private lineCount = 0;
+  private nodesById = new Map<string, HierarchyNode>();
+
+  constructor() {
+    this.resetState();
+  }
+
+  resetState(): void {
+    this.state = {
+      accumulatedJson: '',
+      parsedNodes: [],
+      processedObjectCount: 0,
+      validationReport: createValidationReport(),
+      currentChunkIndex: 0,
+      isComplete: false,
+      lastValidJsonEnd: 0
+    };
+    this.partialLine = '';
+    this.lineCount = 0;
+    this.nodesById.clear();
+  }
+
+  /**
+   * Process streamed text; every line completed by it is parsed
+   */
+  processChunk(chunk: string, chunkIndex: number = 0): ParsedChunk[] {
+    this.state.currentChunkIndex = chunkIndex;
+    this.state.accumulatedJson += chunk;
+
+    if (!chunk.includes('\n')) {
+      this.partialLine += chunk;
+      return [];
+    }
+
+    const lines = (this.partialLine + chunk).split('\n');
+    this.partialLine = lines.pop() ?? '';
+    this.state.lastValidJsonEnd = this.state.accumulatedJson.length - this.partialLine.length;
+    return lines.flatMap(line => this.processLine(line, false));
+  }
+
+  /**
+   * End of the response: parse a last line written without a line break, then report completion
+   */
+  finish(): ParsedChunk[] {
+    const results = this.processLine(this.partialLine, true);
+    this.partialLine = '';
+    this.state.isComplete = true;
+    results.push({
+      type: 'complete',
+      data: {
+        metadata: this.state.parsedMetadata,
+        hierarchy: this.state.parsedNodes
+      },
+      isPartial: false,
+      chunkIndex: this.state.currentChunkIndex
+    });
+    return results;
+  }
+
+  private processLine(line: string, isLast: boolean): ParsedChunk[] {
+    const trimmed = line.trim();
+    // Blank lines, code fences and any stray prose
+    if (!trimmed.startsWith('{')) return [];
+
+    this.lineCount++;
+    const path = `line ${this.lineCount}`;
+    const chunkIndex = this.state.currentChunkIndex;
+    let parsed: Record<string, unknown>;
+
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (parseError) {
+      // A cut-off response ends in an unfinished object
+      const truncated = isLast && !trimmed.endsWith('}');
+      this.state.validationReport.rejected.push({
+        severity: 'rejected',
+        path,
+        message: truncated
+          ? 'Truncated final line (the response was cut off)'
+          : `Invalid JSON: ${parseError instanceof Error ? parseError.message : 'parse error'}`,
+        rawJson: trimmed,
+        chunkIndex
+      });
+      return [];
+    }
+
+    if (parsed.metadata && typeof parsed.metadata === 'object' && !parsed.id) {
+      if (this.state.parsedMetadata) return [];
+      this.state.parsedMetadata = parsed.metadata;
+      return [{ type: 'metadata', data: parsed.metadata, isPartial: false, chunkIndex }];
+    }
+
+    this.state.processedObjectCount++;
+    const { parentId: rawParentId, ...fields } = parsed;
+    const node = validateHierarchyNode({ ...fields, children: [] }, this.state.validationReport, path, chunkIndex);
+    if (!node) return [];
+
+    const parent = typeof rawParentId === 'string' && rawParentId ? this.nodesById.get(rawParentId) : undefined;
+    if (rawParentId && !parent) {
+      this.state.validationReport.coerced.push({
+        severity: 'coerced',
+        path,
+        nodeId: node.id,
+        message: `parent "${String(rawParentId)}" not found before this line; placed at the top level`,
+        rawJson: trimmed,
+        chunkIndex
+      });
+    }
+
+    // The tree keeps its own node objects; listeners get copies so later children do not mutate them
+    if (parent) parent.children.push(node);
+    else this.state.parsedNodes.push(node);
+    this.nodesById.set(node.id, node);
+
+    return [{ type: 'node', data: { ...node, children: [] }, isPartial: false, chunkIndex, parentId: parent ? parent.id : null }];
+  }
+
+  getValidationReport(): ValidationReport {
+    return this.state.validationReport;
+  }
+
+  getState(): StreamingParseState {
+    return { ...this.state };
+  }
+}
@@ -1,30 +1,74 @@
 /**
  * Advanced streaming JSON parser with robust partial parsing capabilities
- * Handles incomplete JSON responses and progressive data extraction
+ * Handles incomplete JSON responses and progressive data extraction. Output is scanned incrementally
+ * (each streamed character once); nodes are emitted as soon as their object closes, nested ones with
+ * the id of the node they belong to, and a node's own fields as a partial node when its children begin,
+ * so the streaming tree can be built top-down while the model is still writing.
  */
 
 import { HierarchyNode } from '@/store/regulationStore';
+import {
+  ValidationReport,
+  createValidationReport,
+  validateHierarchyNode
+} from '@/services/validation/documentSchema';
+import { IncrementalJsonScanner, JsonFrame } from './IncrementalJsonScanner';
 
 export interface ParsedChunk {
   type: 'metadata' | 'node' | 'complete' | 'error';
   data: any;
   isPartial: boolean;
   chunkIndex?: number;
+  // For nodes: id of the node whose children this one belongs to, null for top-level nodes
+  parentId?: string | null;
 }
 
 export interface StreamingParseState {
   accumulatedJson: string;
   parsedMetadata?: any;
   parsedNodes: HierarchyNode[];
+  // Complete top-level objects seen so far, valid or not
+  processedObjectCount: number;
+  validationReport: ValidationReport;
   currentChunkIndex: number;
   isComplete: boolean;
   lastValidJsonEnd: number;
   error?: Error;
 }
 
-export class StreamingParser {
+/**
+ * Parser for one output protocol: fed the streamed text, it emits metadata and nodes as they become
+ * available and keeps the top-level nodes (with their subtrees) in its state
+ */
+export interface OutputParser {
+  processChunk(chunk: string, chunkIndex?: number): ParsedChunk[];
+  /** The response has ended; flush anything held back */
+  finish(): ParsedChunk[];
+  resetState(): void;
+  getValidationReport(): ValidationReport;
+  getState(): StreamingParseState;
+}
+
+/** What the parser tracks for each open JSON container */
+interface ContainerInfo {
+  // Object: a hierarchy node; array: the top-level hierarchy or a node's children
+  role: 'node' | 'hierarchy' | 'children' | 'metadata' | 'other';
+  // Inside a node, where "hierarchy" keys mean nothing
+  withinNode: boolean;
+  // Validation path, e.g. hierarchy[2] > part-1.children[0]
+  path: string;
+  // Nodes: id once read, offset of the "children" key, and the node this one is a child of
+  id?: string;
+  childrenKeyStart?: number;
+  parentNode?: ContainerInfo | null;
+  // Children arrays: the node they belong to
+  owner?: ContainerInfo;
+}
+
+export class StreamingParser implements OutputParser {
   private state: StreamingParseState;
-  private lastValidJsonEnd: number = 0;
+  private scanner: IncrementalJsonScanner<ContainerInfo>;
+  private pending: ParsedChunk[] = [];
 
   constructor() {
     this.resetState();
@@ -37,10 +81,23 @@ export class StreamingParser {
     this.state = {
       accumulatedJson: '',
       parsedNodes: [],
+      processedObjectCount: 0,
+      validationReport: createValidationReport(),
       currentChunkIndex: 0,
       isComplete: false,
       lastValidJsonEnd: 0
     };
+    this.pending = [];
+    this.scanner = new IncrementalJsonScanner<ContainerInfo>({
+      onOpen: (frame, parent) => this.describeContainer(frame, parent),
+      onKey: (frame, key, keyStart) => {
+        if (frame.data.role === 'node' && key === 'children') frame.data.childrenKeyStart = keyStart;
+      },
+      onString: (frame, key, value) => {
+        if (frame.data.role === 'node' && key === 'id') frame.data.id = value;
+      },
+      onClose: (frame, end, parent) => this.closeContainer(frame, end, parent),
+    });
   }
 
   /**
@@ -48,211 +105,164 @@ export class StreamingParser {
    */
   processChunk(chunk: string, chunkIndex: number = 0): ParsedChunk[] {
     this.state.currentChunkIndex = chunkIndex;
-    this.state.accumulatedJson += chunk;
+    this.pending = [];
 
-    const results: ParsedChunk[] = [];
-    
     try {
-      // Extract metadata if not already parsed
-      if (!this.state.parsedMetadata) {
-        const metadata = this.extractMetadata();
-        if (metadata) {
-          this.state.parsedMetadata = metadata;
-          results.push({
-            type: 'metadata',
-            data: metadata,
-            isPartial: false,
-            chunkIndex
-          });
-        }
-      }
-
-      // Extract new complete nodes
-      const newNodes = this.extractNewNodes();
-      newNodes.forEach(node => {
-        this.state.parsedNodes.push(node);
-        results.push({
-          type: 'node',
-          data: node,
-          isPartial: false,
-          chunkIndex
-        });
-      });
-
-      // Check if parsing is complete
-      if (this.isParsingComplete()) {
-        this.state.isComplete = true;
-        results.push({
-          type: 'complete',
-          data: {
-            metadata: this.state.parsedMetadata,
-            hierarchy: this.state.parsedNodes
-          },
-          isPartial: false,
-          chunkIndex
-        });
-      }
-
+      this.scanner.write(chunk);
     } catch (error) {
       console.error('Streaming parse error:', error);
-      results.push({
+      this.pending.push({
         type: 'error',
         data: error,
         isPartial: true,
         chunkIndex
       });
     }
+    this.state.accumulatedJson = this.scanner.text;
 
-    return results;
+    return this.pending;
   }
 
   /**
-   * Extract metadata from accumulated JSON
+   * Classify a container as it opens; a node's fields so far are emitted when its children begin
    */
-  private extractMetadata(): any | null {
-    try {
-      // Look for complete metadata object
-      const metadataPattern = /"metadata"\s*:\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})/;
-      const match = this.state.accumulatedJson.match(metadataPattern);
-      
-      if (match) {
-        const metadataJson = `{"metadata":${match[1]}}`;
-        const parsed = JSON.parse(metadataJson);
-        return parsed.metadata;
+  private describeContainer(frame: JsonFrame<ContainerInfo>, parent: JsonFrame<ContainerInfo> | null): ContainerInfo {
+    const info = parent?.data;
+    const withinNode = Boolean(info && (info.role === 'node' || info.withinNode));
+
+    if (frame.kind === 'object' && info && (info.role === 'hierarchy' || info.role === 'children')) {
+      return {
+        role: 'node',
+        withinNode,
+        path: info.role === 'hierarchy' ? `hierarchy[${frame.index}]` : `${info.path}[${frame.index}]`,
+        parentNode: info.owner ?? null,
+      };
+    }
+    if (frame.kind === 'array' && frame.key === 'hierarchy' && !withinNode) {
+      return { role: 'hierarchy', withinNode, path: 'hierarchy' };
+    }
+    if (frame.kind === 'array' && frame.key === 'children' && info?.role === 'node') {
+      this.emitNodeHeader(parent);
+      return { role: 'children', withinNode, path: `${info.path} > ${info.id ?? '?'}.children`, owner: info };
+    }
+    if (frame.kind === 'object' && frame.key === 'metadata' && frame.depth === 1) {
+      return { role: 'metadata', withinNode, path: 'metadata' };
+    }
+    return { role: 'other', withinNode, path: info?.path ?? '' };
+  }
+
+  private closeContainer(frame: JsonFrame<ContainerInfo>, end: number, parent: JsonFrame<ContainerInfo> | null): void {
+    const { role } = frame.data;
+    const fragment = () => this.scanner.text.slice(frame.start, end);
+
+    if (role === 'metadata' && !this.state.parsedMetadata) {
+      try {
+        this.state.parsedMetadata = JSON.parse(fragment());
+        this.emit({ type: 'metadata', data: this.state.parsedMetadata, isPartial: false });
+      } catch {
+        // Ignore parsing errors for partial data
       }
-    } catch (error) {
-      // Ignore parsing errors for partial data
+    } else if (role === 'node' && parent?.data.role === 'hierarchy') {
+      this.completeTopLevelNode(frame.data, fragment());
+      this.state.lastValidJsonEnd = end;
+    } else if (role === 'node') {
+      this.completeNestedNode(frame.data, fragment());
+    }
+
+    if (!parent) {
+      this.state.isComplete = true;
+      this.emit({
+        type: 'complete',
+        data: {
+          metadata: this.state.parsedMetadata,
+          hierarchy: this.state.parsedNodes
+        },
+        isPartial: false
+      });
     }
-    
-    return null;
   }
 
   /**
-   * Extract new complete nodes from accumulated JSON
+   * Validate a complete top-level object into the report; it carries its whole subtree
    */
-  private extractNewNodes(): HierarchyNode[] {
-    const newNodes: HierarchyNode[] = [];
-    
-    try {
-      // Find hierarchy array start
-      const hierarchyMatch = this.state.accumulatedJson.match(/"hierarchy"\s*:\s*\[/);
-      if (!hierarchyMatch) return newNodes;
+  private completeTopLevelNode(info: ContainerInfo, fragment: string): void {
+    this.state.processedObjectCount++;
+    let parsed: unknown;
 
-      const hierarchyStart = hierarchyMatch.index! + hierarchyMatch[0].length;
-      const hierarchyContent = this.state.accumulatedJson.substring(hierarchyStart);
-      
-      // Extract complete node objects
-      const extractedNodes = this.extractCompleteObjects(hierarchyContent);
-      
-      // Only return nodes we haven't parsed yet
-      const startIndex = this.state.parsedNodes.length;
-      return extractedNodes.slice(startIndex);
+    try {
+      parsed = JSON.parse(fragment);
+    } catch (parseError) {
+      this.state.validationReport.rejected.push({
+        severity: 'rejected',
+        path: info.path,
+        message: `Invalid JSON: ${parseError instanceof Error ? parseError.message : 'parse error'}`,
+        rawJson: fragment,
+        chunkIndex: this.state.currentChunkIndex
+      });
+      return;
+    }
 
-    } catch (error) {
-      console.warn('Node extraction error:', error);
+    const node = validateHierarchyNode(parsed, this.state.validationReport, info.path, this.state.currentChunkIndex);
+    if (node) {
+      this.state.parsedNodes.push(node);
+      this.emit({ type: 'node', data: node, isPartial: false, parentId: null });
     }
-    
-    return newNodes;
   }
 
   /**
-   * Extract complete JSON objects from a string using brace matching
+   * Emit a nested node for the streaming tree. Its issues are reported when its top-level ancestor
+   * completes, so it is validated against a scratch report here.
    */
-  private extractCompleteObjects(jsonString: string): any[] {
-    const objects: any[] = [];
-    let braceCount = 0;
-    let currentObject = '';
-    let inString = false;
-    let escapeNext = false;
-    let objectStart = -1;
+  private completeNestedNode(info: ContainerInfo, fragment: string): void {
+    const parentId = info.parentNode?.id;
+    if (!parentId) return;
 
-    for (let i = 0; i < jsonString.length; i++) {
-      const char = jsonString[i];
-      
-      if (escapeNext) {
-        escapeNext = false;
-        currentObject += char;
-        continue;
-      }
-
-      if (char === '\\') {
-        escapeNext = true;
-        currentObject += char;
-        continue;
-      }
-
-      if (char === '"' && !escapeNext) {
-        inString = !inString;
-      }
+    const node = this.validateQuietly(fragment);
+    if (node) this.emit({ type: 'node', data: node, isPartial: false, parentId });
+  }
 
-      if (!inString) {
-        if (char === '{') {
-          if (braceCount === 0) {
-            objectStart = i;
-            currentObject = '';
-          }
-          braceCount++;
-        }
-        
-        if (char === '}') {
-          braceCount--;
-        }
-      }
+  /**
+   * The fields written before "children" make a partial node that its children can be placed under
+   */
+  private emitNodeHeader(frame: JsonFrame<ContainerInfo>): void {
+    const info = frame.data;
+    // A node whose own parent has no id yet cannot be placed; the complete ancestor will carry it
+    if (!info.id || info.childrenKeyStart === undefined || (info.parentNode && !info.parentNode.id)) return;
 
-      currentObject += char;
+    const header = this.scanner.text.slice(frame.start, info.childrenKeyStart).trim().replace(/,$/, '') + '}';
+    const node = this.validateQuietly(header);
+    if (node) {
+      this.emit({ type: 'node', data: node, isPartial: true, parentId: info.parentNode?.id ?? null });
+    }
+  }
 
-      // Complete object found
-      if (braceCount === 0 && objectStart >= 0 && currentObject.trim()) {
-        try {
-          const obj = JSON.parse(currentObject.trim());
-          if (this.isValidHierarchyNode(obj)) {
-            objects.push(obj);
-          }
-        } catch (parseError) {
-          // Skip invalid JSON objects
-        }
-        
-        currentObject = '';
-        objectStart = -1;
-      }
+  private validateQuietly(fragment: string): HierarchyNode | null {
+    try {
+      return validateHierarchyNode(JSON.parse(fragment), createValidationReport());
+    } catch {
+      return null;
     }
+  }
 
-    return objects;
+  private emit(chunk: ParsedChunk): void {
+    this.pending.push({ ...chunk, chunkIndex: this.state.currentChunkIndex });
   }
 
   /**
-   * Validate if object is a valid hierarchy node
+   * End of the response; nodes are emitted as their objects close, so nothing is held back
    */
-  private isValidHierarchyNode(obj: any): boolean {
-    return obj && 
-           typeof obj.id === 'string' && 
-           typeof obj.type === 'string' && 
-           typeof obj.level === 'number' &&
-           Array.isArray(obj.references) &&
-           Array.isArray(obj.children);
+  finish(): ParsedChunk[] {
+    if (!this.state.isComplete) {
+      console.warn(`[DEBUG] StreamingParser - Response ended before the JSON closed; keeping ${this.state.parsedNodes.length} complete top-level node(s)`);
+    }
+    return [];
   }
 
   /**
-   * Check if parsing appears complete based on JSON structure
+   * Validation issues recorded for fragments parsed so far
    */
-  private isParsingComplete(): boolean {
-    const trimmed = this.state.accumulatedJson.trim();
-    
-    // Check for complete JSON structure
-    const hasOpeningBrace = trimmed.startsWith('{');
-    const hasClosingBrace = trimmed.endsWith('}');
-    
-    if (!hasOpeningBrace || !hasClosingBrace) {
-      return false;
-    }
-
-    // Try to parse complete JSON
-    try {
-      JSON.parse(trimmed);
-      return true;
-    } catch {
-      return false;
-    }
+  getValidationReport(): ValidationReport {
+    return this.state.validationReport;
   }
 
   /**
@@ -0,0 +1,262 @@
+/**
+ * Zod schemas for DocumentData / HierarchyNode / Reference and validation of LLM output.
+ * Fixable problems (missing arrays, string levels, numeric ids, ...) are coerced and noted;
+ * anything else is rejected and kept with its raw JSON for the validation report.
+ */
+
+import { z } from 'zod';
+import { DocumentData, HierarchyNode, Reference } from '@/store/regulationStore';
+
+export const SourceSpanSchema = z.object({
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  page: z.number().int().min(1).optional(),
+});
+
+export const ReferenceSchema = z.object({
+  target: z.string().min(1),
+  text: z.string(),
+  type: z.enum(['internal', 'external']),
+  origin: z.enum(['llm', 'resolver']).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  status: z.enum(['resolved', 'repaired', 'dangling']).optional(),
+  source: SourceSpanSchema.optional(),
+});
+
+/**
+ * Shallow node shape; children are validated one by one so a bad child
+ * does not take its whole subtree down with it.
+ */
+export const HierarchyNodeShapeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  number: z.string(),
+  title: z.string(),
+  text: z.string(),
+  level: z.number().int().min(0),
+  references: z.array(ReferenceSchema),
+  children: z.array(z.unknown()),
+  source: SourceSpanSchema.optional(),
+});
+
+// Cast: with strictNullChecks off zod infers every property as optional
+export const HierarchyNodeSchema = HierarchyNodeShapeSchema.extend({
+  children: z.lazy(() => z.array(HierarchyNodeSchema)),
+}) as unknown as z.ZodType<HierarchyNode>;
+
+export const DocumentMetadataSchema = z.object({
+  title: z.string(),
+  jurisdiction: z.string(),
+  document_type: z.string(),
+  source: z.string(),
+});
+
+export const DocumentDataSchema = z.object({
+  metadata: DocumentMetadataSchema,
+  hierarchy: z.array(HierarchyNodeSchema),
+});
+
+export interface ValidationIssue {
+  severity: 'rejected' | 'coerced';
+  path: string;
+  nodeId?: string;
+  message: string;
+  rawJson: string;
+  chunkIndex?: number;
+}
+
+export interface ValidationReport {
+  checkedNodes: number;
+  rejected: ValidationIssue[];
+  coerced: ValidationIssue[];
+  createdAt: number;
+}
+
+export const createValidationReport = (): ValidationReport => ({
+  checkedNodes: 0,
+  rejected: [],
+  coerced: [],
+  createdAt: Date.now(),
+});
+
+const toRawJson = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatZodError = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+/**
+ * Apply fixable coercions to a reference; returns null when it cannot be salvaged
+ */
+const coerceReference = (raw: unknown, fixes: string[]): Reference | null => {
+  if (!isRecord(raw)) return null;
+  const ref = { ...raw };
+
+  if (typeof ref.type === 'string' && ref.type !== ref.type.toLowerCase()) {
+    ref.type = ref.type.toLowerCase();
+    fixes.push('reference type lower-cased');
+  }
+  if (ref.type !== 'internal' && ref.type !== 'external') {
+    ref.type = ref.target === 'external' ? 'external' : 'internal';
+    fixes.push(`reference type inferred as "${ref.type}"`);
+  }
+  if (ref.type === 'external' && (typeof ref.target !== 'string' || !ref.target)) {
+    ref.target = 'external';
+    fixes.push('external reference target defaulted');
+  }
+  if (typeof ref.text !== 'string') {
+    ref.text = ref.text == null ? '' : String(ref.text);
+    fixes.push('reference text coerced to string');
+  }
+  if (ref.source !== undefined && !SourceSpanSchema.safeParse(ref.source).success) {
+    delete ref.source;
+    fixes.push('invalid reference source span dropped');
+  }
+
+  const parsed = ReferenceSchema.safeParse(ref);
+  return parsed.success ? parsed.data as Reference : null;
+};
+
+/**
+ * Apply fixable coercions to a node without touching its children
+ */
+const coerceNodeShape = (raw: Record<string, unknown>, fixes: string[]): Record<string, unknown> => {
+  const node = { ...raw };
+
+  (['id', 'number'] as const).forEach(key => {
+    if (typeof node[key] === 'number') {
+      node[key] = String(node[key]);
+      fixes.push(`${key} coerced to string`);
+    }
+  });
+  (['number', 'title', 'text'] as const).forEach(key => {
+    if (node[key] === undefined || node[key] === null) {
+      node[key] = '';
+      fixes.push(`missing ${key} defaulted to ""`);
+    }
+  });
+  if (typeof node.level === 'string' && node.level.trim() !== '' && !Number.isNaN(Number(node.level))) {
+    node.level = Number(node.level);
+    fixes.push('string level converted to number');
+  }
+  if (node.children === undefined || node.children === null) {
+    node.children = [];
+    fixes.push('missing children defaulted to []');
+  }
+  if (node.references === undefined || node.references === null) {
+    node.references = [];
+    fixes.push('missing references defaulted to []');
+  }
+  // Source spans are computed locally; a malformed one is not worth rejecting the node over
+  if (node.source !== undefined && !SourceSpanSchema.safeParse(node.source).success) {
+    delete node.source;
+    fixes.push('invalid source span dropped');
+  }
+  if (Array.isArray(node.references)) {
+    const references = node.references
+      .map(ref => coerceReference(ref, fixes))
+      .filter((ref): ref is Reference => ref !== null);
+    if (references.length !== node.references.length) {
+      fixes.push(`${node.references.length - references.length} malformed reference(s) dropped`);
+    }
+    node.references = references;
+  }
+
+  return node;
+};
+
+/**
+ * Validate (and coerce) a node and its subtree. Returns null when the node itself is rejected;
+ * rejected descendants are dropped and recorded in the report.
+ */
+export const validateHierarchyNode = (
+  raw: unknown,
+  report: ValidationReport,
+  path: string = 'node',
+  chunkIndex?: number
+): HierarchyNode | null => {
+  report.checkedNodes++;
+
+  if (!isRecord(raw)) {
+    report.rejected.push({ severity: 'rejected', path, message: 'Node is not an object', rawJson: toRawJson(raw), chunkIndex });
+    return null;
+  }
+
+  const fixes: string[] = [];
+  const coerced = coerceNodeShape(raw, fixes);
+  const parsed = HierarchyNodeShapeSchema.safeParse(coerced);
+  const nodeId = typeof coerced.id === 'string' ? coerced.id : undefined;
+
+  if (!parsed.success) {
+    report.rejected.push({
+      severity: 'rejected',
+      path,
+      nodeId,
+      message: formatZodError(parsed.error),
+      rawJson: toRawJson(raw),
+      chunkIndex,
+    });
+    return null;
+  }
+
+  if (fixes.length > 0) {
+    report.coerced.push({
+      severity: 'coerced',
+      path,
+      nodeId,
+      message: Array.from(new Set(fixes)).join('; '),
+      rawJson: toRawJson({ ...raw, children: Array.isArray(raw.children) ? `[${raw.children.length} children]` : raw.children }),
+      chunkIndex,
+    });
+  }
+
+  const children = parsed.data.children
+    .map((child, index) => validateHierarchyNode(child, report, `${path} > ${parsed.data.id}.children[${index}]`, chunkIndex))
+    .filter((child): child is HierarchyNode => child !== null);
+
+  return { ...(parsed.data as Omit<HierarchyNode, 'children'>), children };
+};
+
+/**
+ * Validate a complete (merged) analysis result
+ */
+export const validateDocumentData = (
+  raw: unknown,
+  report: ValidationReport = createValidationReport()
+): { data: DocumentData; report: ValidationReport } => {
+  const source = isRecord(raw) ? raw : {};
+  const metadataRaw = isRecord(source.metadata) ? source.metadata : {};
+  const metadataParsed = DocumentMetadataSchema.safeParse({
+    title: String(metadataRaw.title ?? 'Processed Document'),
+    jurisdiction: String(metadataRaw.jurisdiction ?? 'Unknown'),
+    document_type: String(metadataRaw.document_type ?? 'Document'),
+    source: String(metadataRaw.source ?? ''),
+  });
+
+  if (!isRecord(source.metadata)) {
+    report.coerced.push({ severity: 'coerced', path: 'metadata', message: 'missing metadata defaulted', rawJson: toRawJson(source.metadata ?? null) });
+  }
+
+  const hierarchyRaw = Array.isArray(source.hierarchy) ? source.hierarchy : [];
+  if (!Array.isArray(source.hierarchy)) {
+    report.rejected.push({ severity: 'rejected', path: 'hierarchy', message: 'hierarchy is not an array', rawJson: toRawJson(source.hierarchy ?? null) });
+  }
+
+  const hierarchy = hierarchyRaw
+    .map((node, index) => validateHierarchyNode(node, report, `hierarchy[${index}]`))
+    .filter((node): node is HierarchyNode => node !== null);
+
+  return {
+    data: { metadata: metadataParsed.success ? metadataParsed.data as DocumentData['metadata'] : { title: 'Processed Document', jurisdiction: 'Unknown', document_type: 'Document', source: '' }, hierarchy },
+    report,
+  };
+};
@@ -0,0 +1,69 @@
+/**
+ * Inline cross-reference links
+ * Finds where each reference's wording occurs in a viewer's rendered text, inside the located text of
+ * the node that cites it, so the viewer can turn it into a link. Works on any fuzzy text index (DOM
+ * text for text/HTML/XML views, the pdf.js text layer for PDFs).
+ */
+
+import { HierarchyNode, Reference } from '@/store/regulationStore';
+import { FuzzyRange, FuzzyTextIndex, normalizeForMatching } from '@/services/parsing/FuzzyTextIndex';
+
+// Shorter wording ("s 5") is too ambiguous to link
+const MIN_WORDING_LENGTH = 3;
+
+export interface ReferenceOccurrence {
+  // Node whose text contains the reference
+  nodeId: string;
+  reference: Reference;
+  range: FuzzyRange;
+}
+
+/**
+ * Every reference occurrence inside its node's extent, in document order. Repeated wording takes
+ * successive occurrences; a reference cited by both a provision and its sub-provision is linked once,
+ * and of overlapping wordings ("section 5" inside "section 5(2)") the longer one wins.
+ */
+export function findReferenceOccurrences<T>(
+  index: FuzzyTextIndex<T>,
+  hierarchy: HierarchyNode[],
+  extents: Map<string, FuzzyRange>
+): ReferenceOccurrence[] {
+  const text = index.text;
+  const found: ReferenceOccurrence[] = [];
+
+  const visit = (node: HierarchyNode) => {
+    const extent = extents.get(node.id);
+    if (extent) {
+      const nextFrom = new Map<string, number>();
+      (node.references ?? []).forEach(reference => {
+        const needle = normalizeForMatching(reference.text ?? '');
+        if (needle.length < MIN_WORDING_LENGTH) return;
+        const start = text.indexOf(needle, nextFrom.get(needle) ?? extent.start);
+        if (start < 0 || start + needle.length > extent.end) return;
+        nextFrom.set(needle, start + needle.length);
+        found.push({ nodeId: node.id, reference, range: { start, end: start + needle.length } });
+      });
+    }
+    node.children?.forEach(visit);
+  };
+  hierarchy.forEach(visit);
+
+  found.sort((a, b) => a.range.start - b.range.start || b.range.end - a.range.end);
+  let coveredTo = -1;
+  return found.filter(occurrence => {
+    if (occurrence.range.start < coveredTo) return false;
+    coveredTo = occurrence.range.end;
+    return true;
+  });
+}
+
+/**
+ * Name of the instrument an external reference cites: "section 2 of the Legal Profession Act (Ch. 64)"
+ * -> "Legal Profession Act (Ch. 64)". A leading capitalised "The" is kept as part of the name.
+ */
+export function citedInstrument(reference: Reference): string {
+  return (reference.text ?? '')
+    .trim()
+    .replace(/^(?:sub-?)?(?:sections?|paragraphs?|regulations?|rules?|parts?|articles?|schedules?)\s+\S+\s+of\s+/i, '')
+    .replace(/^the\s+/, '');
+}
@@ -0,0 +1,56 @@
+/**
+ * Which hierarchy node is at a given point of a rendered document
+ * Viewers place each located node on one reading-order axis (a text index for text views, page plus
+ * fraction of the page for PDFs). The section at a position is the innermost node whose extent
+ * contains it, or, between nodes, the last one that started before it.
+ */
+
+import { HierarchyNode } from '@/store/regulationStore';
+
+export interface SectionExtent {
+  id: string;
+  start: number;
+  end: number;
+}
+
+export class SectionLocator {
+  private extents: Array<SectionExtent & { depth: number }>;
+
+  /**
+   * @param extents located nodes; nodes that could not be located are simply left out
+   */
+  constructor(hierarchy: HierarchyNode[], extents: Map<string, Omit<SectionExtent, 'id'>>) {
+    const located: Array<SectionExtent & { depth: number }> = [];
+    const visit = (node: HierarchyNode, depth: number) => {
+      const extent = extents.get(node.id);
+      if (extent) located.push({ id: node.id, ...extent, depth });
+      node.children?.forEach(child => visit(child, depth + 1));
+    };
+    hierarchy.forEach(node => visit(node, 0));
+    this.extents = located.sort((a, b) => a.start - b.start || a.depth - b.depth);
+  }
+
+  get size(): number {
+    return this.extents.length;
+  }
+
+  sectionAt(position: number): string | null {
+    // Last extent starting at or before the position
+    let low = 0;
+    let high = this.extents.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.extents[mid].start <= position) low = mid + 1;
+      else high = mid;
+    }
+    const last = low - 1;
+    if (last < 0) return null;
+
+    let innermost: (SectionExtent & { depth: number }) | null = null;
+    for (let i = last; i >= 0; i--) {
+      const extent = this.extents[i];
+      if (extent.end > position && (!innermost || extent.depth > innermost.depth)) innermost = extent;
+    }
+    return (innermost ?? this.extents[last]).id;
+  }
+}
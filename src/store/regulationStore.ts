@@ -1,9 +1,33 @@
 import { create } from 'zustand';
+import type { ValidationReport } from '@/services/validation/documentSchema';
+import type { ChunkStatus } from '@/services/streaming/EnhancedStreamingService';
+import type { ChatMessage } from '@/services/geminiChatService';
+import type { OcrProgress } from '@/services/extractors/ocrTypes';
+import type { PdfPageText } from '@/services/pdf/PdfTextMatcher';
+import type { DocumentClassification } from '@/services/parsing/DocumentClassifier';
+import { documentLibrary, LibraryEntry } from '@/services/storage/DocumentLibrary';
+
+/**
+ * Character range [start, end) in the cleaned text the analysis read, and the PDF page it starts on
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+  page?: number;
+}
 
 export interface Reference {
   target: string;
   text: string;
   type: 'internal' | 'external';
+  // Who produced the reference: the LLM or the regex reference resolver
+  origin?: 'llm' | 'resolver';
+  // 0..1, how sure we are that target is right
+  confidence?: number;
+  // 'dangling' targets do not exist in the hierarchy
+  status?: 'resolved' | 'repaired' | 'dangling';
+  // Where the reference text occurs in the source
+  source?: SourceSpan;
 }
 
 export interface HierarchyNode {
@@ -15,6 +39,29 @@ export interface HierarchyNode {
   level: number;
   references: Reference[];
   children: HierarchyNode[];
+  // Where the node's text occurs in the source, found by alignment after parsing
+  source?: SourceSpan;
+}
+
+/**
+ * Scanned PDF pages read with OCR; mean confidence is 0-100
+ */
+export interface OcrMetadata {
+  pages: number[];
+  lowConfidencePages: number[];
+  confidence: number;
+}
+
+// Prompt template from the registry (src/services/prompts/promptRegistry.ts)
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+export interface ExtractionMetadata {
+  protocol: OutputProtocol;
+  outputMode: ExtractionOutputMode;
+  promptTemplate: PromptTemplateRef;
 }
 
 export interface DocumentData {
@@ -23,15 +70,65 @@ export interface DocumentData {
     jurisdiction: string;
     document_type: string;
     source: string;
+    ocr?: OcrMetadata;
+    // How the model was asked to write the structure, for comparing runs (AI analyses only)
+    extraction?: ExtractionMetadata;
+    // Type and jurisdiction detected from the text before analysis, as confirmed on the upload screen
+    classification?: DocumentClassification;
   };
   hierarchy: HierarchyNode[];
 }
 
+export type DocumentFileType = 'pdf' | 'html' | 'text' | 'url' | 'xml';
+
+export interface RawDocumentContent {
+  content: string | ArrayBuffer | null;
+  fileType: DocumentFileType | null;
+  fileName?: string;
+  // Word boxes for PDF pages read with OCR, which have no pdf.js text layer
+  ocrPages?: PdfPageText[];
+  // Cleaned text the analysis read; node and reference source spans index into it
+  sourceText?: string;
+}
+
+/**
+ * How document structure is extracted:
+ * - ai: LLM only
+ * - rules: offline rule-based parser only (no API key needed)
+ * - hybrid: rule-based draft shown immediately, then refined by the LLM
+ */
+export type AnalysisMode = 'ai' | 'rules' | 'hybrid';
+
+// How the model writes the extracted structure: one nested JSON document, or one flat node per line
+export type OutputProtocol = 'nested' | 'ndjson';
+
+// Whether the provider's structured-output feature held the model to a response schema, or only the prompt
+export type ExtractionOutputMode = 'schema' | 'text';
+
+// PDF viewer zoom steps (1 = 100%)
+export const VIEWER_ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+/**
+ * The next zoom step above (1) or below (-1) the current scale
+ */
+export const stepViewerZoom = (current: number, direction: 1 | -1): number => {
+  const steps = direction > 0 ? VIEWER_ZOOM_LEVELS : [...VIEWER_ZOOM_LEVELS].reverse();
+  return steps.find(level => (direction > 0 ? level > current + 0.01 : level < current - 0.01)) ?? steps[steps.length - 1];
+};
+
 interface ProcessingState {
   stage: 'idle' | 'uploading' | 'cleaning' | 'parsing' | 'building' | 'complete' | 'error';
   progress: number;
   message: string;
   currentSection?: string;
+  // Per-page status while scanned PDF pages are being recognised
+  ocr?: OcrProgress;
+}
+
+export interface ResumableAnalysis {
+  fileName: string;
+  completedChunks: number;
+  totalChunks: number;
 }
 
 interface StreamingState {
@@ -39,6 +136,8 @@ interface StreamingState {
   streamingNodes: HierarchyNode[];
   streamingMetadata: DocumentData['metadata'] | null;
   streamingProgress: number;
+  // Per-chunk request status for chunked runs, indexed by chunk
+  chunkStatuses: ChunkStatus[];
 }
 
 interface RegulationStore {
@@ -46,27 +145,60 @@ interface RegulationStore {
   documentData: DocumentData | null;
   setDocumentData: (data: DocumentData | null) => void;
 
-  // Raw document content for viewer
-  rawDocumentContent: {
-    content: string | ArrayBuffer | null;
-    fileType: 'pdf' | 'html' | 'text' | 'url' | null;
-    fileName?: string;
-  };
-  setRawDocumentContent: (content: string | ArrayBuffer | null, fileType: 'pdf' | 'html' | 'text' | 'url', fileName?: string) => void;
+  // Raw document content for viewer; setting it starts a new document (clears chat and library link)
+  rawDocumentContent: RawDocumentContent;
+  setRawDocumentContent: (content: string | ArrayBuffer | null, fileType: DocumentFileType, fileName?: string) => void;
+  setOcrPages: (pages: PdfPageText[]) => void;
+  setSourceText: (text: string) => void;
 
   // Processing state
   processingState: ProcessingState;
   setProcessingState: (state: ProcessingState) => void;
 
+  // Analysis options
+  analysisMode: AnalysisMode;
+  setAnalysisMode: (mode: AnalysisMode) => void;
+  outputProtocol: OutputProtocol;
+  setOutputProtocol: (protocol: OutputProtocol) => void;
+  // Use the provider's structured output (response schema) when it has one
+  useResponseSchema: boolean;
+  setUseResponseSchema: (enabled: boolean) => void;
+  // Prompt template id, or 'auto' to pick one from the document text
+  promptTemplateId: string;
+  setPromptTemplateId: (id: string) => void;
+
+  // Download the analysis as JSON when a run completes (off by default)
+  autoDownloadJson: boolean;
+  setAutoDownloadJson: (enabled: boolean) => void;
+
+  // Stopped analysis that can be resumed from the chunk cache
+  resumableAnalysis: ResumableAnalysis | null;
+  setResumableAnalysis: (run: ResumableAnalysis | null) => void;
+
+  // Schema validation of the last analysis
+  validationReport: ValidationReport | null;
+  setValidationReport: (report: ValidationReport | null) => void;
+
   // Document viewer state
   highlightedSections: string[];
   setHighlightedSections: (sections: string[]) => void;
   scrollToSection: (sectionId: string) => void;
+  // Node at the reading position in the viewer (scroll spy); the outline expands to it
+  viewerSectionId: string | null;
+  setViewerSectionId: (id: string | null) => void;
+
+  // PDF viewer zoom: a scale factor, or fitted to the panel width (the viewer then keeps viewerZoom updated)
+  viewerZoom: number;
+  viewerFitWidth: boolean;
+  setViewerZoom: (zoom: number, fitWidth?: boolean) => void;
 
   // Streaming state
   streamingState: StreamingState;
   setStreamingState: (state: Partial<StreamingState>) => void;
-  addStreamingNode: (node: HierarchyNode) => void;
+  // parentId given: placed by the streaming parser (replaces a node with the same id, else goes under
+  // its parent, null for top level); without it the node is appended at the top level
+  addStreamingNode: (node: HierarchyNode, parentId?: string | null) => void;
+  updateChunkStatus: (status: ChunkStatus) => void;
   clearStreamingData: () => void;
 
   // Selected node and references
@@ -94,12 +226,19 @@ interface RegulationStore {
   // Chat context
   getChatContext: (nodeId: string) => { nodeId: string; nodeTitle: string; nodeText: string } | null;
 
-  // Saved documents (localStorage)
-  savedDocuments: Array<{ id: string; title: string; timestamp: number; data: DocumentData }>;
-  saveDocument: (title: string, data: DocumentData) => void;
-  loadDocument: (id: string) => void;
-  deleteDocument: (id: string) => void;
-  refreshSavedDocuments: () => void;
+  // Chat history of the open document
+  chatHistory: ChatMessage[];
+  setChatHistory: (messages: ChatMessage[]) => void;
+
+  // Document library (IndexedDB)
+  libraryDocuments: LibraryEntry[];
+  // Library entry the open document was loaded from or saved to
+  activeLibraryId: string | null;
+  refreshLibrary: () => Promise<void>;
+  saveToLibrary: (title?: string) => Promise<LibraryEntry>;
+  openLibraryDocument: (id: string) => Promise<boolean>;
+  renameLibraryDocument: (id: string, title: string) => Promise<void>;
+  deleteLibraryDocuments: (ids: string[]) => Promise<void>;
 
   // Helper functions
   findNodeById: (id: string) => HierarchyNode | null;
@@ -108,6 +247,35 @@ interface RegulationStore {
   findReferencesToNode: (nodeId: string) => HierarchyNode[];
 }
 
+// Put a node under its parent (null: top level), replacing a sibling with the same id (a complete node
+// arriving after its partial form). Model output can repeat ids elsewhere, so only siblings are matched.
+// A parent not in the tree yet puts the node at the top level.
+const placeStreamingNode = (nodes: HierarchyNode[], node: HierarchyNode, parentId: string | null): HierarchyNode[] => {
+  const upsert = (siblings: HierarchyNode[]) => {
+    const index = siblings.map(sibling => sibling.id).lastIndexOf(node.id);
+    return index < 0 ? [...siblings, node] : siblings.map((sibling, i) => (i === index ? node : sibling));
+  };
+
+  // The open parent is the most recently written one, so search from the end of each list
+  const placeUnder = (list: HierarchyNode[]): HierarchyNode[] | null => {
+    for (let i = list.length - 1; i >= 0; i--) {
+      const candidate = list[i];
+      let replacement: HierarchyNode | null = null;
+      if (candidate.id === parentId) {
+        replacement = { ...candidate, children: upsert(candidate.children ?? []) };
+      } else {
+        const children = placeUnder(candidate.children ?? []);
+        if (children) replacement = { ...candidate, children };
+      }
+      // Only the path down to the parent is copied
+      if (replacement) return list.map((node, j) => (j === i ? replacement : node));
+    }
+    return null;
+  };
+
+  return (parentId !== null && placeUnder(nodes)) || upsert(nodes);
+};
+
 const findNodeInHierarchy = (nodes: HierarchyNode[], id: string): HierarchyNode | null => {
   for (const node of nodes) {
     if (node.id === id) return node;
@@ -137,6 +305,14 @@ const flattenNodes = (nodes: HierarchyNode[]): HierarchyNode[] => {
   return result;
 };
 
+/**
+ * Plain text of a hierarchy in document order: heading line, then the node's text
+ */
+export const hierarchyToText = (nodes: HierarchyNode[]): string =>
+  flattenNodes(nodes)
+    .map(node => [[node.number, node.title].filter(Boolean).join(' '), node.text].filter(Boolean).join('\n'))
+    .join('\n\n');
+
 export const useRegulationStore = create<RegulationStore>((set, get) => ({
   // Document data
   documentData: null,
@@ -149,18 +325,32 @@ export const useRegulationStore = create<RegulationStore>((set, get) => ({
     fileName: undefined,
   },
   setRawDocumentContent: (content, fileType, fileName) => set({
-    rawDocumentContent: { content, fileType, fileName }
+    rawDocumentContent: { content, fileType, fileName },
+    chatHistory: [],
+    activeLibraryId: null,
+    viewerSectionId: null,
   }),
+  setOcrPages: (pages) => set((state) => ({
+    rawDocumentContent: { ...state.rawDocumentContent, ocrPages: pages },
+  })),
+  setSourceText: (text) => set((state) => ({
+    rawDocumentContent: { ...state.rawDocumentContent, sourceText: text },
+  })),
 
   // Document viewer state
   highlightedSections: [],
   setHighlightedSections: (sections) => set({ highlightedSections: sections }),
   scrollToSection: (sectionId) => {
-    const sections = get().highlightedSections;
-    if (!sections.includes(sectionId)) {
-      set({ highlightedSections: [...sections, sectionId] });
-    }
+    // The viewers follow the last entry, so a section selected again moves back to the end
+    const sections = get().highlightedSections.filter(id => id !== sectionId);
+    set({ highlightedSections: [...sections, sectionId] });
   },
+  viewerSectionId: null,
+  setViewerSectionId: (id) => set({ viewerSectionId: id }),
+
+  viewerZoom: 1,
+  viewerFitWidth: true,
+  setViewerZoom: (zoom, fitWidth = false) => set({ viewerZoom: zoom, viewerFitWidth: fitWidth }),
 
   // Processing state
   processingState: {
@@ -170,28 +360,58 @@ export const useRegulationStore = create<RegulationStore>((set, get) => ({
   },
   setProcessingState: (state) => set({ processingState: state }),
 
+  // Analysis options
+  analysisMode: 'ai',
+  setAnalysisMode: (mode) => set({ analysisMode: mode }),
+  outputProtocol: 'nested',
+  setOutputProtocol: (protocol) => set({ outputProtocol: protocol }),
+  useResponseSchema: true,
+  setUseResponseSchema: (enabled) => set({ useResponseSchema: enabled }),
+  promptTemplateId: 'auto',
+  setPromptTemplateId: (id) => set({ promptTemplateId: id }),
+
+  autoDownloadJson: false,
+  setAutoDownloadJson: (enabled) => set({ autoDownloadJson: enabled }),
+
+  // Resumable analysis
+  resumableAnalysis: null,
+  setResumableAnalysis: (run) => set({ resumableAnalysis: run }),
+
+  // Schema validation
+  validationReport: null,
+  setValidationReport: (report) => set({ validationReport: report }),
+
   // Streaming state
   streamingState: {
     isStreaming: false,
     streamingNodes: [],
     streamingMetadata: null,
     streamingProgress: 0,
+    chunkStatuses: [],
   },
   setStreamingState: (state) => set(prev => ({ 
     streamingState: { ...prev.streamingState, ...state } 
   })),
-  addStreamingNode: (node) => set(prev => ({
+  addStreamingNode: (node, parentId) => set(prev => ({
     streamingState: {
       ...prev.streamingState,
-      streamingNodes: [...prev.streamingState.streamingNodes, node]
+      streamingNodes: parentId === undefined
+        ? [...prev.streamingState.streamingNodes, node]
+        : placeStreamingNode(prev.streamingState.streamingNodes, node, parentId)
     }
   })),
+  updateChunkStatus: (status) => set(prev => {
+    const chunkStatuses = [...prev.streamingState.chunkStatuses];
+    chunkStatuses[status.chunkIndex] = status;
+    return { streamingState: { ...prev.streamingState, chunkStatuses } };
+  }),
   clearStreamingData: () => set({
     streamingState: {
       isStreaming: false,
       streamingNodes: [],
       streamingMetadata: null,
       streamingProgress: 0,
+      chunkStatuses: [],
     }
   }),
 
@@ -217,38 +437,80 @@ export const useRegulationStore = create<RegulationStore>((set, get) => ({
   rightPanelCollapsed: false,
   setRightPanelCollapsed: (collapsed) => set({ rightPanelCollapsed: collapsed }),
 
-  // Saved documents
-  savedDocuments: [],
-  saveDocument: (title, data) => {
-    const id = `doc_${Date.now()}`;
-    const saved = { id, title, timestamp: Date.now(), data };
-    const documents = [...get().savedDocuments, saved];
-    localStorage.setItem('regulation_documents', JSON.stringify(documents));
-    set({ savedDocuments: documents });
-  },
-  
-  loadDocument: (id) => {
-    const doc = get().savedDocuments.find(d => d.id === id);
-    if (doc) {
-      set({ documentData: doc.data });
+  // Chat history
+  chatHistory: [],
+  setChatHistory: (messages) => {
+    set({ chatHistory: messages });
+    const { activeLibraryId } = get();
+    if (activeLibraryId) {
+      documentLibrary.updateChatHistory(activeLibraryId, messages).catch(error => {
+        console.error('Error saving chat history:', error);
+      });
     }
   },
-  
-  deleteDocument: (id) => {
-    const documents = get().savedDocuments.filter(d => d.id !== id);
-    localStorage.setItem('regulation_documents', JSON.stringify(documents));
-    set({ savedDocuments: documents });
-  },
-  
-  refreshSavedDocuments: () => {
+
+  // Document library
+  libraryDocuments: [],
+  activeLibraryId: null,
+
+  refreshLibrary: async () => {
     try {
-      const saved = localStorage.getItem('regulation_documents');
-      const documents = saved ? JSON.parse(saved) : [];
-      set({ savedDocuments: documents });
+      set({ libraryDocuments: await documentLibrary.list() });
     } catch (error) {
-      console.error('Error loading saved documents:', error);
-      set({ savedDocuments: [] });
+      console.error('Error loading document library:', error);
+      set({ libraryDocuments: [] });
+    }
+  },
+
+  saveToLibrary: async (title) => {
+    const { documentData, rawDocumentContent, chatHistory, activeLibraryId } = get();
+    const entry = await documentLibrary.save({
+      id: activeLibraryId ?? undefined,
+      title,
+      raw: rawDocumentContent,
+      data: documentData,
+      chatHistory,
+    });
+    set({ activeLibraryId: entry.id });
+    await get().refreshLibrary();
+    return entry;
+  },
+
+  openLibraryDocument: async (id) => {
+    const doc = await documentLibrary.get(id);
+    if (!doc) return false;
+
+    const { raw, data, chatHistory } = doc.content;
+    // Plain-text stand-in for documents saved before the library kept original files
+    const rawDocumentContent: RawDocumentContent = raw.content
+      ? raw
+      : { content: hierarchyToText(data?.hierarchy ?? []), fileType: 'text', fileName: raw.fileName ?? doc.title };
+
+    get().clearStreamingData();
+    set({
+      rawDocumentContent,
+      documentData: data,
+      chatHistory,
+      activeLibraryId: id,
+      validationReport: null,
+      resumableAnalysis: null,
+      selectedNodeId: null,
+      viewerSectionId: null,
+    });
+    return true;
+  },
+
+  renameLibraryDocument: async (id, title) => {
+    await documentLibrary.rename(id, title);
+    await get().refreshLibrary();
+  },
+
+  deleteLibraryDocuments: async (ids) => {
+    await documentLibrary.delete(ids);
+    if (ids.includes(get().activeLibraryId)) {
+      set({ activeLibraryId: null });
     }
+    await get().refreshLibrary();
   },
 
   // Helper functions
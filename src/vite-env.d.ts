@@ -2,6 +2,19 @@
 
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_OPENAI_API_KEY?: string
+  readonly VITE_OPENAI_BASE_URL?: string
+  readonly VITE_OLLAMA_BASE_URL?: string
+  readonly VITE_EXTRACTION_PROVIDER?: string
+  readonly VITE_EXTRACTION_MODEL?: string
+  readonly VITE_CHAT_PROVIDER?: string
+  readonly VITE_CHAT_MODEL?: string
+  readonly VITE_EXTRACTION_CONCURRENCY?: string
+  readonly VITE_EXTRACTION_MAX_RETRIES?: string
+  readonly VITE_EXTRACTION_RETRY_BASE_MS?: string
+  readonly VITE_URL_PROXY?: string
+  readonly VITE_OCR_LANG?: string
+  readonly VITE_OCR_LANG_PATH?: string
   // Add other environment variables here as needed
 }
 
@@ -1,8 +1,126 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createReadStream, existsSync, readFileSync, readdirSync } from "node:fs";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
 import { componentTagger } from "lovable-tagger";
 
+// Addresses the proxy must never reach: loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const blockedRanges: Array<[network: string, prefix: number, type: "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"], ["10.0.0.0", 8, "ipv4"], ["100.64.0.0", 10, "ipv4"], ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"], ["172.16.0.0", 12, "ipv4"], ["192.0.0.0", 24, "ipv4"], ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"], ["224.0.0.0", 4, "ipv4"], ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"], ["::1", 128, "ipv6"], ["fc00::", 7, "ipv6"], ["fe80::", 10, "ipv6"], ["ff00::", 8, "ipv6"], ["64:ff9b::", 96, "ipv6"],
+  // IPv4-mapped ("::ffff:10.0.0.1"): never needed for a public page, and would hide any of the ranges above
+  ["::ffff:0:0", 96, "ipv6"],
+];
+const blockedAddresses = new BlockList();
+blockedRanges.forEach(([network, prefix, type]) => blockedAddresses.addSubnet(network, prefix, type));
+
+const MAX_REDIRECTS = 5;
+
+const isBlockedAddress = (address: string): boolean =>
+  blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+const isLoopbackClient = (address: string | undefined): boolean =>
+  !!address && (address === "::1" || /^(::ffff:)?127\./i.test(address));
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to is public
+ */
+const assertPublicTarget = async (target: URL): Promise<void> => {
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw new Error(`Unsupported protocol ${target.protocol}`);
+  }
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error(`Refusing to fetch ${target.hostname}: it resolves to a private or reserved address`);
+  }
+};
+
+// Dev-only CORS proxy for URL ingestion: GET /api/fetch-url?url=<encoded page URL>
+// Serves only this machine, and only fetches public addresses (checked again on every redirect)
+const urlFetchProxy = (): Plugin => ({
+  name: "url-fetch-proxy",
+  configureServer(server) {
+    server.middlewares.use("/api/fetch-url", async (req, res) => {
+      if (!isLoopbackClient(req.socket.remoteAddress)) {
+        res.statusCode = 403;
+        res.end("The URL proxy only serves requests from this machine");
+        return;
+      }
+
+      const target = new URL(req.url ?? "", "http://localhost").searchParams.get("url");
+      if (!target || !/^https?:\/\//i.test(target)) {
+        res.statusCode = 400;
+        res.end("Expected an http(s) url parameter");
+        return;
+      }
+
+      try {
+        let url = new URL(target);
+        let upstream: Response;
+        for (let redirects = 0; ; redirects++) {
+          await assertPublicTarget(url);
+          upstream = await fetch(url, {
+            headers: { accept: req.headers.accept ?? "*/*", "user-agent": "Mozilla/5.0 (RegulationGraphTool dev proxy)" },
+            redirect: "manual",
+          });
+          const location = upstream.headers.get("location");
+          if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+          if (redirects >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+          url = new URL(location, url);
+        }
+
+        res.statusCode = upstream.status;
+        res.setHeader("content-type", upstream.headers.get("content-type") ?? "application/octet-stream");
+        res.end(Buffer.from(await upstream.arrayBuffer()));
+      } catch (error) {
+        res.statusCode = 502;
+        res.end(`Proxy fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  },
+});
+
+// OCR engine builds and language data, served from node_modules so OCR needs no CDN:
+// /tesseract-core/*.wasm.js (tesseract.js picks the build the browser supports) and /tessdata/<lang>.traineddata.gz
+// for every installed @tesseract.js-data/<lang> package
+const ocrAssetFiles = (): Map<string, string> => {
+  const files = new Map<string, string>();
+  const coreDir = path.resolve(__dirname, "node_modules/tesseract.js-core");
+  readdirSync(coreDir)
+    .filter((name) => name.endsWith("-lstm.wasm.js"))
+    .forEach((name) => files.set(`tesseract-core/${name}`, path.join(coreDir, name)));
+
+  const dataDir = path.resolve(__dirname, "node_modules/@tesseract.js-data");
+  if (existsSync(dataDir)) {
+    readdirSync(dataDir).forEach((lang) => {
+      const file = path.join(dataDir, lang, "4.0.0_best_int", `${lang}.traineddata.gz`);
+      if (existsSync(file)) files.set(`tessdata/${lang}.traineddata.gz`, file);
+    });
+  }
+  return files;
+};
+
+const ocrAssets = (): Plugin => ({
+  name: "ocr-assets",
+  configureServer(server) {
+    const files = ocrAssetFiles();
+    server.middlewares.use((req, res, next) => {
+      const file = files.get((req.url ?? "").split("?")[0].replace(/^\//, ""));
+      if (!file) return next();
+      res.setHeader("content-type", file.endsWith(".js") ? "text/javascript" : "application/gzip");
+      createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    ocrAssetFiles().forEach((file, fileName) => this.emitFile({ type: "asset", fileName, source: readFileSync(file) }));
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +129,8 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    urlFetchProxy(),
+    ocrAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),